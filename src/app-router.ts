@@ -1,5 +1,7 @@
 import { BrowserComponent } from './domain/browser';
 import { SatelliteDataService } from './services/satellite-data.service';
+import { observerService } from './services/observer.service';
+import { satcatService } from './services/satcat.service';
 
 export type AppView = '3d' | 'browser';
 
@@ -54,6 +56,9 @@ export class AppRouter {
     browserButton.addEventListener('click', () => this.showBrowser());
     document.body.appendChild(browserButton);
 
+    // Compared satellites are drawn on the map; the event carries on to the document for the tracker
+    this.browserContainer.addEventListener('compare-on-map', () => this.show3D());
+
     // Handle browser back navigation
     document.addEventListener('keydown', (e) => {
       if (e.key === 'Escape' && this.currentView === 'browser') {
@@ -94,8 +99,17 @@ export class AppRouter {
         await this.satelliteDataService.initialize();
       }
       
+      // Owner, launch and status metadata; joined to the browser's objects when it arrives
+      satcatService.load();
+
       // Create browser component
       this.browserComponent = new BrowserComponent(this.browserContainer, this.satelliteDataService);
+
+      // Use the shared observer location for pass predictions on the detail and comparison pages
+      this.browserComponent.setObserver(observerService.getObserver());
+      observerService.addEventListener('observer-changed', () => {
+        this.browserComponent?.setObserver(observerService.getObserver());
+      });
       
     } catch (error) {
       alert('Failed to initialize satellite browser. Please try again.');
@@ -1,3 +1,5 @@
+import { ElementSetParser } from './utils/element-set-parser';
+
 export interface Command {
   id: string;
   title: string;
@@ -26,6 +28,7 @@ export class CommandPalette {
   private getSatellites?: () => Map<string, any>;
   private getSearchDatabase?: () => Map<string, any>;
   private loadSearchDatabase?: () => Promise<void>;
+  private onImportElements?: (text: string) => void;
 
   constructor() {
     this.palette = document.getElementById('command-palette')!;
@@ -46,11 +49,13 @@ export class CommandPalette {
     getSatellites?: () => Map<string, any>;
     getSearchDatabase?: () => Map<string, any>;
     loadSearchDatabase?: () => Promise<void>;
+    onImportElements?: (text: string) => void;
   }) {
     this.onTrackSatellite = callbacks.onTrackSatellite;
     this.getSatellites = callbacks.getSatellites;
     this.getSearchDatabase = callbacks.getSearchDatabase;
     this.loadSearchDatabase = callbacks.loadSearchDatabase;
+    this.onImportElements = callbacks.onImportElements;
     
     this.initializeSatellites();
   }
@@ -107,6 +112,16 @@ export class CommandPalette {
       this.handleInput();
     });
 
+    // Pasted element sets are imported instead of searched for
+    this.input.addEventListener('paste', (e) => {
+      const text = e.clipboardData?.getData('text') || '';
+      if (this.onImportElements && this.looksLikeElementSets(text)) {
+        e.preventDefault();
+        this.close();
+        this.onImportElements(text);
+      }
+    });
+
 
     // Handle navigation keys directly on the input
     this.input.addEventListener('keydown', (e) => {
@@ -323,6 +338,16 @@ export class CommandPalette {
   }
 
 
+  /**
+   * Multi-line TLE text or an OMM document, as opposed to a search query
+   */
+  private looksLikeElementSets(text: string): boolean {
+    if (ElementSetParser.detectFormat(text) !== 'tle') {
+      return true;
+    }
+    return /^\s*1 .{60,}$/m.test(text) && /^\s*2 .{60,}$/m.test(text);
+  }
+
   private showHint() {
     this.hint.classList.add('show');
   }
@@ -1,17 +1,32 @@
-import { SatelliteData } from '../types/satellite';
+import { SatelliteData, SatellitePass, ObserverLocation } from '../types/satellite';
+import { ObserverService } from '../services/observer.service';
+import { PassPredictor } from '../utils/pass-predictor';
+import { EclipseStatus } from '../utils/eclipse-calculator';
+import { TLEEpoch } from '../utils/tle-epoch';
+import { OrbitalElements } from '../utils/orbital-elements';
 
 export class CockpitComponent {
   private commandPalette?: any; // Will hold reference to CommandPalette instance
+  private observerService?: ObserverService;
+  private displayedElementSet: string | null = null;
   
   constructor() {
     this.setupEventListeners();
     this.setupDropdownFunctionality();
+    this.setupElementsDropdown();
   }
 
   setCommandPalette(commandPalette: any): void {
     this.commandPalette = commandPalette;
   }
 
+  setObserverService(observerService: ObserverService): void {
+    this.observerService = observerService;
+    observerService.addEventListener('observer-changed', () => this.updateObserverDisplay());
+    this.setupObserverDropdown();
+    this.updateObserverDisplay();
+  }
+
   private setupEventListeners(): void {
     // No cockpit hiding functionality needed
   }
@@ -115,7 +130,7 @@ export class CockpitComponent {
     });
   }
 
-  updateStatus(satellites: Map<string, SatelliteData>, followingSatellite: string | null): void {
+  updateStatus(satellites: Map<string, SatelliteData>, followingSatellite: string | null, observer: ObserverLocation | null = null, time: Date = new Date()): void {
     const trackedAltitudeElement = document.getElementById('tracked-altitude');
     const trackedNameElement = document.getElementById('tracked-name');
     const trackedSpeedElement = document.getElementById('tracked-speed');
@@ -128,14 +143,258 @@ export class CockpitComponent {
         if (trackedNameElement) trackedNameElement.textContent = trackedSatellite.shortname || trackedSatellite.name;
         if (trackedSpeedElement) trackedSpeedElement.textContent = trackedSatellite.velocity.toFixed(2);
       }
+      this.updateLookAngles(trackedSatellite || null, observer, time);
+      this.updateTleAge(trackedSatellite || null, time);
+      this.updateOrbitalElements(trackedSatellite || null);
     } else {
       // No satellite being tracked - show defaults
       if (trackedAltitudeElement) trackedAltitudeElement.textContent = '---';
       if (trackedNameElement) trackedNameElement.textContent = 'No satellite selected';
       if (trackedSpeedElement) trackedSpeedElement.textContent = '---';
+      this.updateLookAngles(null, observer, time);
+      this.updateTleAge(null, time);
+      this.updateOrbitalElements(null);
+    }
+  }
+
+  private updateTleAge(satellite: SatelliteData | null, time: Date): void {
+    const tleAgeElement = document.getElementById('tracked-tle-age');
+    if (!tleAgeElement) return;
+
+    const epoch = satellite ? TLEEpoch.parseEpoch(satellite.tle1) : null;
+    if (epoch === null) {
+      tleAgeElement.textContent = '---';
+      tleAgeElement.classList.remove('stale-elements');
+      tleAgeElement.removeAttribute('title');
+      return;
+    }
+
+    const ageDays = (time.getTime() - epoch) / (24 * 60 * 60 * 1000);
+    const isStale = TLEEpoch.isStale(satellite!.tle1, time.getTime());
+    tleAgeElement.textContent = `${isStale ? '⚠️ ' : ''}${TLEEpoch.formatAge(ageDays)}`;
+    tleAgeElement.classList.toggle('stale-elements', isStale);
+    tleAgeElement.title = `Epoch ${new Date(epoch).toISOString().replace('T', ' ').substring(0, 19)} UTC` +
+      (isStale ? ` - older than ${TLEEpoch.DEFAULT_STALE_THRESHOLD_DAYS} days, positions may be off by many km` : '');
+  }
+
+  /**
+   * Show the orbit regime in the banner and the classical elements in its dropdown.
+   * Only re-rendered when the element set changes.
+   */
+  private updateOrbitalElements(satellite: SatelliteData | null): void {
+    const elementSet = satellite ? `${satellite.tle1}\n${satellite.tle2}` : null;
+    if (elementSet === this.displayedElementSet) return;
+    this.displayedElementSet = elementSet;
+
+    const orbitElement = document.getElementById('tracked-orbit');
+    const gridElement = document.getElementById('elements-grid');
+    const emptyElement = document.getElementById('elements-empty');
+
+    const elements = satellite ? OrbitalElements.fromTLE(satellite.tle1, satellite.tle2) : null;
+    if (!elements) {
+      if (orbitElement) orbitElement.textContent = '---';
+      if (gridElement) gridElement.innerHTML = '';
+      if (emptyElement) emptyElement.style.display = '';
+      return;
+    }
+
+    if (orbitElement) orbitElement.textContent = `${elements.regime} · ${elements.inclination.toFixed(1)}°`;
+    if (emptyElement) emptyElement.style.display = 'none';
+    if (gridElement) {
+      const rows: [string, string][] = [
+        ['Regime', elements.regime],
+        ['Inclination', `${elements.inclination.toFixed(4)}°`],
+        ['RAAN', `${elements.raan.toFixed(4)}°`],
+        ['Eccentricity', elements.eccentricity.toFixed(7)],
+        ['Arg. perigee', `${elements.argumentOfPerigee.toFixed(4)}°`],
+        ['Mean anomaly', `${elements.meanAnomaly.toFixed(4)}°`],
+        ['Mean motion', `${elements.meanMotion.toFixed(8)} rev/d`],
+        ['Period', `${elements.period.toFixed(2)} min`],
+        ['Semi-major axis', `${elements.semiMajorAxis.toFixed(1)} km`],
+        ['Apogee', `${elements.apogeeAltitude.toFixed(1)} km`],
+        ['Perigee', `${elements.perigeeAltitude.toFixed(1)} km`],
+        ['B*', elements.bstar.toExponential(4)]
+      ];
+      gridElement.innerHTML = rows.map(([label, value]) => `<dt>${label}</dt><dd>${value}</dd>`).join('');
+    }
+  }
+
+  private setupElementsDropdown(): void {
+    const orbitItem = document.querySelector('.banner-item.orbit[data-section="elements"]');
+    const elementsContent = document.getElementById('elements-content');
+    if (!orbitItem || !elementsContent) return;
+
+    orbitItem.addEventListener('click', (e) => {
+      e.stopPropagation();
+      elementsContent.classList.toggle('active');
+    });
+
+    // Close when clicking anywhere else
+    document.addEventListener('click', (e) => {
+      if (!elementsContent.contains(e.target as Node)) {
+        elementsContent.classList.remove('active');
+      }
+    });
+  }
+
+  private updateLookAngles(satellite: SatelliteData | null, observer: ObserverLocation | null, time: Date): void {
+    const lookAnglesElement = document.getElementById('tracked-look-angles');
+    const rangeElement = document.getElementById('tracked-range');
+    const rangeRateElement = document.getElementById('tracked-range-rate');
+
+    const lookAngles = satellite && observer
+      ? PassPredictor.getLookAngles(satellite.tle1, satellite.tle2, observer, time)
+      : null;
+
+    if (!lookAngles) {
+      if (lookAnglesElement) {
+        lookAnglesElement.textContent = '---';
+        lookAnglesElement.classList.remove('above-horizon', 'below-horizon');
+      }
+      if (rangeElement) rangeElement.textContent = '---';
+      if (rangeRateElement) rangeRateElement.textContent = '---';
+      return;
+    }
+
+    if (lookAnglesElement) {
+      lookAnglesElement.textContent = `${lookAngles.azimuth.toFixed(0)}° / ${lookAngles.elevation.toFixed(1)}°`;
+      // Highlight when the satellite is above the observer's horizon
+      lookAnglesElement.classList.toggle('above-horizon', lookAngles.elevation > 0);
+      lookAnglesElement.classList.toggle('below-horizon', lookAngles.elevation <= 0);
+    }
+    if (rangeElement) rangeElement.textContent = lookAngles.range.toFixed(0);
+    if (rangeRateElement) {
+      rangeRateElement.textContent = `${lookAngles.rangeRate >= 0 ? '+' : ''}${lookAngles.rangeRate.toFixed(2)}`;
     }
   }
 
+  private setupObserverDropdown(): void {
+    const observerItem = document.querySelector('.banner-item.observer[data-section="observer"]');
+    const observerContent = document.getElementById('observer-content');
+    if (!observerItem || !observerContent) return;
+
+    const latitudeInput = document.getElementById('observer-latitude') as HTMLInputElement | null;
+    const longitudeInput = document.getElementById('observer-longitude') as HTMLInputElement | null;
+    const altitudeInput = document.getElementById('observer-altitude') as HTMLInputElement | null;
+
+    const fillInputs = () => {
+      const observer = this.observerService?.getObserver();
+      if (!observer) return;
+      if (latitudeInput) latitudeInput.value = observer.latitude.toFixed(4);
+      if (longitudeInput) longitudeInput.value = observer.longitude.toFixed(4);
+      if (altitudeInput) altitudeInput.value = Math.round(observer.altitude * 1000).toString();
+    };
+
+    observerItem.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const isActive = observerContent.classList.toggle('active');
+      if (isActive) {
+        fillInputs();
+      }
+    });
+
+    // Close when clicking anywhere else
+    document.addEventListener('click', (e) => {
+      if (!observerContent.contains(e.target as Node)) {
+        observerContent.classList.remove('active');
+      }
+    });
+
+    document.getElementById('observer-save')?.addEventListener('click', () => {
+      const latitude = parseFloat(latitudeInput?.value || '');
+      const longitude = parseFloat(longitudeInput?.value || '');
+      const altitudeMeters = parseFloat(altitudeInput?.value || '0') || 0;
+
+      if (this.observerService?.setManualLocation(latitude, longitude, altitudeMeters / 1000)) {
+        observerContent.classList.remove('active');
+        this.showMessage('📍 Observer location saved', 'success');
+      } else {
+        this.showMessage('Invalid coordinates', 'error');
+      }
+    });
+
+    document.getElementById('observer-geolocate')?.addEventListener('click', async () => {
+      if (!this.observerService) return;
+      try {
+        await this.observerService.requestGeolocation();
+        fillInputs();
+        observerContent.classList.remove('active');
+        this.showMessage('📍 Using your current location', 'success');
+      } catch (error) {
+        this.showMessage(`Location unavailable: ${(error as Error).message}`, 'error');
+      }
+    });
+  }
+
+  private updateObserverDisplay(): void {
+    const observerLocationElement = document.getElementById('observer-location');
+    if (!observerLocationElement) return;
+
+    const observer = this.observerService?.getObserver();
+    if (!observer) {
+      observerLocationElement.textContent = 'Not set';
+      return;
+    }
+
+    const latitude = `${Math.abs(observer.latitude).toFixed(2)}°${observer.latitude >= 0 ? 'N' : 'S'}`;
+    const longitude = `${Math.abs(observer.longitude).toFixed(2)}°${observer.longitude >= 0 ? 'E' : 'W'}`;
+    observerLocationElement.textContent = `${latitude} ${longitude}`;
+  }
+
+  updateNextPass(pass: SatellitePass | null, now: Date = new Date()): void {
+    const nextPassElement = document.getElementById('tracked-next-pass');
+    if (!nextPassElement) return;
+
+    if (!pass) {
+      nextPassElement.textContent = '---';
+      nextPassElement.removeAttribute('title');
+      return;
+    }
+
+    const maxElevation = `${pass.maxElevation.toFixed(0)}°`;
+    if (pass.riseTime.getTime() <= now.getTime()) {
+      // Pass in progress
+      nextPassElement.textContent = `Now · ${maxElevation}`;
+    } else {
+      const riseTime = pass.riseTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      nextPassElement.textContent = `${riseTime} · ${maxElevation}`;
+    }
+
+    nextPassElement.title = `AOS ${pass.riseTime.toLocaleString()} (az ${pass.riseAzimuth.toFixed(0)}°)\n` +
+      `TCA ${pass.culminationTime.toLocaleString()} (el ${pass.maxElevation.toFixed(1)}°)\n` +
+      `LOS ${pass.setTime.toLocaleString()} (az ${pass.setAzimuth.toFixed(0)}°)`;
+  }
+
+  updateEclipseStatus(status: EclipseStatus | null): void {
+    const eclipseElement = document.getElementById('tracked-eclipse');
+    const eclipseIcon = document.getElementById('tracked-eclipse-icon');
+    if (!eclipseElement) return;
+
+    if (!status) {
+      eclipseElement.textContent = '---';
+      eclipseElement.removeAttribute('title');
+      if (eclipseIcon) eclipseIcon.textContent = '☀️';
+      return;
+    }
+
+    const formatTime = (date: Date | null) => date
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : '---';
+
+    if (status.state === 'sunlit') {
+      if (eclipseIcon) eclipseIcon.textContent = '☀️';
+      eclipseElement.textContent = `Sunlit · enters ${formatTime(status.nextEntry)}`;
+    } else {
+      if (eclipseIcon) eclipseIcon.textContent = '🌑';
+      const stateLabel = status.state === 'umbra' ? 'Umbra' : 'Penumbra';
+      eclipseElement.textContent = `${stateLabel} · exits ${formatTime(status.nextExit)}`;
+    }
+
+    eclipseElement.title = `Shadow entry: ${status.nextEntry ? status.nextEntry.toLocaleString() : '---'}\n` +
+      `Umbra entry: ${status.nextUmbraEntry ? status.nextUmbraEntry.toLocaleString() : '---'}\n` +
+      `Umbra exit: ${status.nextUmbraExit ? status.nextUmbraExit.toLocaleString() : '---'}\n` +
+      `Shadow exit: ${status.nextExit ? status.nextExit.toLocaleString() : '---'}`;
+  }
 
   showMessage(message: string, type: 'success' | 'error' | 'warning' | 'info'): void {
     const messageDiv = document.createElement('div');
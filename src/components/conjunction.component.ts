@@ -0,0 +1,152 @@
+import { ConjunctionEvent, ConjunctionScreener } from '../utils/conjunction-screener';
+import { HtmlEscape } from '../utils/html-escape';
+
+export interface ConjunctionScreeningSettings {
+  durationHours: number;
+  thresholdKm: number;
+}
+
+export interface ConjunctionCallbacks {
+  onScreen?: (settings: ConjunctionScreeningSettings) => void;
+  onCancel?: () => void;
+  onSelectEvent?: (event: ConjunctionEvent) => void;
+  onClearSelection?: () => void;
+}
+
+export class ConjunctionComponent {
+  private callbacks: ConjunctionCallbacks = {};
+  private events: ConjunctionEvent[] = [];
+
+  constructor() {
+    this.setupPanelToggle();
+    this.setupEventListeners();
+  }
+
+  setCallbacks(callbacks: ConjunctionCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Show which object will be screened (the tracked satellite)
+   */
+  setTarget(name: string | null): void {
+    const targetElement = document.getElementById('conjunction-target');
+    if (targetElement) {
+      targetElement.textContent = name || 'Track a satellite first';
+      targetElement.classList.toggle('missing', !name);
+    }
+  }
+
+  setRunning(running: boolean): void {
+    const runButton = document.getElementById('conjunction-run') as HTMLButtonElement | null;
+    const cancelButton = document.getElementById('conjunction-cancel') as HTMLButtonElement | null;
+    if (runButton) runButton.disabled = running;
+    if (cancelButton) cancelButton.style.display = running ? 'inline-block' : 'none';
+    document.getElementById('conjunction-progress')?.classList.toggle('active', running);
+    if (running) {
+      this.setStatus('Screening…');
+      this.setProgress(0, 1);
+    }
+  }
+
+  setProgress(completed: number, total: number): void {
+    const bar = document.getElementById('conjunction-progress-bar');
+    if (bar) {
+      bar.style.width = `${total > 0 ? Math.round((completed / total) * 100) : 0}%`;
+    }
+    if (total > 1) {
+      this.setStatus(`Screening… ${completed.toLocaleString()} / ${total.toLocaleString()} objects`);
+    }
+  }
+
+  setStatus(message: string, isError: boolean = false): void {
+    const statusElement = document.getElementById('conjunction-status');
+    if (statusElement) {
+      statusElement.textContent = message;
+      statusElement.classList.toggle('error', isError);
+    }
+  }
+
+  setResults(events: ConjunctionEvent[], screenedCount: number): void {
+    this.events = events;
+    this.setStatus(events.length === 0
+      ? `No close approaches among ${screenedCount.toLocaleString()} objects`
+      : `${events.length} close approach${events.length === 1 ? '' : 'es'} among ${screenedCount.toLocaleString()} objects`);
+    this.renderResults();
+  }
+
+  private renderResults(): void {
+    const tbody = document.getElementById('conjunction-results');
+    if (!tbody) return;
+
+    tbody.innerHTML = this.events.map((event, index) => `
+      <tr data-index="${index}">
+        <td>${new Date(event.tca).toISOString().replace('T', ' ').substring(0, 19)}</td>
+        <td class="conjunction-object" title="${HtmlEscape.escape(event.secondaryId)}">${HtmlEscape.escape(event.secondaryName)}</td>
+        <td class="numeric">${event.missDistanceKm.toFixed(3)}</td>
+        <td class="numeric">${event.relativeVelocityKmS.toFixed(2)}</td>
+      </tr>
+    `).join('');
+  }
+
+  private setupPanelToggle(): void {
+    const toggle = document.getElementById('conjunction-toggle');
+    const panel = document.getElementById('conjunction-panel');
+    if (!toggle || !panel) return;
+
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      panel.classList.toggle('active');
+      toggle.classList.toggle('active', panel.classList.contains('active'));
+    });
+  }
+
+  private setupEventListeners(): void {
+    const maxHours = ConjunctionScreener.MAX_DURATION_HOURS;
+    const windowInput = document.getElementById('conjunction-window') as HTMLInputElement | null;
+    if (windowInput) {
+      windowInput.max = String(maxHours);
+      windowInput.title = `At most ${maxHours} h (${maxHours / 24} days)`;
+    }
+
+    document.getElementById('conjunction-close')?.addEventListener('click', () => {
+      document.getElementById('conjunction-panel')?.classList.remove('active');
+      document.getElementById('conjunction-toggle')?.classList.remove('active');
+    });
+
+    document.getElementById('conjunction-run')?.addEventListener('click', () => {
+      const thresholdInput = document.getElementById('conjunction-threshold') as HTMLInputElement | null;
+      let durationHours = parseFloat(windowInput?.value || '24');
+      const thresholdKm = parseFloat(thresholdInput?.value || '10');
+
+      if (isNaN(durationHours) || durationHours <= 0 || isNaN(thresholdKm) || thresholdKm <= 0) {
+        this.setStatus('Enter a positive time window and miss distance', true);
+        return;
+      }
+      if (durationHours > maxHours) {
+        durationHours = maxHours;
+        if (windowInput) windowInput.value = String(maxHours);
+      }
+      this.callbacks.onScreen?.({ durationHours, thresholdKm });
+    });
+
+    document.getElementById('conjunction-cancel')?.addEventListener('click', () => {
+      this.callbacks.onCancel?.();
+    });
+
+    document.getElementById('conjunction-clear')?.addEventListener('click', () => {
+      document.querySelectorAll('#conjunction-results tr.selected').forEach(row => row.classList.remove('selected'));
+      this.callbacks.onClearSelection?.();
+    });
+
+    document.getElementById('conjunction-results')?.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('tr');
+      const event = row ? this.events[parseInt(row.dataset.index || '', 10)] : undefined;
+      if (!row || !event) return;
+
+      document.querySelectorAll('#conjunction-results tr.selected').forEach(other => other.classList.remove('selected'));
+      row.classList.add('selected');
+      this.callbacks.onSelectEvent?.(event);
+    });
+  }
+}
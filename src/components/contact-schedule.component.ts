@@ -0,0 +1,166 @@
+import { GroundStation } from '../types/satellite';
+import { ContactWindow } from '../utils/contact-scheduler';
+import { HtmlEscape } from '../utils/html-escape';
+
+export interface ContactScheduleCallbacks {
+  onPanelToggled?: (open: boolean) => void;
+  onShowStationsToggled?: (enabled: boolean) => void;
+  onSelectContact?: (contact: ContactWindow) => void;
+}
+
+/**
+ * Gantt-style schedule of the tracked satellite's contacts with the ground station network
+ */
+export class ContactScheduleComponent {
+  private static readonly AXIS_TICK_HOURS = 6;
+
+  private callbacks: ContactScheduleCallbacks = {};
+  private contacts: ContactWindow[] = [];
+  private start = 0;    // ms since epoch
+  private duration = 0; // ms
+
+  constructor() {
+    this.setupPanelToggle();
+    this.setupEventListeners();
+  }
+
+  setCallbacks(callbacks: ContactScheduleCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  isOpen(): boolean {
+    return !!document.getElementById('contact-panel')?.classList.contains('active');
+  }
+
+  setShowStations(enabled: boolean): void {
+    const checkbox = document.getElementById('contact-show-stations') as HTMLInputElement | null;
+    if (checkbox) checkbox.checked = enabled;
+  }
+
+  /**
+   * Show whose contacts are scheduled (the tracked satellite)
+   */
+  setTarget(name: string | null): void {
+    const targetElement = document.getElementById('contact-target');
+    if (targetElement) {
+      targetElement.textContent = name || 'Track a satellite first';
+      targetElement.classList.toggle('missing', !name);
+    }
+    if (!name) {
+      this.setSchedule([], [], 0, 0);
+    }
+  }
+
+  /**
+   * @param start Start of the schedule, ms since epoch
+   * @param durationHours Length of the schedule
+   */
+  setSchedule(stations: GroundStation[], contacts: ContactWindow[], start: number, durationHours: number): void {
+    this.contacts = contacts;
+    this.start = start;
+    this.duration = durationHours * 60 * 60 * 1000;
+
+    const statusElement = document.getElementById('contact-status');
+    if (statusElement) {
+      statusElement.textContent = this.duration === 0 ? '' : contacts.length === 0
+        ? `No contacts with ${stations.length} stations in the next ${durationHours} h`
+        : `${contacts.length} contact${contacts.length === 1 ? '' : 's'} with ${new Set(contacts.map(contact => contact.station.id)).size} of ${stations.length} stations in the next ${durationHours} h`;
+    }
+
+    this.renderGantt(this.duration === 0 ? [] : stations);
+  }
+
+  /**
+   * Move the current-time marker
+   * @param time Simulation time, ms since epoch
+   */
+  setNow(time: number): void {
+    const marker = document.getElementById('contact-now');
+    if (!marker) return;
+
+    const fraction = this.duration > 0 ? (time - this.start) / this.duration : -1;
+    marker.style.display = fraction >= 0 && fraction <= 1 ? 'block' : 'none';
+    marker.style.left = `${fraction * 100}%`;
+  }
+
+  private renderGantt(stations: GroundStation[]): void {
+    const gantt = document.getElementById('contact-gantt');
+    if (!gantt) return;
+
+    const rows = stations.map(station => {
+      const bars = this.contacts
+        .map((contact, index) => ({ contact, index }))
+        .filter(({ contact }) => contact.station.id === station.id)
+        .map(({ contact, index }) => this.renderBar(contact, index))
+        .join('');
+      return `
+        <div class="contact-row">
+          <span class="contact-station" title="Elevation mask ${station.minElevation}°">${HtmlEscape.escape(station.name)}</span>
+          <div class="contact-track">${bars}</div>
+        </div>
+      `;
+    }).join('');
+
+    const ticks = [];
+    const hours = this.duration / (60 * 60 * 1000);
+    for (let hour = 0; hour <= hours; hour += ContactScheduleComponent.AXIS_TICK_HOURS) {
+      const time = new Date(this.start + hour * 60 * 60 * 1000);
+      ticks.push(`<span class="contact-tick" style="left: ${(hour / hours) * 100}%">${time.toISOString().substring(11, 16)}</span>`);
+    }
+
+    gantt.innerHTML = stations.length === 0 ? '' : `
+      ${rows}
+      <div class="contact-row contact-axis-row">
+        <span class="contact-station">UTC</span>
+        <div class="contact-track contact-axis">${ticks.join('')}</div>
+      </div>
+      <div class="contact-now-layer"><div class="contact-now" id="contact-now"></div></div>
+    `;
+  }
+
+  private renderBar(contact: ContactWindow, index: number): string {
+    const aos = Math.max(contact.pass.riseTime.getTime(), this.start);
+    const los = Math.min(contact.pass.setTime.getTime(), this.start + this.duration);
+    const left = ((aos - this.start) / this.duration) * 100;
+    const width = Math.max(((los - aos) / this.duration) * 100, 0.3); // Keep short contacts clickable
+    const title = `${contact.station.name}\nAOS ${this.formatTime(contact.pass.riseTime)}\nLOS ${this.formatTime(contact.pass.setTime)}\nMax elevation ${contact.pass.maxElevation.toFixed(1)}°`;
+    return `<div class="contact-bar" data-index="${index}" style="left: ${left}%; width: ${width}%" title="${HtmlEscape.escape(title)}"></div>`;
+  }
+
+  private formatTime(date: Date): string {
+    return `${date.toISOString().replace('T', ' ').substring(0, 19)} UTC`;
+  }
+
+  private setupPanelToggle(): void {
+    const toggle = document.getElementById('contact-toggle');
+    const panel = document.getElementById('contact-panel');
+    if (!toggle || !panel) return;
+
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      panel.classList.toggle('active');
+      toggle.classList.toggle('active', panel.classList.contains('active'));
+      this.callbacks.onPanelToggled?.(panel.classList.contains('active'));
+    });
+  }
+
+  private setupEventListeners(): void {
+    document.getElementById('contact-close')?.addEventListener('click', () => {
+      document.getElementById('contact-panel')?.classList.remove('active');
+      document.getElementById('contact-toggle')?.classList.remove('active');
+      this.callbacks.onPanelToggled?.(false);
+    });
+
+    document.getElementById('contact-show-stations')?.addEventListener('change', (e) => {
+      this.callbacks.onShowStationsToggled?.((e.target as HTMLInputElement).checked);
+    });
+
+    document.getElementById('contact-gantt')?.addEventListener('click', (e) => {
+      const bar = (e.target as HTMLElement).closest('.contact-bar') as HTMLElement | null;
+      const contact = bar ? this.contacts[parseInt(bar.dataset.index || '', 10)] : undefined;
+      if (contact) {
+        this.callbacks.onSelectContact?.(contact);
+      }
+    });
+  }
+}
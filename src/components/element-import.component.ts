@@ -0,0 +1,73 @@
+/**
+ * Drag-and-drop import of element-set files (TLE text or OMM JSON/XML/CSV) onto the map
+ */
+export class ElementImportComponent {
+  private static readonly ACCEPTED_EXTENSIONS = ['.tle', '.txt', '.3le', '.json', '.xml', '.csv'];
+
+  private overlay: HTMLElement | null;
+  private dragDepth = 0; // dragenter/dragleave fire for every child element crossed
+  private onImportText?: (text: string, sourceName: string) => void;
+
+  constructor() {
+    this.overlay = document.getElementById('element-drop-overlay');
+    this.setupEventListeners();
+  }
+
+  setCallbacks(callbacks: {
+    onImportText?: (text: string, sourceName: string) => void;
+  }): void {
+    this.onImportText = callbacks.onImportText;
+  }
+
+  private setupEventListeners(): void {
+    document.addEventListener('dragenter', (e) => {
+      if (!this.isFileDrag(e)) return;
+      e.preventDefault();
+      this.dragDepth++;
+      this.overlay?.classList.add('active');
+    });
+
+    document.addEventListener('dragover', (e) => {
+      if (!this.isFileDrag(e)) return;
+      // Required for the drop event to fire
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    });
+
+    document.addEventListener('dragleave', (e) => {
+      if (!this.isFileDrag(e)) return;
+      this.dragDepth = Math.max(0, this.dragDepth - 1);
+      if (this.dragDepth === 0) {
+        this.overlay?.classList.remove('active');
+      }
+    });
+
+    document.addEventListener('drop', (e) => {
+      if (!this.isFileDrag(e)) return;
+      e.preventDefault();
+      this.dragDepth = 0;
+      this.overlay?.classList.remove('active');
+      this.importFiles(Array.from(e.dataTransfer?.files || []));
+    });
+  }
+
+  private isFileDrag(e: DragEvent): boolean {
+    return !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+  }
+
+  private async importFiles(files: File[]): Promise<void> {
+    for (const file of files) {
+      const name = file.name.toLowerCase();
+      if (!ElementImportComponent.ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension))) {
+        console.warn(`⚠️ Ignoring ${file.name}: not a TLE or OMM file`);
+        continue;
+      }
+
+      try {
+        this.onImportText?.(await file.text(), file.name);
+      } catch (error) {
+        console.warn(`⚠️ Failed to read ${file.name}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,202 @@
+export interface LayerControlsCallbacks {
+  onOrbitsToggled?: (enabled: boolean) => void;
+  onOrbitRevolutionsChanged?: (ahead: number, behind: number) => void;
+  onOrbitIlluminationToggled?: (enabled: boolean) => void;
+  onCoverageTrackedToggled?: (enabled: boolean) => void;
+  onCoverageTypeToggled?: (type: string, enabled: boolean) => void;
+  onCoverageElevationChanged?: (degrees: number) => void;
+  onSwathsToggled?: (enabled: boolean) => void;
+  onTerminatorToggled?: (enabled: boolean) => void;
+  onTleAgeColorToggled?: (enabled: boolean) => void;
+  onMaxTleAgeChanged?: (days: number | null) => void;
+  onCustomObjectsToggled?: (enabled: boolean) => void;
+  onClearCustomObjects?: () => void;
+}
+
+export class LayerControlsComponent {
+  private callbacks: LayerControlsCallbacks = {};
+
+  constructor() {
+    this.setupPanelToggle();
+    this.setupOrbitControls();
+    this.setupCoverageControls();
+    this.setupSwathControls();
+    this.setupTerminatorControls();
+    this.setupTleAgeControls();
+    this.setupCustomObjectControls();
+  }
+
+  setCallbacks(callbacks: LayerControlsCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Reflect the current orbit settings in the panel (e.g. after toggling with the keyboard)
+   */
+  setOrbitState(enabled: boolean, ahead: number, behind: number, illumination: boolean): void {
+    const orbitsCheckbox = document.getElementById('layer-orbits') as HTMLInputElement | null;
+    const aheadInput = document.getElementById('layer-orbit-ahead') as HTMLInputElement | null;
+    const behindInput = document.getElementById('layer-orbit-behind') as HTMLInputElement | null;
+
+    if (orbitsCheckbox) orbitsCheckbox.checked = enabled;
+    if (aheadInput && document.activeElement !== aheadInput) aheadInput.value = ahead.toString();
+    if (behindInput && document.activeElement !== behindInput) behindInput.value = behind.toString();
+    const illuminationCheckbox = document.getElementById('layer-orbit-illumination') as HTMLInputElement | null;
+    if (illuminationCheckbox) illuminationCheckbox.checked = illumination;
+    document.getElementById('layer-orbit-options')?.classList.toggle('disabled', !enabled);
+  }
+
+  /**
+   * Reflect the coverage footprint settings: the tracked satellite's own toggle, per-type toggles and the elevation mask
+   */
+  setCoverageState(trackedEnabled: boolean, types: Set<string>, minElevation: number): void {
+    const trackedCheckbox = document.getElementById('layer-coverage-tracked') as HTMLInputElement | null;
+    const elevationInput = document.getElementById('layer-coverage-elevation') as HTMLInputElement | null;
+
+    if (trackedCheckbox) trackedCheckbox.checked = trackedEnabled;
+    if (elevationInput && document.activeElement !== elevationInput) elevationInput.value = minElevation.toString();
+    document.querySelectorAll<HTMLInputElement>('.layer-coverage-type').forEach(checkbox => {
+      checkbox.checked = types.has(checkbox.dataset.type || '');
+    });
+  }
+
+  setSwathState(enabled: boolean): void {
+    const swathsCheckbox = document.getElementById('layer-swaths') as HTMLInputElement | null;
+    if (swathsCheckbox) swathsCheckbox.checked = enabled;
+  }
+
+  setTerminatorState(enabled: boolean): void {
+    const terminatorCheckbox = document.getElementById('layer-terminator') as HTMLInputElement | null;
+    if (terminatorCheckbox) terminatorCheckbox.checked = enabled;
+  }
+
+  /**
+   * Reflect the element-set age settings: colouring by age and the age limit (null when off)
+   */
+  setTleAgeState(colorByAge: boolean, maxAgeDays: number | null): void {
+    const colorCheckbox = document.getElementById('layer-tle-age-color') as HTMLInputElement | null;
+    const maxAgeInput = document.getElementById('layer-tle-max-age') as HTMLInputElement | null;
+
+    if (colorCheckbox) colorCheckbox.checked = colorByAge;
+    if (maxAgeInput && document.activeElement !== maxAgeInput) maxAgeInput.value = maxAgeDays !== null ? maxAgeDays.toString() : '';
+  }
+
+  /**
+   * Reflect the "My objects" group: whether it is shown and how many imported objects it holds
+   */
+  setCustomObjectsState(enabled: boolean, count: number): void {
+    const customCheckbox = document.getElementById('layer-custom-objects') as HTMLInputElement | null;
+    const countLabel = document.getElementById('layer-custom-count');
+    const clearButton = document.getElementById('layer-custom-clear') as HTMLButtonElement | null;
+
+    if (customCheckbox) customCheckbox.checked = enabled;
+    if (countLabel) countLabel.textContent = count.toString();
+    if (clearButton) clearButton.disabled = count === 0;
+  }
+
+  private setupPanelToggle(): void {
+    const toggle = document.getElementById('layer-controls-toggle');
+    const panel = document.getElementById('layer-controls-panel');
+    if (!toggle || !panel) return;
+
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      panel.classList.toggle('active');
+      toggle.classList.toggle('active', panel.classList.contains('active'));
+    });
+
+    // Keep clicks inside the panel from closing it
+    panel.addEventListener('click', (e) => e.stopPropagation());
+    document.addEventListener('click', () => {
+      panel.classList.remove('active');
+      toggle.classList.remove('active');
+    });
+  }
+
+  private setupOrbitControls(): void {
+    const orbitsCheckbox = document.getElementById('layer-orbits') as HTMLInputElement | null;
+    const aheadInput = document.getElementById('layer-orbit-ahead') as HTMLInputElement | null;
+    const behindInput = document.getElementById('layer-orbit-behind') as HTMLInputElement | null;
+
+    orbitsCheckbox?.addEventListener('change', () => {
+      document.getElementById('layer-orbit-options')?.classList.toggle('disabled', !orbitsCheckbox.checked);
+      this.callbacks.onOrbitsToggled?.(orbitsCheckbox.checked);
+    });
+
+    const onRevolutionsChange = () => {
+      const ahead = parseFloat(aheadInput?.value || '0');
+      const behind = parseFloat(behindInput?.value || '0');
+      if (isNaN(ahead) || isNaN(behind)) return;
+      this.callbacks.onOrbitRevolutionsChanged?.(ahead, behind);
+    };
+
+    aheadInput?.addEventListener('change', onRevolutionsChange);
+    behindInput?.addEventListener('change', onRevolutionsChange);
+
+    const illuminationCheckbox = document.getElementById('layer-orbit-illumination') as HTMLInputElement | null;
+    illuminationCheckbox?.addEventListener('change', () => {
+      this.callbacks.onOrbitIlluminationToggled?.(illuminationCheckbox.checked);
+    });
+  }
+
+  private setupCoverageControls(): void {
+    const trackedCheckbox = document.getElementById('layer-coverage-tracked') as HTMLInputElement | null;
+    trackedCheckbox?.addEventListener('change', () => {
+      this.callbacks.onCoverageTrackedToggled?.(trackedCheckbox.checked);
+    });
+
+    document.querySelectorAll<HTMLInputElement>('.layer-coverage-type').forEach(checkbox => {
+      checkbox.addEventListener('change', () => {
+        if (checkbox.dataset.type) {
+          this.callbacks.onCoverageTypeToggled?.(checkbox.dataset.type, checkbox.checked);
+        }
+      });
+    });
+
+    const elevationInput = document.getElementById('layer-coverage-elevation') as HTMLInputElement | null;
+    elevationInput?.addEventListener('change', () => {
+      const degrees = parseFloat(elevationInput.value);
+      if (isNaN(degrees)) return;
+      this.callbacks.onCoverageElevationChanged?.(degrees);
+    });
+  }
+
+  private setupSwathControls(): void {
+    const swathsCheckbox = document.getElementById('layer-swaths') as HTMLInputElement | null;
+    swathsCheckbox?.addEventListener('change', () => {
+      this.callbacks.onSwathsToggled?.(swathsCheckbox.checked);
+    });
+  }
+
+  private setupTerminatorControls(): void {
+    const terminatorCheckbox = document.getElementById('layer-terminator') as HTMLInputElement | null;
+    terminatorCheckbox?.addEventListener('change', () => {
+      this.callbacks.onTerminatorToggled?.(terminatorCheckbox.checked);
+    });
+  }
+
+  private setupTleAgeControls(): void {
+    const colorCheckbox = document.getElementById('layer-tle-age-color') as HTMLInputElement | null;
+    colorCheckbox?.addEventListener('change', () => {
+      this.callbacks.onTleAgeColorToggled?.(colorCheckbox.checked);
+    });
+
+    const maxAgeInput = document.getElementById('layer-tle-max-age') as HTMLInputElement | null;
+    maxAgeInput?.addEventListener('change', () => {
+      // Empty or zero switches the age limit off
+      const days = parseFloat(maxAgeInput.value);
+      this.callbacks.onMaxTleAgeChanged?.(isNaN(days) || days <= 0 ? null : days);
+    });
+  }
+
+  private setupCustomObjectControls(): void {
+    const customCheckbox = document.getElementById('layer-custom-objects') as HTMLInputElement | null;
+    customCheckbox?.addEventListener('change', () => {
+      this.callbacks.onCustomObjectsToggled?.(customCheckbox.checked);
+    });
+
+    document.getElementById('layer-custom-clear')?.addEventListener('click', () => {
+      this.callbacks.onClearCustomObjects?.();
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import { AreaOfInterest } from '../utils/area-of-interest';
+import { Overpass } from '../utils/overpass-finder';
+import { OverpassExport } from '../utils/overpass-export';
+import { HtmlEscape } from '../utils/html-escape';
+
+export interface OverpassSearchSettings {
+  satelliteIds: string[];
+  days: number;
+  maxOffNadir?: number; // degrees; unset to use each instrument's swath
+}
+
+export interface OverpassFinderCallbacks {
+  onPanelToggled?: (open: boolean) => void;
+  onDrawArea?: (mode: 'polygon' | 'box') => void;
+  onFinishDrawing?: () => void;
+  onCancelDrawing?: () => void;
+  onLoadArea?: (text: string, fileName: string) => void;
+  onClearArea?: () => void;
+  onFind?: (settings: OverpassSearchSettings) => void;
+  onSelectOverpass?: (overpass: Overpass) => void;
+}
+
+/**
+ * Area-of-interest overpass finder: draw or load an area, pick Earth-observation satellites
+ * and list their upcoming overpasses, exportable as CSV or iCalendar
+ */
+export class OverpassFinderComponent {
+  private callbacks: OverpassFinderCallbacks = {};
+  private area: AreaOfInterest | null = null;
+  private overpasses: Overpass[] = [];
+  private candidates: Array<{ id: string; name: string }> = [];
+  private selectedIds: Set<string> | null = null; // null until the user changes the selection: all satellites
+
+  constructor() {
+    this.setupPanelToggle();
+    this.setupEventListeners();
+  }
+
+  setCallbacks(callbacks: OverpassFinderCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  isOpen(): boolean {
+    return !!document.getElementById('overpass-panel')?.classList.contains('active');
+  }
+
+  setArea(area: AreaOfInterest | null): void {
+    this.area = area;
+    const areaElement = document.getElementById('overpass-area');
+    if (areaElement) {
+      areaElement.textContent = area
+        ? `${area.name}${area.polygons.length > 1 ? ` (${area.polygons.length} polygons)` : ''}`
+        : 'Draw or load an area first';
+      areaElement.classList.toggle('missing', !area);
+    }
+    this.setResults([]);
+  }
+
+  /**
+   * Show drawing instructions while an area is being drawn
+   */
+  setDrawing(mode: 'polygon' | 'box' | null): void {
+    const hint = document.getElementById('overpass-drawing');
+    const hintText = document.getElementById('overpass-drawing-text');
+    const finishButton = document.getElementById('overpass-finish');
+    if (!hint || !hintText || !finishButton) return;
+
+    hint.classList.toggle('active', mode !== null);
+    hintText.textContent = mode === 'box'
+      ? 'Click two opposite corners on the map (Esc cancels)'
+      : 'Click the map to add vertices, then click the first vertex or Finish (Esc cancels)';
+    finishButton.style.display = mode === 'polygon' ? '' : 'none';
+  }
+
+  /**
+   * Earth-observation satellites that can be searched; all are selected until the user picks
+   */
+  setCandidates(candidates: Array<{ id: string; name: string }>): void {
+    this.candidates = candidates;
+    const list = document.getElementById('overpass-satellites');
+    if (!list) return;
+
+    list.innerHTML = candidates.length === 0
+      ? '<div class="overpass-empty">No Earth-observation satellites loaded</div>'
+      : candidates.map(candidate => `
+        <label class="overpass-satellite">
+          <input type="checkbox" value="${HtmlEscape.escape(candidate.id)}" ${this.isSelected(candidate.id) ? 'checked' : ''} />
+          <span>${HtmlEscape.escape(candidate.name)}</span>
+        </label>
+      `).join('');
+  }
+
+  setSearching(searching: boolean): void {
+    const findButton = document.getElementById('overpass-find') as HTMLButtonElement | null;
+    if (findButton) findButton.disabled = searching;
+  }
+
+  setStatus(message: string, isError = false): void {
+    const statusElement = document.getElementById('overpass-status');
+    if (statusElement) {
+      statusElement.textContent = message;
+      statusElement.classList.toggle('error', isError);
+    }
+  }
+
+  /**
+   * @param overpasses Overpasses of every searched satellite, in chronological order
+   */
+  setResults(overpasses: Overpass[], searchedSatellites = 0, days = 0): void {
+    this.overpasses = overpasses;
+    if (searchedSatellites > 0) {
+      this.setStatus(`${overpasses.length} overpass${overpasses.length === 1 ? '' : 'es'} by ${searchedSatellites} satellite${searchedSatellites === 1 ? '' : 's'} in the next ${days} day${days === 1 ? '' : 's'}`);
+    }
+    this.renderResults();
+  }
+
+  private getVisibleOverpasses(): Overpass[] {
+    const daylightOnly = (document.getElementById('overpass-daylight-only') as HTMLInputElement | null)?.checked;
+    return daylightOnly ? this.overpasses.filter(overpass => overpass.daylight) : this.overpasses;
+  }
+
+  private renderResults(): void {
+    const tbody = document.getElementById('overpass-results');
+    if (!tbody) return;
+
+    const visible = this.getVisibleOverpasses();
+    tbody.innerHTML = visible.map(overpass => `
+      <tr data-index="${this.overpasses.indexOf(overpass)}" title="In reach ${this.formatTime(overpass.startTime)} – ${this.formatTime(overpass.endTime)} UTC">
+        <td>${overpass.time.toISOString().replace('T', ' ').substring(0, 16)}</td>
+        <td>${HtmlEscape.escape(overpass.satelliteName)}</td>
+        <td class="numeric">${overpass.offNadirAngle.toFixed(1)}°</td>
+        <td class="numeric ${overpass.daylight ? 'overpass-day' : 'overpass-night'}">${overpass.daylight ? '☀️' : '🌙'} ${overpass.solarElevation.toFixed(0)}°</td>
+      </tr>
+    `).join('');
+
+    const hasResults = visible.length > 0;
+    (document.getElementById('overpass-export-csv') as HTMLButtonElement | null)?.toggleAttribute('disabled', !hasResults);
+    (document.getElementById('overpass-export-ics') as HTMLButtonElement | null)?.toggleAttribute('disabled', !hasResults);
+  }
+
+  private isSelected(id: string): boolean {
+    return this.selectedIds === null || this.selectedIds.has(id);
+  }
+
+  private getSettings(): OverpassSearchSettings {
+    const days = parseFloat((document.getElementById('overpass-days') as HTMLInputElement | null)?.value || '');
+    const maxOffNadir = parseFloat((document.getElementById('overpass-max-off-nadir') as HTMLInputElement | null)?.value || '');
+    return {
+      satelliteIds: this.candidates.map(candidate => candidate.id).filter(id => this.isSelected(id)),
+      days: Number.isFinite(days) && days > 0 ? Math.min(days, 30) : 7,
+      maxOffNadir: Number.isFinite(maxOffNadir) && maxOffNadir >= 0 ? Math.min(maxOffNadir, 70) : undefined
+    };
+  }
+
+  private exportResults(format: 'csv' | 'ics'): void {
+    const visible = this.getVisibleOverpasses();
+    if (!this.area || visible.length === 0) return;
+
+    const baseName = `overpasses-${this.area.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'area'}`;
+    if (format === 'csv') {
+      OverpassExport.download(OverpassExport.toCSV(visible), `${baseName}.csv`, 'text/csv');
+    } else {
+      OverpassExport.download(OverpassExport.toICS(visible, this.area), `${baseName}.ics`, 'text/calendar');
+    }
+  }
+
+  private formatTime(date: Date): string {
+    return date.toISOString().substring(11, 19);
+  }
+
+  private setupPanelToggle(): void {
+    const toggle = document.getElementById('overpass-toggle');
+    const panel = document.getElementById('overpass-panel');
+    if (!toggle || !panel) return;
+
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      panel.classList.toggle('active');
+      toggle.classList.toggle('active', panel.classList.contains('active'));
+      this.callbacks.onPanelToggled?.(panel.classList.contains('active'));
+    });
+  }
+
+  private setupEventListeners(): void {
+    document.getElementById('overpass-close')?.addEventListener('click', () => {
+      document.getElementById('overpass-panel')?.classList.remove('active');
+      document.getElementById('overpass-toggle')?.classList.remove('active');
+      this.callbacks.onPanelToggled?.(false);
+    });
+
+    document.getElementById('overpass-draw-polygon')?.addEventListener('click', () => this.callbacks.onDrawArea?.('polygon'));
+    document.getElementById('overpass-draw-box')?.addEventListener('click', () => this.callbacks.onDrawArea?.('box'));
+    document.getElementById('overpass-finish')?.addEventListener('click', () => this.callbacks.onFinishDrawing?.());
+    document.getElementById('overpass-cancel-drawing')?.addEventListener('click', () => this.callbacks.onCancelDrawing?.());
+    document.getElementById('overpass-clear-area')?.addEventListener('click', () => this.callbacks.onClearArea?.());
+
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && document.getElementById('overpass-drawing')?.classList.contains('active')) {
+        this.callbacks.onCancelDrawing?.();
+      }
+    });
+
+    const fileInput = document.getElementById('overpass-file') as HTMLInputElement | null;
+    document.getElementById('overpass-load')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = ''; // Allow loading the same file again
+      if (!file) return;
+      try {
+        this.callbacks.onLoadArea?.(await file.text(), file.name);
+      } catch (error) {
+        this.setStatus(`Failed to read ${file.name}`, true);
+      }
+    });
+
+    document.getElementById('overpass-satellites')?.addEventListener('change', (e) => {
+      const checkbox = e.target as HTMLInputElement;
+      if (checkbox.type !== 'checkbox') return;
+      this.selectedIds = this.selectedIds || new Set(this.candidates.map(candidate => candidate.id));
+      if (checkbox.checked) {
+        this.selectedIds.add(checkbox.value);
+      } else {
+        this.selectedIds.delete(checkbox.value);
+      }
+    });
+
+    document.getElementById('overpass-select-all')?.addEventListener('click', () => {
+      this.selectedIds = null;
+      this.setCandidates(this.candidates);
+    });
+    document.getElementById('overpass-select-none')?.addEventListener('click', () => {
+      this.selectedIds = new Set();
+      this.setCandidates(this.candidates);
+    });
+
+    document.getElementById('overpass-find')?.addEventListener('click', () => this.callbacks.onFind?.(this.getSettings()));
+    document.getElementById('overpass-daylight-only')?.addEventListener('change', () => this.renderResults());
+    document.getElementById('overpass-export-csv')?.addEventListener('click', () => this.exportResults('csv'));
+    document.getElementById('overpass-export-ics')?.addEventListener('click', () => this.exportResults('ics'));
+
+    document.getElementById('overpass-results')?.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('tr') as HTMLElement | null;
+      const overpass = row ? this.overpasses[parseInt(row.dataset.index || '', 10)] : undefined;
+      if (overpass) {
+        this.callbacks.onSelectOverpass?.(overpass);
+      }
+    });
+  }
+}
@@ -129,7 +129,7 @@ export class SearchComponent {
             externalResults.push({
               id: sat.id,
               name: name,
-              type: sat.type || 'communication',
+              type: sat.type || 'other',
               isLoaded: false
             });
           }
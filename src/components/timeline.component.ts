@@ -0,0 +1,122 @@
+import { SimulationClock, simulationClock } from '../simulation-clock';
+
+export class TimelineComponent {
+  private static readonly SCRUB_RANGE_MINUTES = 72 * 60; // Scrubber covers ±72 hours around now
+  private static readonly DISPLAY_REFRESH_MS = 250;
+
+  private clock: SimulationClock;
+  private isScrubbing = false;
+  private refreshTimer: number | null = null;
+  private onTogglePause?: () => void;
+
+  constructor(clock: SimulationClock = simulationClock) {
+    this.clock = clock;
+    this.setupEventListeners();
+    this.clock.addEventListener('clock-changed', () => this.updateDisplay());
+    this.refreshTimer = window.setInterval(() => this.updateDisplay(), TimelineComponent.DISPLAY_REFRESH_MS);
+    this.updateDisplay();
+  }
+
+  setCallbacks(callbacks: {
+    onTogglePause?: () => void;
+  }): void {
+    this.onTogglePause = callbacks.onTogglePause;
+  }
+
+  destroy(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private setupEventListeners(): void {
+    document.getElementById('timeline-play')?.addEventListener('click', () => {
+      if (this.onTogglePause) {
+        this.onTogglePause();
+      } else {
+        this.clock.togglePause();
+      }
+    });
+
+    document.getElementById('timeline-reverse')?.addEventListener('click', () => {
+      this.clock.setReverse(!this.clock.isReverse());
+    });
+
+    document.querySelectorAll<HTMLButtonElement>('.timeline-btn.speed').forEach(button => {
+      button.addEventListener('click', () => {
+        this.clock.setSpeed(parseFloat(button.dataset.speed || '1'));
+      });
+    });
+
+    document.getElementById('timeline-now')?.addEventListener('click', () => {
+      this.clock.resetToRealTime();
+    });
+
+    const dateInput = document.getElementById('timeline-date') as HTMLInputElement | null;
+    dateInput?.addEventListener('change', () => {
+      // datetime-local values are in the browser's local time zone
+      const date = new Date(dateInput.value);
+      if (!isNaN(date.getTime())) {
+        this.clock.setTime(date);
+      }
+    });
+
+    const scrubber = document.getElementById('timeline-scrubber') as HTMLInputElement | null;
+    if (scrubber) {
+      scrubber.min = (-TimelineComponent.SCRUB_RANGE_MINUTES).toString();
+      scrubber.max = TimelineComponent.SCRUB_RANGE_MINUTES.toString();
+
+      scrubber.addEventListener('pointerdown', () => { this.isScrubbing = true; });
+      scrubber.addEventListener('pointerup', () => { this.isScrubbing = false; });
+      scrubber.addEventListener('input', () => {
+        const offsetMinutes = parseInt(scrubber.value, 10);
+        this.clock.setTime(Date.now() + offsetMinutes * 60 * 1000);
+      });
+    }
+  }
+
+  private updateDisplay(): void {
+    const state = this.clock.getState();
+    const date = new Date(state.time);
+
+    const timeElement = document.getElementById('timeline-time');
+    if (timeElement) {
+      timeElement.textContent = date.toISOString().replace('T', ' ').substring(0, 19) + ' UTC';
+    }
+
+    const playButton = document.getElementById('timeline-play');
+    if (playButton) {
+      playButton.textContent = state.paused ? '▶' : '⏸';
+      playButton.classList.toggle('active', state.paused);
+    }
+
+    document.getElementById('timeline-reverse')?.classList.toggle('active', state.rate < 0);
+
+    const speed = Math.abs(state.rate);
+    document.querySelectorAll<HTMLButtonElement>('.timeline-btn.speed').forEach(button => {
+      button.classList.toggle('active', parseFloat(button.dataset.speed || '1') === speed);
+    });
+
+    document.getElementById('timeline-now')?.classList.toggle('active', this.clock.isRealTime());
+
+    const dateInput = document.getElementById('timeline-date') as HTMLInputElement | null;
+    if (dateInput && document.activeElement !== dateInput) {
+      dateInput.value = this.toLocalInputValue(date);
+    }
+
+    const scrubber = document.getElementById('timeline-scrubber') as HTMLInputElement | null;
+    if (scrubber && !this.isScrubbing) {
+      const offsetMinutes = Math.round((state.time - Date.now()) / 60000);
+      const clamped = Math.max(-TimelineComponent.SCRUB_RANGE_MINUTES, Math.min(TimelineComponent.SCRUB_RANGE_MINUTES, offsetMinutes));
+      scrubber.value = clamped.toString();
+    }
+  }
+
+  // Format a date for a datetime-local input (local time, no zone suffix)
+  private toLocalInputValue(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+}
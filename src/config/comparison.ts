@@ -0,0 +1,8 @@
+// Colours of compared satellites, in the order they are listed: columns in the browser and ground tracks on the map
+export const COMPARISON_COLORS: [number, number, number][] = [
+  [0, 170, 255],   // Blue
+  [255, 90, 90],   // Red
+  [80, 220, 120],  // Green
+  [255, 200, 40],  // Yellow
+  [200, 110, 255]  // Purple
+];
@@ -0,0 +1,12 @@
+import { ElementProviderSettings } from '../providers/element-provider-registry';
+
+// Built-in element-set sources. Deployments override these with /element-providers.json
+export const DEFAULT_ELEMENT_PROVIDER_SETTINGS: ElementProviderSettings = {
+  providers: [
+    { type: 'celestrak', id: 'celestrak' }
+  ],
+  routes: {
+    '*': ['celestrak']
+  },
+  merge: 'newest-epoch'
+};
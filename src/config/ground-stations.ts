@@ -0,0 +1,22 @@
+import { GroundStation } from '../types/satellite';
+
+// Contact windows are computed against every station here; edit the list to match your own network
+export const GROUND_STATIONS: GroundStation[] = [
+  // High-latitude stations see polar orbiters on most revolutions
+  { id: 'svalbard', name: 'Svalbard (SvalSat)', latitude: 78.2297, longitude: 15.4078, altitude: 0.5, minElevation: 5 },
+  { id: 'kiruna', name: 'Kiruna', latitude: 67.8571, longitude: 20.9644, altitude: 0.4, minElevation: 5 },
+  { id: 'troll', name: 'Troll (TrollSat)', latitude: -72.0117, longitude: 2.5350, altitude: 1.27, minElevation: 5 },
+  { id: 'mcmurdo', name: 'McMurdo', latitude: -77.8391, longitude: 166.6671, altitude: 0.07, minElevation: 5 },
+
+  // ESA ESTRACK
+  { id: 'redu', name: 'Redu', latitude: 50.0015, longitude: 5.1453, altitude: 0.39, minElevation: 5 },
+  { id: 'kourou', name: 'Kourou', latitude: 5.2515, longitude: -52.8047, altitude: 0.01, minElevation: 10 },
+  { id: 'new-norcia', name: 'New Norcia', latitude: -31.0482, longitude: 116.1915, altitude: 0.25, minElevation: 10 },
+  { id: 'malargue', name: 'Malargüe', latitude: -35.7760, longitude: -69.3982, altitude: 1.55, minElevation: 10 },
+
+  // NASA Near Space Network
+  { id: 'wallops', name: 'Wallops', latitude: 37.9249, longitude: -75.4765, altitude: 0.01, minElevation: 5 },
+  { id: 'white-sands', name: 'White Sands', latitude: 32.5007, longitude: -106.6086, altitude: 1.47, minElevation: 5 },
+  { id: 'hartebeesthoek', name: 'Hartebeesthoek', latitude: -25.8900, longitude: 27.6853, altitude: 1.54, minElevation: 5 },
+  { id: 'singapore', name: 'Singapore', latitude: 1.3962, longitude: 103.8343, altitude: 0.02, minElevation: 5 }
+];
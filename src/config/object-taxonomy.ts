@@ -0,0 +1,39 @@
+import { TaxonomyRule } from '../types/satellite';
+
+// Checked before the defaults; add rules here to reclassify objects without editing the table below.
+// Per-satellite `type` and `objectClass` in satellites.ts win over both.
+export const TAXONOMY_RULE_OVERRIDES: TaxonomyRule[] = [];
+
+// Catalogue names follow CelesTrak conventions: "<parent> DEB", "<launcher> R/B", "OBJECT A" for untracked launches
+export const TAXONOMY_RULES: TaxonomyRule[] = [
+  // Object class
+  { pattern: /\b(DEB|DEBRIS|COOLANT|SHROUD|FAIRING)\b/, objectClass: 'debris' },
+  { pattern: /\b(R\/B|AKM|PKM|ULLAGE MOTOR)\b/, objectClass: 'rocket-body' },
+  { pattern: /^(OBJECT [A-Z]{1,3}|TBA\b|UNKNOWN)/, objectClass: 'unknown' },
+
+  // Crewed stations and the vehicles that serve them
+  { pattern: /^ISS\b|\bZARYA\b|\bNAUKA\b|\bTIANHE\b|\bWENTIAN\b|\bMENGTIAN\b|\bTIANGONG\b|^CSS\b/, type: 'station' },
+  { pattern: /^(SOYUZ-MS|PROGRESS-MS|SHENZHOU|TIANZHOU|CREW DRAGON|DRAGON|CYGNUS|HTV|STARLINER)\b/, type: 'station' },
+
+  // Navigation
+  { pattern: /\b(GPS|NAVSTAR|GALILEO|GLONASS|BEIDOU|IRNSS|QZS)\b/, type: 'navigation' },
+
+  // Weather
+  { pattern: /\b(NOAA|METEOSAT|MSG|METOP|GOES|HIMAWARI|FENGYUN|FY-\d|METEOR-M|ELEKTRO-L|DMSP|JPSS|SUOMI NPP|INSAT-3D)\b/, type: 'weather' },
+
+  // Earth observation
+  { pattern: /\b(SENTINEL|LANDSAT|TERRA|AQUA|AURA|SPOT|PLEIADES|WORLDVIEW|GEOEYE|RADARSAT|TERRASAR|TANDEM-X|COSMO-SKYMED|ICEYE|CAPELLA|FLOCK|SKYSAT|GAOFEN|RESURS|KOMPSAT|CARTOSAT|RISAT|ALOS|PROBA-V|SMAP|GRACE|ICESAT|CRYOSAT|SWOT|PRISMA|ENMAP)\b/, type: 'earth-observation' },
+
+  // Science
+  { pattern: /\b(HST|HUBBLE|TELESCOPE|SWIFT|FERMI|CHANDRA|XMM|INTEGRAL|NUSTAR|TESS|GAIA|JWST|CHEOPS|NICER|IXPE|CALIPSO|CLOUDSAT|GEOTAIL|THEMIS|MMS)\b/, type: 'scientific' },
+
+  // Military
+  { pattern: /^(USA \d+|NROL|YAOGAN|MILSTAR|DSP|SBIRS|WGS|AEHF|MUOS|SKYNET|SYRACUSE|OFEK|SICRAL|COSMOS|KOSMOS|SHIYAN|TJS|LACROSSE|ORS-)/, type: 'military' },
+
+  // Amateur radio: OSCAR numbers carry a sponsor prefix (AO AMSAT, FO Fuji, SO Saudi, UO UoSAT, ...);
+  // only known prefixes, as EO-1, NEO-... and other "<letters>O-<n>" names are not OSCARs
+  { pattern: /\b(OSCAR|AMSAT|FUNCUBE|LILACSAT|CAS-\d+[A-Z]?|XW-\d+[A-Z]?|RS-\d+|TEVEL|(AO|FO|SO|UO|PO|LO|JO|IO|CO|HO|QO|TO)-\d+)\b/, type: 'amateur' },
+
+  // Communication
+  { pattern: /\b(STARLINK|ONEWEB|IRIDIUM|GLOBALSTAR|ORBCOMM|INTELSAT|SES|EUTELSAT|ASTRA|INMARSAT|VIASAT|O3B|TDRS|HISPASAT|ARABSAT|TURKSAT|YAMAL|EXPRESS-AM|CHINASAT|APSTAR|ECHOSTAR|DIRECTV|SIRIUS|XM-\d|THURAYA|KUIPER|LUCH|GONETS)\b/, type: 'communication' }
+];
@@ -0,0 +1,60 @@
+// Satellite catalogue (SATCAT) CSV sources, tried in order. Deployments can bundle a copy as
+// public/satcat.csv to avoid the download; otherwise it comes from CelesTrak.
+export const SATCAT_SOURCES: string[] = [
+  '/satcat.csv',
+  'https://celestrak.org/pub/satcat.csv'
+];
+
+// Names of the most common SATCAT owner codes; other codes are shown as-is
+export const SATCAT_OWNER_NAMES: Record<string, string> = {
+  'US': 'United States',
+  'CIS': 'Russia / former USSR',
+  'PRC': 'China',
+  'ESA': 'European Space Agency',
+  'EUME': 'EUMETSAT',
+  'EUTE': 'Eutelsat',
+  'FR': 'France',
+  'GER': 'Germany',
+  'UK': 'United Kingdom',
+  'IT': 'Italy',
+  'JPN': 'Japan',
+  'IND': 'India',
+  'CA': 'Canada',
+  'ISS': 'International Space Station partners',
+  'SES': 'SES',
+  'ITSO': 'Intelsat',
+  'GLOB': 'Globalstar',
+  'ORB': 'Orbcomm',
+  'SKOR': 'South Korea',
+  'ISRA': 'Israel',
+  'BRAZ': 'Brazil',
+  'AB': 'Arab Satellite Communications Organization',
+  'TBD': 'To be determined'
+};
+
+// Names of the most common SATCAT launch site codes; other codes are shown as-is
+export const SATCAT_LAUNCH_SITE_NAMES: Record<string, string> = {
+  'AFETR': 'Cape Canaveral, USA',
+  'AFWTR': 'Vandenberg, USA',
+  'WLPIS': 'Wallops Island, USA',
+  'KODAK': 'Kodiak, USA',
+  'TYMSC': 'Baikonur, Kazakhstan',
+  'PKMTR': 'Plesetsk, Russia',
+  'VOSTO': 'Vostochny, Russia',
+  'KYMSC': 'Kapustin Yar, Russia',
+  'JSC': 'Jiuquan, China',
+  'TSC': 'Taiyuan, China',
+  'XSC': 'Xichang, China',
+  'WSC': 'Wenchang, China',
+  'YSLA': 'Yellow Sea, China',
+  'FRGUI': 'Kourou, French Guiana',
+  'SRILR': 'Sriharikota, India',
+  'TANSC': 'Tanegashima, Japan',
+  'KSCUT': 'Uchinoura, Japan',
+  'RLLB': 'Mahia, New Zealand',
+  'NSC': 'Naro, South Korea',
+  'SEAL': 'Sea Launch, Pacific Ocean',
+  'SVOB': 'Svobodny, Russia',
+  'YAVNE': 'Palmachim, Israel',
+  'SEMLS': 'Semnan, Iran'
+};
@@ -14,55 +14,71 @@ export const SATELLITE_CONFIGS: SatelliteConfig[] = [
   {
     id: 'terra',
     alternateName: 'MODIS Terra',
-    image: 'static/images/nasa_modis_terra.png'
+    image: 'static/images/nasa_modis_terra.png',
+    swathWidthKm: 2330
   },
   {
     id: 'aqua',
     alternateName: 'MODIS Aqua',
     image: 'static/images/nasa_modis_aqua.png',
+    swathWidthKm: 2330
   },
 
   // NASA Landsat satellites
   {
     id: 'landsat-8',
-    image: 'static/images/nasa_landsat8.png'
+    image: 'static/images/nasa_landsat8.png',
+    swathWidthKm: 185
   },
   {
     id: 'landsat-9',
     alternateName: 'Landsat 9 | Next',
-    image: 'static/images/nasa_landsat9.png'
+    image: 'static/images/nasa_landsat9.png',
+    swathWidthKm: 185
   },
 
   // Sentinel Earth observation constellation
   {
     id: 'sentinel-1a',
     alternateName: 'sentinel-1a - SAR',
-    image: 'static/images/esa_sentinel1.png'
+    image: 'static/images/esa_sentinel1.png',
+    // Right-looking SAR, Interferometric Wide swath mode
+    swathWidthKm: 250,
+    offNadirRange: { min: 26, max: 40 }
   },
   {
     id: 'sentinel-1b',
     alternateName: 'sentinel-1b - SAR',
-    image: 'static/images/esa_sentinel1.png'
+    image: 'static/images/esa_sentinel1.png',
+    // Right-looking SAR, Interferometric Wide swath mode
+    swathWidthKm: 250,
+    offNadirRange: { min: 26, max: 40 }
   },
   {
     id: 'sentinel-1c',
     alternateName: 'sentinel-1c - SAR',
-    image: 'static/images/esa_sentinel1.png'
+    image: 'static/images/esa_sentinel1.png',
+    // Right-looking SAR, Interferometric Wide swath mode
+    swathWidthKm: 250,
+    offNadirRange: { min: 26, max: 40 }
   },
   {
     id: 'sentinel-2a',
     alternateName: 'sentinel-2a - MSI',
-    image: 'static/images/esa_sentinel2.png'
+    image: 'static/images/esa_sentinel2.png',
+    swathWidthKm: 290
   },
   {
     id: 'sentinel-2b',
     alternateName: 'sennel-2b - MSI',
-    image: 'static/images/esa_sentinel2.png'
+    image: 'static/images/esa_sentinel2.png',
+    swathWidthKm: 290
   },
   {
     id: 'sentinel-2c',
     alternateName: 'sentinel-2c - MSI',
-    image: 'static/images/esa_sentinel2.png'
+    image: 'static/images/esa_sentinel2.png',
+    swathWidthKm: 290
   },
   {
     id: 'yam-10',
@@ -71,7 +87,8 @@ export const SATELLITE_CONFIGS: SatelliteConfig[] = [
     image: 'static/images/earthdaily_yam10.webp',
     defaultZoom: 3,
     defaultPitch: 60,
-    scaleFactor: 1.5
+    scaleFactor: 1.5,
+    swathWidthKm: 30
 	}
 ];
 
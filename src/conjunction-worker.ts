@@ -0,0 +1,33 @@
+// Web Worker for conjunction screening
+// Screening a target against the whole catalogue takes seconds, so it runs off the main thread
+import { ConjunctionScreener, ConjunctionObject, ConjunctionScreeningOptions } from './utils/conjunction-screener';
+
+interface ScreeningRequest {
+  requestId: number;
+  target: ConjunctionObject;
+  candidates: ConjunctionObject[];
+  options: ConjunctionScreeningOptions;
+}
+
+self.onmessage = function(e) {
+  const { type, data } = e.data;
+
+  switch (type) {
+    case 'SCREEN':
+      screen(data);
+      break;
+  }
+};
+
+function screen(request: ScreeningRequest) {
+  const { requestId, target, candidates, options } = request;
+
+  try {
+    const events = ConjunctionScreener.screen(target, candidates, options, (completed, total) => {
+      self.postMessage({ type: 'PROGRESS', data: { requestId, completed, total } });
+    });
+    self.postMessage({ type: 'RESULTS', data: { requestId, events } });
+  } catch (error) {
+    self.postMessage({ type: 'ERROR', data: { requestId, message: error instanceof Error ? error.message : String(error) } });
+  }
+}
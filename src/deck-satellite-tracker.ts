@@ -1,21 +1,38 @@
-import { Deck } from '@deck.gl/core';
-import { ScatterplotLayer, IconLayer, ArcLayer } from '@deck.gl/layers';
+import { Deck, Layer } from '@deck.gl/core';
+import { ScatterplotLayer, IconLayer, PathLayer, SolidPolygonLayer, TextLayer, ArcLayer } from '@deck.gl/layers';
 import { Map as MapLibreMap, LngLat } from 'maplibre-gl';
 import * as satellite from 'satellite.js';
 import { SATELLITE_CONFIGS_WITH_STARLINK } from './config/satellites';
+import { COMPARISON_COLORS } from './config/comparison';
 import { SatelliteDataFetcher } from './satellite-data-fetcher';
 import { PerformanceManager } from './performance-manager';
 import { LODManager, ViewportInfo, SatelliteForLOD } from './lod-manager';
 import { OrbitalInterpolator, SatellitePosition } from './orbital-interpolator';
 import { SmoothTracker, PredictivePosition } from './smooth-tracker';
 import { SmoothCamera } from './smooth-camera';
+import { simulationClock, ClockChangeReason } from './simulation-clock';
+import { GroundTrackCalculator, GroundTrackSegment } from './utils/ground-track';
+import { IlluminationState } from './utils/eclipse-calculator';
+import { SwathCalculator, SwathPolygon } from './utils/swath-calculator';
+import { CoverageCalculator } from './utils/coverage-calculator';
+import { ConjunctionEvent } from './utils/conjunction-screener';
+import { ContactScheduler, ContactWindow } from './utils/contact-scheduler';
+import { AreaOfInterest, AreaOfInterestGeometry } from './utils/area-of-interest';
+import { TLEEpoch } from './utils/tle-epoch';
+import { ObjectTaxonomy } from './utils/object-taxonomy';
+import { PropagationErrors, PropagationFailure, PropagationStatus } from './utils/propagation-errors';
+import { GroundStation, ObjectClass, OffNadirRange, OrbitCircleData, SatelliteType } from './types/satellite';
+import { CustomObject, CustomObjectsService } from './services/custom-objects.service';
+import { elementSetHistoryService } from './services/element-set-history.service';
+import { propagationStatusService } from './services/propagation-status.service';
 
 export interface SatelliteData {
   id: string;
   name: string;
   shortname?: string; // Optional short display name
   alternateName?: string; // Optional alternate name for searching
-  type: 'scientific' | 'communication' | 'navigation' | 'earth-observation' | 'weather';
+  type: SatelliteType; // Mission category
+  objectClass?: ObjectClass; // Payload when absent
   position: LngLat;
   altitude: number;
   velocity: number;
@@ -31,6 +48,10 @@ export interface SatelliteData {
   defaultZoom?: number; // Optional default zoom level when tracking this satellite
   defaultPitch?: number; // Optional default pitch angle when tracking this satellite
   scaleFactor?: number; // Optional scale factor for satellite size (default: 2.0)
+  swathWidthKm?: number; // Optional sensor swath width for Earth-observation satellites
+  offNadirRange?: OffNadirRange; // Optional swath bounds as look angles for side-looking sensors
+  status?: PropagationStatus; // Set to 'decayed' or 'invalid' when the element set stops propagating
+  statusReason?: string;
 }
 
 export interface SatellitePointData {
@@ -45,9 +66,16 @@ export interface SatellitePointData {
   size: number;
 }
 
-export interface OrbitCircleData {
-  center: [number, number];
-  radius: number; // in meters
+export interface OrbitPathData {
+  path: [number, number][];
+  color: [number, number, number, number];
+  width: number;
+  isPast: boolean;
+  satelliteId: string;
+}
+
+export interface SwathPolygonData {
+  polygon: [number, number][];
   color: [number, number, number, number];
   satelliteId: string;
 }
@@ -60,7 +88,23 @@ export class DeckSatelliteTracker {
   private animationId: number | null = null;
   private followingSatellite: string | null = null;
   private showOrbits = false;
-  private isPaused = false;
+  private orbitRevolutionsAhead = 1; // Ground track revolutions drawn ahead of the satellite
+  private orbitRevolutionsBehind = 1; // Ground track revolutions drawn behind the satellite
+  private colorOrbitsByIllumination = true; // Shade ground tracks by sunlit / penumbra / umbra
+  private orbitPathCache: Map<string, { time: number; segments: GroundTrackSegment[] }> = new Map();
+  private showSwaths = true; // Sensor swaths of Earth-observation satellites
+  private swathCache: Map<string, { time: number; polygons: SwathPolygon[] }> = new Map();
+  private coverageSatellites = new Set<string>(); // Satellites with a coverage footprint enabled individually
+  private coverageTypes = new Set<string>(); // Satellite types with coverage footprints enabled
+  private coverageMinElevation = 10; // Elevation mask at the edge of the footprint (degrees)
+  private conjunctionHighlight: { event: ConjunctionEvent; primary: SatelliteData; secondary: SatelliteData } | null = null;
+  private comparisonSatellites: { sat: SatelliteData; color: [number, number, number, number] }[] = []; // Compared in the browser
+  private groundStations: GroundStation[] = [];
+  private showGroundStations = false;
+  private contactSchedule: { satelliteId: string; contacts: ContactWindow[] } | null = null; // Contacts of the tracked satellite
+  private areaOfInterest: AreaOfInterest | null = null; // Overpass search area
+  private readonly AREA_CLOSE_DISTANCE_PX = 12; // Click this close to the first vertex to close a drawn polygon
+  private areaDrawing: { mode: 'polygon' | 'box'; vertices: [number, number][]; onComplete: (area: AreaOfInterest) => void } | null = null;
   private satelliteIcons: Map<string, any> = new Map();
   private loadingIcons = new Set<string>(); // Track which icons are currently loading
   private onTrackingChangeCallback?: () => void;
@@ -90,10 +134,12 @@ export class DeckSatelliteTracker {
   private smoothTracker = new SmoothTracker();
   private smoothCamera: SmoothCamera;
   
-  // Satellite type filters
-  private enabledSatelliteTypes = new Set<string>([
-    'scientific', 'communication', 'earth-observation', 'weather', 'navigation'
-  ]);
+  // Mission category and object class filters; an object is shown when both of its own are enabled
+  private enabledSatelliteTypes = new Set<string>(ObjectTaxonomy.getAllIds());
+  
+  // Element-set age: colour satellites by TLE age and/or hide old element sets
+  private colorByTleAge = false;
+  private maxTleAgeDays: number | null = null;
   
   // Satellite visibility filter - when tracking, show only tracked satellite
   // DEFAULT: true to prevent CPU/memory nightmare from showing all satellites
@@ -125,6 +171,17 @@ export class DeckSatelliteTracker {
     
     this.initializeDeck();
     this.initializeWorker();
+    
+    // Propagate at simulation time - jumps and direction changes invalidate cached positions
+    simulationClock.addEventListener('clock-changed', (e: Event) => {
+      const { reason } = (e as CustomEvent<{ reason: ClockChangeReason }>).detail;
+      if (reason !== 'pause') {
+        this.handleClockDiscontinuity();
+      }
+    });
+    
+    // Newly read histories can change which element set each satellite is propagated from
+    elementSetHistoryService.addEventListener('history-changed', () => this.handleClockDiscontinuity());
   }
 
 
@@ -332,7 +389,7 @@ export class DeckSatelliteTracker {
             name: satelliteConfig.name || satelliteConfig.id,
             shortname: satelliteConfig.shortname,
             alternateName: satelliteConfig.alternateName,
-            type: satelliteConfig.type || 'communication',
+            ...ObjectTaxonomy.classify(satelliteConfig.alternateName || satelliteConfig.name || satelliteConfig.id, satelliteConfig),
             tle1: satelliteConfig.tle1,
             tle2: satelliteConfig.tle2,
             dimensions: satelliteConfig.dimensions || { length: 2.0, width: 1.0, height: 1.0 },
@@ -341,6 +398,8 @@ export class DeckSatelliteTracker {
             defaultZoom: satelliteConfig.defaultZoom,
             defaultPitch: satelliteConfig.defaultPitch,
             scaleFactor: satelliteConfig.scaleFactor,
+            swathWidthKm: satelliteConfig.swathWidthKm,
+            offNadirRange: satelliteConfig.offNadirRange,
             position: new LngLat(position.longitude, position.latitude),
             altitude: position.altitude,
             velocity: position.velocity
@@ -361,6 +420,7 @@ export class DeckSatelliteTracker {
           return true;
         }
       } catch (error) {
+        this.recordPropagationFailure(satelliteConfig.tle1, satelliteConfig.id, PropagationErrors.fromException(error), simulationClock.now());
       }
     }
     return false;
@@ -368,6 +428,11 @@ export class DeckSatelliteTracker {
 
   // Load a specific satellite from external data without loading all satellites
   async loadSpecificSatellite(satelliteId: string): Promise<boolean> {
+    // Imported objects are not in any catalogue - they are loaded by setCustomObjects
+    if (CustomObjectsService.isCustomObjectId(satelliteId)) {
+      return this.satellites.has(satelliteId);
+    }
+
     console.log(`🔍 Loading satellite "${satelliteId}" from Celestrak data...`);
     
     try {
@@ -421,7 +486,8 @@ export class DeckSatelliteTracker {
         name: satelliteConfig?.name || targetSatellite.name || satelliteId,
         shortname: satelliteConfig?.shortname || targetSatellite.shortname,
         alternateName: satelliteConfig?.alternateName || targetSatellite.alternateName,
-        type: satelliteConfig?.type || targetSatellite.type || 'communication',
+        type: satelliteConfig?.type || targetSatellite.type || 'other',
+        objectClass: satelliteConfig?.objectClass || targetSatellite.objectClass,
         tle1: targetSatellite.tle1,
         tle2: targetSatellite.tle2,
         dimensions: satelliteConfig?.dimensions || {
@@ -434,6 +500,8 @@ export class DeckSatelliteTracker {
         defaultZoom: satelliteConfig?.defaultZoom,
         defaultPitch: satelliteConfig?.defaultPitch,
         scaleFactor: satelliteConfig?.scaleFactor || 2.0,
+        swathWidthKm: satelliteConfig?.swathWidthKm,
+        offNadirRange: satelliteConfig?.offNadirRange,
         position: new LngLat(position.longitude, position.latitude),
         altitude: position.altitude,
         velocity: position.velocity
@@ -493,7 +561,8 @@ export class DeckSatelliteTracker {
           name: satelliteConfig?.name || sat.name || sat.id,
           shortname: satelliteConfig?.shortname || sat.shortname,
           alternateName: satelliteConfig?.alternateName || sat.alternateName,
-          type: satelliteConfig?.type || sat.type || 'communication',
+          type: satelliteConfig?.type || sat.type,
+          objectClass: satelliteConfig?.objectClass || sat.objectClass,
           tle1: sat.tle1,
           tle2: sat.tle2,
           dimensions: satelliteConfig?.dimensions || sat.dimensions || {
@@ -506,6 +575,8 @@ export class DeckSatelliteTracker {
           defaultZoom: satelliteConfig?.defaultZoom,
           defaultPitch: satelliteConfig?.defaultPitch,
           scaleFactor: satelliteConfig?.scaleFactor || 2.0,
+          swathWidthKm: satelliteConfig?.swathWidthKm,
+          offNadirRange: satelliteConfig?.offNadirRange,
           position: new LngLat(position.longitude, position.latitude),
           altitude: position.altitude,
           velocity: position.velocity
@@ -545,6 +616,10 @@ export class DeckSatelliteTracker {
     // Recalculate current position (search database may have old positions)
     try {
       const position = this.calculateSatellitePosition(searchSatellite.tle1, searchSatellite.tle2, satelliteId);
+      if (isNaN(position.longitude) || isNaN(position.latitude) || isNaN(position.altitude)) {
+        console.warn(`⚠️ Not loading ${satelliteId}: ${searchSatellite.statusReason || 'propagation failed'}`);
+        return false;
+      }
       
       // Create updated satellite data with current position
       const updatedSatellite: SatelliteData = {
@@ -615,7 +690,8 @@ export class DeckSatelliteTracker {
             name: satelliteConfig?.name || sat.name || sat.id,
             shortname: satelliteConfig?.shortname || sat.shortname,
             alternateName: satelliteConfig?.alternateName || sat.alternateName,
-            type: satelliteConfig?.type || sat.type || 'communication',
+            type: satelliteConfig?.type || sat.type || 'other',
+            objectClass: satelliteConfig?.objectClass || sat.objectClass,
             tle1: sat.tle1,
             tle2: sat.tle2,
             dimensions: satelliteConfig?.dimensions || sat.dimensions || {
@@ -628,6 +704,8 @@ export class DeckSatelliteTracker {
             defaultZoom: satelliteConfig?.defaultZoom,
             defaultPitch: satelliteConfig?.defaultPitch,
             scaleFactor: satelliteConfig?.scaleFactor || 2.0,
+            swathWidthKm: satelliteConfig?.swathWidthKm,
+            offNadirRange: satelliteConfig?.offNadirRange,
             position: new LngLat(position.longitude, position.latitude),
             altitude: position.altitude,
             velocity: position.velocity
@@ -708,20 +786,22 @@ export class DeckSatelliteTracker {
           name: sat.name || sat.id,
           shortname: sat.shortname,
           alternateName: sat.alternateName,
-          type: sat.type || 'communication',
+          ...ObjectTaxonomy.classify(sat.name || sat.id, sat),
           tle1: sat.tle1,
           tle2: sat.tle2,
           dimensions: sat.dimensions || { length: 2.0, width: 1.0, height: 1.0 },
           image: sat.image,
           defaultBearing: sat.defaultBearing,
           scaleFactor: sat.scaleFactor,
+          swathWidthKm: sat.swathWidthKm,
+          offNadirRange: sat.offNadirRange,
           position: new LngLat(position.longitude, position.latitude),
           altitude: position.altitude,
           velocity: position.velocity
         });
         
       } catch (error) {
-        // Silently skip satellites with invalid TLE data
+        this.recordPropagationFailure(sat.tle1!, sat.id, PropagationErrors.fromException(error), simulationClock.now());
       }
     });
     
@@ -729,6 +809,57 @@ export class DeckSatelliteTracker {
     this.onSatellitesLoadedCallback?.();
   }
 
+  // Replace the "My objects" group with the given user-imported objects
+  setCustomObjects(objects: CustomObject[]) {
+    const currentIds = new Set(objects.map(object => object.id));
+
+    // Drop objects that were removed from the group
+    for (const map of [this.satellites, this.searchSatelliteDatabase]) {
+      for (const id of Array.from(map.keys())) {
+        if (CustomObjectsService.isCustomObjectId(id) && !currentIds.has(id)) {
+          map.delete(id);
+        }
+      }
+    }
+    if (this.followingSatellite && CustomObjectsService.isCustomObjectId(this.followingSatellite) && !currentIds.has(this.followingSatellite)) {
+      this.stopFollowing();
+    }
+
+    objects.forEach(object => {
+      try {
+        const position = this.calculateSatellitePosition(object.tle1, object.tle2, object.id);
+
+        if (isNaN(position.longitude) || isNaN(position.latitude) || isNaN(position.altitude)) {
+          return;
+        }
+
+        const satelliteData: SatelliteData = {
+          id: object.id,
+          name: object.name,
+          alternateName: `NORAD ${object.catalogNumber}`,
+          type: 'custom',
+          tle1: object.tle1,
+          tle2: object.tle2,
+          dimensions: { length: 2.0, width: 1.0, height: 1.0 },
+          scaleFactor: 2.0,
+          position: new LngLat(position.longitude, position.latitude),
+          altitude: position.altitude,
+          velocity: position.velocity
+        };
+
+        // Custom objects are always active and searchable, whatever else is loaded
+        this.satellites.set(object.id, satelliteData);
+        this.searchSatelliteDatabase.set(object.id, satelliteData);
+        this.createDotIcon(object.id);
+      } catch (error) {
+        console.warn(`⚠️ Skipping custom object ${object.name}:`, error);
+      }
+    });
+
+    this.onSatellitesLoadedCallback?.();
+    this.updateLayers(true);
+  }
+
   // External satellites are loaded on-demand for search functionality
   // This keeps the app fast when viewing specific satellites
 
@@ -882,26 +1013,35 @@ export class DeckSatelliteTracker {
   }
 
   private calculateSatellitePosition(tle1: string, tle2: string, satelliteId?: string) {
-    const now = Date.now();
+    const now = simulationClock.now();
     
     // Check cache first if satellite ID is provided, but SKIP cache for followed satellite
     if (satelliteId && this.followingSatellite !== satelliteId) {
       const cached = this.positionCache.get(satelliteId);
-      if (cached && now - cached.timestamp < this.POSITION_CACHE_TTL) {
+      if (cached && Math.abs(now - cached.timestamp) < this.POSITION_CACHE_TTL) {
         return cached.position;
       }
     }
     
-    // Get or create satellite record (expensive operation)
-    const cacheKey = `${tle1}-${tle2}`;
+    // Get or create satellite record (expensive operation) for the element set nearest the simulation time
+    const elementSet = elementSetHistoryService.getElementSetAt(tle1, tle2, now);
+    const cacheKey = `${elementSet.tle1}-${elementSet.tle2}`;
     let satrec = this.satelliteRecords.get(cacheKey);
     if (!satrec) {
-      satrec = satellite.twoline2satrec(tle1, tle2);
+      try {
+        satrec = satellite.twoline2satrec(elementSet.tle1, elementSet.tle2);
+      } catch (error) {
+        return this.recordPropagationFailure(tle1, satelliteId, PropagationErrors.fromException(error), now);
+      }
       this.satelliteRecords.set(cacheKey, satrec);
     }
     
-    const currentTime = new Date();
+    const currentTime = new Date(now);
     const positionAndVelocity = satellite.propagate(satrec, currentTime);
+    const failure = PropagationErrors.check(satrec, positionAndVelocity, currentTime);
+    if (failure) {
+      return this.recordPropagationFailure(tle1, satelliteId, failure, now);
+    }
     
     if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
       const gmst = satellite.gstime(currentTime);
@@ -957,6 +1097,7 @@ export class DeckSatelliteTracker {
       
       // Cache the result if satellite ID is provided
       if (satelliteId) {
+        this.recordPropagationSuccess(satelliteId);
         this.positionCache.set(satelliteId, { position: result, timestamp: now });
         
         // Add to interpolator for smooth movement
@@ -973,21 +1114,69 @@ export class DeckSatelliteTracker {
       return result;
     }
     
-    return { longitude: 0, latitude: 0, altitude: 0, velocity: 0, bearing: 0 };
+    return this.recordPropagationFailure(tle1, satelliteId, PropagationErrors.nonFinitePosition(), now);
+  }
+
+  /**
+   * Mark an object decayed or invalid and report it for the diagnostics view
+   * @returns NaN position, which callers skip
+   */
+  private recordPropagationFailure(tle1: string, satelliteId: string | undefined, failure: PropagationFailure, time: number) {
+    if (satelliteId) {
+      const sat = this.satellites.get(satelliteId) || this.searchSatelliteDatabase.get(satelliteId);
+      if (sat) {
+        sat.status = failure.status;
+        sat.statusReason = failure.reason;
+      }
+      propagationStatusService.report(satelliteId, sat?.name || satelliteId, tle1, failure, time);
+    }
+    return { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN, bearing: 0 };
   }
 
+  private hasPropagationFailed(sat: SatelliteData): boolean {
+    return sat.status === 'decayed' || sat.status === 'invalid';
+  }
+
+  private recordPropagationSuccess(satelliteId: string): void {
+    const sat = this.satellites.get(satelliteId);
+    if (sat?.status && sat.status !== 'ok') {
+      sat.status = 'ok';
+      delete sat.statusReason;
+    }
+    propagationStatusService.resolve(satelliteId);
+  }
+
+  // Colour for a mission category, or for an object class other than payload (see ObjectTaxonomy.getDisplayCategory)
   private getColorForType(type: string): [number, number, number, number] {
     switch (type) {
+      case 'station': return [255, 255, 0, 255]; // Yellow
       case 'scientific': return [0, 255, 0, 255]; // Green
       case 'communication': return [0, 128, 255, 255]; // Blue
       case 'weather': return [255, 128, 0, 255]; // Orange
       case 'earth-observation': return [255, 128, 0, 255]; // Orange
       case 'navigation': return [128, 0, 255, 255]; // Purple
+      case 'military': return [110, 140, 60, 255]; // Olive
+      case 'amateur': return [0, 220, 200, 255]; // Teal
+      case 'custom': return [255, 0, 200, 255]; // Magenta
+      case 'rocket-body': return [200, 60, 60, 255]; // Brick red
+      case 'debris': return [140, 140, 140, 200]; // Grey
+      case 'unknown': return [200, 180, 150, 220]; // Sand
       default: return [255, 255, 255, 255]; // White
     }
   }
 
 
+  private getSatelliteColor(sat: SatelliteData): [number, number, number, number] {
+    if (this.colorByTleAge) {
+      return TLEEpoch.getAgeColor(TLEEpoch.getAgeDays(sat.tle1, simulationClock.now()));
+    }
+    return this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat));
+  }
+
+  private isWithinTleAgeLimit(sat: SatelliteData): boolean {
+    return this.maxTleAgeDays === null || !TLEEpoch.isStale(sat.tle1, simulationClock.now(), this.maxTleAgeDays);
+  }
+
   private generateSatellitePoints(): SatellitePointData[] {
     const zoom = this.map.getZoom();    
     // AGGRESSIVE FIX: If external satellite loading is disabled and we have more than 1 satellite, 
@@ -1110,7 +1299,9 @@ export class DeckSatelliteTracker {
         }
         
         // Apply type filters
-        if (!this.enabledSatelliteTypes.has(sat.type)) return false;
+        if (!ObjectTaxonomy.isEnabled(sat, this.enabledSatelliteTypes)) return false;
+        if (!this.isWithinTleAgeLimit(sat)) return false;
+        if (this.hasPropagationFailed(sat)) return false;
         
         // Aggressive viewport culling for performance
         const lng = sat.position.lng;
@@ -1126,6 +1317,7 @@ export class DeckSatelliteTracker {
         id: sat.id,
         position: sat.position,
         type: sat.type,
+        objectClass: sat.objectClass,
         dimensions: sat.dimensions,
         scaleFactor: sat.scaleFactor,
         isFollowed: this.followingSatellite === sat.id,
@@ -1178,7 +1370,7 @@ export class DeckSatelliteTracker {
           altitude: altitude,
           velocity: velocity,
           length: sat.dimensions.length,
-          color: this.getColorForType(sat.type),
+          color: this.getSatelliteColor(sat),
           size
         };
       });
@@ -1281,7 +1473,7 @@ export class DeckSatelliteTracker {
       }
       
       const satellite = this.satellites.get(satelliteId);
-      if (satellite && this.enabledSatelliteTypes.has(satellite.type)) { // Apply type filter
+      if (satellite && ObjectTaxonomy.isEnabled(satellite, this.enabledSatelliteTypes) && this.isWithinTleAgeLimit(satellite) && !this.hasPropagationFailed(satellite)) { // Apply type, age and status filters
         // If showing only tracked satellite and we're tracking one, show only that
         if (this.followingSatellite && this.showTrackedSatelliteOnly && satelliteId !== this.followingSatellite) {
           return; // Skip all other satellites when tracking and showing only tracked
@@ -1392,76 +1584,332 @@ export class DeckSatelliteTracker {
     return Math.max(size, 8);
   }
 
-  private generateOrbitPaths(): any[] {
+  private generateOrbitPaths(): OrbitPathData[] {
     if (!this.showOrbits) return [];
     
     // Fast path for single satellite tracking - only calculate orbit for tracked satellite
-    if (this.followingSatellite && this.showTrackedSatelliteOnly) {
-      const trackedSat = this.satellites.get(this.followingSatellite);
-      if (trackedSat) {
-        const orbitPoints = this.calculateOrbitPath(trackedSat);
-        if (orbitPoints && orbitPoints.length > 0) {
-          return [{
-            path: orbitPoints,
-            color: [255, 165, 0, 255] // Orange color for orbit path
-          }];
-        }
-      }
-      return [];
-    }
-    
-    const orbitData: any[] = [];
-    
-    Array.from(this.satellites.values())
-      .filter(sat => sat.type === 'scientific' || this.followingSatellite === sat.id)
-      .forEach(sat => {
-        // Generate orbit path points
-        const orbitPoints = this.calculateOrbitPath(sat);
-        
-        // Create arc segments for the orbit
-        for (let i = 0; i < orbitPoints.length - 1; i++) {
-          orbitData.push({
-            source: orbitPoints[i],
-            target: orbitPoints[i + 1],
-            color: this.getColorForType(sat.type),
-            satelliteId: sat.id
-          });
-        }
+    const orbitSatellites = this.followingSatellite && this.showTrackedSatelliteOnly
+      ? [this.satellites.get(this.followingSatellite)].filter((sat): sat is SatelliteData => !!sat)
+      : Array.from(this.satellites.values())
+          .filter(sat => sat.type === 'scientific' || sat.type === 'station' || this.followingSatellite === sat.id);
+    
+    const orbitData: OrbitPathData[] = [];
+    orbitSatellites.forEach(sat => {
+      const isTracked = sat.id === this.followingSatellite;
+      // Orange for the tracked satellite, type colour for the others
+      const baseColor: [number, number, number, number] = isTracked ? [255, 165, 0, 255] : this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat));
+      
+      this.calculateOrbitPath(sat).forEach(segment => {
+        const color = this.getOrbitSegmentColor(baseColor, segment.illumination);
+        orbitData.push({
+          path: segment.path,
+          // Past track is faded so the direction of travel is obvious
+          color: segment.isPast ? [color[0], color[1], color[2], 90] : color,
+          width: segment.isPast ? 1.5 : 2.5,
+          isPast: segment.isPast,
+          satelliteId: sat.id
+        });
       });
+    });
     
     return orbitData;
   }
   
-  private calculateOrbitPath(sat: SatelliteData): [number, number][] {
-    const points: [number, number][] = [];
-    const numPoints = 64; // Number of points for orbit path
+  private calculateOrbitPath(sat: SatelliteData): GroundTrackSegment[] {
+    if (!sat.tle1 || !sat.tle2) return [];
     
-    try {
-      const satrec = satellite.twoline2satrec(sat.tle1, sat.tle2);
-      const now = new Date();
-      
-      // Generate points for one complete orbit (roughly 90-120 minutes)
-      const orbitPeriod = 90 * 60 * 1000; // 90 minutes in milliseconds
-      
-      for (let i = 0; i < numPoints; i++) {
-        const timeOffset = (i / numPoints) * orbitPeriod;
-        const futureTime = new Date(now.getTime() + timeOffset);
-        
-        const positionAndVelocity = satellite.propagate(satrec, futureTime);
-        if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
-          const gmst = satellite.gstime(futureTime);
-          const positionGd = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
-          
-          const longitude = satellite.degreesLong(positionGd.longitude);
-          const latitude = satellite.degreesLat(positionGd.latitude);
-          
-          points.push([longitude, latitude]);
-        }
-      }
-    } catch (error) {
+    const now = simulationClock.now();
+    const cached = this.orbitPathCache.get(sat.id);
+    
+    // Recompute once the satellite has moved roughly one sample step along its track
+    const cacheTtl = this.getOrbitPathCacheTtl(sat);
+    if (cached && Math.abs(now - cached.time) < cacheTtl) {
+      return cached.segments;
     }
     
-    return points;
+    const segments = GroundTrackCalculator.calculateGroundTrack(sat.tle1, sat.tle2, new Date(now), {
+      revolutionsAhead: this.orbitRevolutionsAhead,
+      revolutionsBehind: this.orbitRevolutionsBehind,
+      includeIllumination: this.colorOrbitsByIllumination,
+      history: elementSetHistoryService.getHistory(sat.tle1) ?? undefined
+    });
+    this.orbitPathCache.set(sat.id, { time: now, segments });
+    
+    return segments;
+  }
+  
+  private generateSwathPolygons(): SwathPolygonData[] {
+    if (!this.showSwaths) return [];
+
+    const swathSatellites = (this.followingSatellite && this.showTrackedSatelliteOnly
+      ? [this.satellites.get(this.followingSatellite)].filter((sat): sat is SatelliteData => !!sat)
+      : Array.from(this.satellites.values())
+    ).filter(sat => sat.swathWidthKm || sat.offNadirRange);
+
+    const swathData: SwathPolygonData[] = [];
+    swathSatellites.forEach(sat => {
+      const isTracked = sat.id === this.followingSatellite;
+      const baseColor = isTracked ? [255, 165, 0] : this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat));
+
+      this.calculateSwath(sat).forEach(piece => {
+        swathData.push({
+          polygon: piece.polygon,
+          // Already imaged area is fainter than what is coming up
+          color: [baseColor[0], baseColor[1], baseColor[2], piece.isPast ? 30 : 70],
+          satelliteId: sat.id
+        });
+      });
+    });
+
+    return swathData;
+  }
+
+  private generateCoverageCircles(): OrbitCircleData[] {
+    if (this.coverageSatellites.size === 0 && this.coverageTypes.size === 0) return [];
+
+    // Only satellites that are actually drawn get a footprint
+    const coverageSatellites = Array.from(this.satellites.values()).filter(sat => {
+      if (!this.coverageSatellites.has(sat.id) && !this.coverageTypes.has(sat.type)) return false;
+      if (this.followingSatellite && this.showTrackedSatelliteOnly) return sat.id === this.followingSatellite;
+      return sat.id === this.followingSatellite || ObjectTaxonomy.isEnabled(sat, this.enabledSatelliteTypes);
+    });
+
+    const circles: OrbitCircleData[] = [];
+    coverageSatellites.forEach(sat => {
+      if (!sat.position || isNaN(sat.altitude)) return;
+
+      const footprint = CoverageCalculator.calculateFootprint(sat.position.lat, sat.position.lng, sat.altitude, this.coverageMinElevation);
+      if (footprint.polygons.length === 0) return;
+
+      circles.push({
+        center: [sat.position.lng, sat.position.lat],
+        radius: CoverageCalculator.getCoverageRadiusKm(sat.altitude, this.coverageMinElevation) * 1000,
+        color: sat.id === this.followingSatellite ? [255, 165, 0, 255] : this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat)),
+        satelliteId: sat.id,
+        polygons: footprint.polygons,
+        outline: footprint.outline
+      });
+    });
+
+    return circles;
+  }
+
+  // Both objects of the selected conjunction at the current simulation time, with a line between them
+  private generateConjunctionLayers(): Layer[] {
+    if (!this.conjunctionHighlight) return [];
+
+    const { primary, secondary } = this.conjunctionHighlight;
+    const objects = [
+      { sat: primary, color: [255, 165, 0, 255] as [number, number, number, number] },
+      { sat: secondary, color: [255, 50, 50, 255] as [number, number, number, number] }
+    ].map(({ sat, color }) => {
+      const position = this.calculateSatellitePosition(sat.tle1, sat.tle2, sat.id);
+      return {
+        name: sat.name,
+        color,
+        position: [position.longitude, position.latitude, Math.sqrt(position.altitude) * 5000] as [number, number, number]
+      };
+    }).filter(object => !object.position.some(value => isNaN(value)));
+
+    if (objects.length < 2) return [];
+
+    return [
+      new PathLayer({
+        id: 'conjunction-link',
+        data: [{ path: objects.map(object => object.position) }],
+        getPath: (d: { path: [number, number, number][] }) => d.path,
+        getColor: [255, 50, 50, 200],
+        getWidth: 2,
+        widthUnits: 'pixels',
+        pickable: false
+      }),
+      new ScatterplotLayer({
+        id: 'conjunction-objects',
+        data: objects,
+        getPosition: (d: { position: [number, number, number] }) => d.position,
+        getFillColor: (d: { color: [number, number, number, number] }) => d.color,
+        getLineColor: [255, 255, 255, 255],
+        getRadius: 6,
+        getLineWidth: 1,
+        stroked: true,
+        radiusUnits: 'pixels',
+        lineWidthUnits: 'pixels',
+        pickable: false
+      }),
+      new TextLayer({
+        id: 'conjunction-labels',
+        data: objects,
+        getPosition: (d: { position: [number, number, number] }) => d.position,
+        getText: (d: { name: string }) => d.name,
+        getColor: (d: { color: [number, number, number, number] }) => d.color,
+        getSize: 12,
+        getPixelOffset: [0, -16],
+        fontFamily: 'Inter, sans-serif',
+        pickable: false
+      })
+    ];
+  }
+
+  // Ground tracks of the compared satellites in their comparison colours, with a labelled marker at each satellite
+  private generateComparisonLayers(): Layer[] {
+    if (this.comparisonSatellites.length === 0) return [];
+
+    const tracks = this.comparisonSatellites.flatMap(({ sat, color }) =>
+      this.calculateOrbitPath(sat).map(segment => ({
+        path: segment.path,
+        color: segment.isPast ? [color[0], color[1], color[2], 90] as [number, number, number, number] : color,
+        width: segment.isPast ? 1.5 : 2.5
+      }))
+    );
+
+    const markers = this.comparisonSatellites.map(({ sat, color }) => {
+      const position = this.calculateSatellitePosition(sat.tle1, sat.tle2, sat.id);
+      return {
+        name: sat.name,
+        color,
+        position: [position.longitude, position.latitude, Math.sqrt(position.altitude) * 5000] as [number, number, number]
+      };
+    }).filter(marker => !marker.position.some(value => isNaN(value)));
+
+    return [
+      new PathLayer({
+        id: 'comparison-tracks',
+        data: tracks,
+        getPath: (d: { path: [number, number][] }) => d.path,
+        getColor: (d: { color: [number, number, number, number] }) => d.color,
+        getWidth: (d: { width: number }) => d.width,
+        widthUnits: 'pixels',
+        jointRounded: true,
+        capRounded: true,
+        pickable: false
+      }),
+      new ScatterplotLayer({
+        id: 'comparison-satellites',
+        data: markers,
+        getPosition: (d: { position: [number, number, number] }) => d.position,
+        getFillColor: (d: { color: [number, number, number, number] }) => d.color,
+        getLineColor: [255, 255, 255, 255],
+        getRadius: 6,
+        getLineWidth: 1,
+        stroked: true,
+        radiusUnits: 'pixels',
+        lineWidthUnits: 'pixels',
+        pickable: false
+      }),
+      new TextLayer({
+        id: 'comparison-labels',
+        data: markers,
+        getPosition: (d: { position: [number, number, number] }) => d.position,
+        getText: (d: { name: string }) => d.name,
+        getColor: (d: { color: [number, number, number, number] }) => d.color,
+        getSize: 12,
+        getPixelOffset: [0, -16],
+        fontFamily: 'Inter, sans-serif',
+        pickable: false
+      })
+    ];
+  }
+
+  // Ground stations, with a line-of-sight link to the tracked satellite from every station in contact with it
+  private generateGroundStationLayers(): Layer[] {
+    if (!this.showGroundStations || this.groundStations.length === 0) return [];
+
+    const tracked = this.contactSchedule && this.followingSatellite === this.contactSchedule.satelliteId
+      ? this.satellites.get(this.followingSatellite)
+      : undefined;
+    const activeContacts = tracked && !isNaN(tracked.altitude)
+      ? ContactScheduler.getActiveContacts(this.contactSchedule!.contacts, simulationClock.now())
+      : [];
+    const stationsInContact = new Set(activeContacts.map(contact => contact.station.id));
+
+    const layers: Layer[] = [
+      new ScatterplotLayer({
+        id: 'ground-stations',
+        data: this.groundStations,
+        getPosition: (d: GroundStation) => [d.longitude, d.latitude, 0],
+        getFillColor: (d: GroundStation) => stationsInContact.has(d.id) ? [0, 255, 120, 255] : [255, 220, 0, 200],
+        getLineColor: [0, 0, 0, 255],
+        getRadius: 5,
+        getLineWidth: 1,
+        stroked: true,
+        radiusUnits: 'pixels',
+        lineWidthUnits: 'pixels',
+        pickable: false,
+        updateTriggers: { getFillColor: Array.from(stationsInContact).join(',') }
+      }),
+      new TextLayer({
+        id: 'ground-station-labels',
+        data: this.groundStations,
+        getPosition: (d: GroundStation) => [d.longitude, d.latitude, 0],
+        getText: (d: GroundStation) => d.name,
+        getColor: [255, 220, 0, 220],
+        getSize: 11,
+        getPixelOffset: [0, -14],
+        fontFamily: 'Inter, sans-serif',
+        pickable: false
+      })
+    ];
+
+    if (tracked && activeContacts.length > 0) {
+      const target: [number, number, number] = [tracked.position.lng, tracked.position.lat, Math.sqrt(tracked.altitude) * 5000];
+      layers.push(new ArcLayer({
+        id: 'ground-station-links',
+        data: activeContacts,
+        getSourcePosition: (d: ContactWindow) => [d.station.longitude, d.station.latitude, 0],
+        getTargetPosition: () => target,
+        getSourceColor: [255, 220, 0, 255],
+        getTargetColor: [0, 255, 120, 255],
+        getHeight: 0, // Straight line of sight rather than an arc
+        getWidth: 2,
+        widthUnits: 'pixels',
+        pickable: false
+      }));
+    }
+
+    return layers;
+  }
+
+  private calculateSwath(sat: SatelliteData): SwathPolygon[] {
+    if (!sat.tle1 || !sat.tle2) return [];
+
+    const now = simulationClock.now();
+    const cached = this.swathCache.get(sat.id);
+    if (cached && Math.abs(now - cached.time) < this.getOrbitPathCacheTtl(sat)) {
+      return cached.polygons;
+    }
+
+    // Show what the sensor is imaging now and over the next orbit
+    const elementSet = elementSetHistoryService.getElementSetAt(sat.tle1, sat.tle2, now);
+    const polygons = SwathCalculator.calculateSwath(elementSet.tle1, elementSet.tle2, new Date(now), {
+      swathWidthKm: sat.swathWidthKm,
+      offNadirRange: sat.offNadirRange,
+      revolutionsAhead: 1,
+      revolutionsBehind: 0.05
+    });
+    this.swathCache.set(sat.id, { time: now, polygons });
+
+    return polygons;
+  }
+
+  // Eclipsed parts of the orbit are drawn in shades of blue, sunlit parts keep the satellite colour
+  private getOrbitSegmentColor(baseColor: [number, number, number, number], illumination?: IlluminationState): [number, number, number, number] {
+    switch (illumination) {
+      case 'umbra': return [70, 90, 220, 255]; // Deep blue
+      case 'penumbra': return [140, 150, 230, 255]; // Light blue
+      default: return baseColor;
+    }
+  }
+
+  private getOrbitPathCacheTtl(sat: SatelliteData): number {
+    const cacheKey = `${sat.tle1}-${sat.tle2}`;
+    let satrec = this.satelliteRecords.get(cacheKey);
+    if (!satrec) {
+      satrec = satellite.twoline2satrec(sat.tle1, sat.tle2);
+      this.satelliteRecords.set(cacheKey, satrec);
+    }
+    const periodMinutes = GroundTrackCalculator.getOrbitalPeriodMinutes(satrec);
+    // One of the 180 samples per revolution, capped so slow orbits still refresh
+    return isFinite(periodMinutes) ? Math.min(periodMinutes * 60 * 1000 / 180, 60000) : 60000;
   }
 
 
@@ -1507,6 +1955,8 @@ export class DeckSatelliteTracker {
     const satellitePoints = this.generateSatellitePoints();
     const satelliteIconData = this.generateSatelliteIconData();
     const orbitPaths = this.generateOrbitPaths();
+    const swathPolygons = this.generateSwathPolygons();
+    const coverageCircles = this.generateCoverageCircles();
 
     const layers: any[] = [
       // Satellite points layer (excluding satellites with images)
@@ -1573,17 +2023,60 @@ export class DeckSatelliteTracker {
       });
     }
 
-    // Add orbit paths layer
+    // Add orbit paths layer (below the satellites so icons stay on top)
     if (orbitPaths.length > 0) {
-      layers.push(
-        new ArcLayer({
+      layers.unshift(
+        new PathLayer({
           id: 'orbit-paths',
           data: orbitPaths,
-          getSourcePosition: (d: any) => d.source,
-          getTargetPosition: (d: any) => d.target,
-          getSourceColor: (d: any) => d.color,
-          getTargetColor: (d: any) => d.color,
-          getWidth: 2,
+          getPath: (d: OrbitPathData) => d.path,
+          getColor: (d: OrbitPathData) => d.color,
+          getWidth: (d: OrbitPathData) => d.width,
+          widthUnits: 'pixels',
+          jointRounded: true,
+          capRounded: true,
+          pickable: false
+        })
+      );
+    }
+
+    layers.push(...this.generateConjunctionLayers());
+    layers.push(...this.generateComparisonLayers());
+    layers.push(...this.generateGroundStationLayers());
+    layers.push(...this.generateAreaOfInterestLayers());
+
+    // Coverage footprints: translucent fill with a solid outline, under the orbits
+    if (coverageCircles.length > 0) {
+      const fills = coverageCircles.flatMap(circle => circle.polygons.map(polygon => ({ polygon, color: circle.color })));
+      const outlines = coverageCircles.flatMap(circle => circle.outline.map(path => ({ path, color: circle.color })));
+      layers.unshift(
+        new SolidPolygonLayer({
+          id: 'coverage-footprints',
+          data: fills,
+          getPolygon: (d: { polygon: [number, number][] }) => d.polygon,
+          getFillColor: (d: { color: [number, number, number, number] }) => [d.color[0], d.color[1], d.color[2], 25],
+          pickable: false
+        }),
+        new PathLayer({
+          id: 'coverage-outlines',
+          data: outlines,
+          getPath: (d: { path: [number, number][] }) => d.path,
+          getColor: (d: { color: [number, number, number, number] }) => [d.color[0], d.color[1], d.color[2], 180],
+          getWidth: 1.5,
+          widthUnits: 'pixels',
+          pickable: false
+        })
+      );
+    }
+
+    // Sensor swaths go underneath everything else
+    if (swathPolygons.length > 0) {
+      layers.unshift(
+        new SolidPolygonLayer({
+          id: 'sensor-swaths',
+          data: swathPolygons,
+          getPolygon: (d: SwathPolygonData) => d.polygon,
+          getFillColor: (d: SwathPolygonData) => d.color,
           pickable: false
         })
       );
@@ -1592,10 +2085,83 @@ export class DeckSatelliteTracker {
     this.deck.setProps({ layers });
   }
 
-  private handleClick(_info: any) {
+  private handleClick(info: any) {
     // DISABLED: Do not stop following or show all satellites when clicking empty areas
     // This prevents the CPU/memory nightmare of loading all satellites at once
     // Only individual satellite clicks should change tracking
+    // Clicks only place vertices while an area of interest is being drawn
+    if (!this.areaDrawing || !info.coordinate) return;
+
+    const vertices = this.areaDrawing.vertices;
+    const vertex: [number, number] = [info.coordinate[0], info.coordinate[1]];
+
+    // Clicking next to the first vertex closes the polygon
+    if (this.areaDrawing.mode === 'polygon' && vertices.length >= 3 && info.viewport) {
+      const [firstX, firstY] = info.viewport.project(vertices[0]);
+      if (Math.hypot(firstX - info.x, firstY - info.y) < this.AREA_CLOSE_DISTANCE_PX) {
+        this.finishAreaDrawing();
+        return;
+      }
+    }
+
+    vertices.push(vertex);
+    if (this.areaDrawing.mode === 'box' && vertices.length === 2) {
+      this.finishAreaDrawing();
+      return;
+    }
+    this.updateLayers(true);
+  }
+
+  // Area of interest as a translucent fill with an outline, plus the vertices placed so far while drawing
+  private generateAreaOfInterestLayers(): Layer[] {
+    const layers: Layer[] = [];
+
+    if (this.areaOfInterest) {
+      layers.push(
+        new SolidPolygonLayer({
+          id: 'area-of-interest-fill',
+          data: this.areaOfInterest.polygons,
+          getPolygon: (d: [number, number][]) => d,
+          getFillColor: [255, 120, 0, 40],
+          pickable: false
+        }),
+        new PathLayer({
+          id: 'area-of-interest-outline',
+          data: this.areaOfInterest.polygons,
+          getPath: (d: [number, number][]) => d,
+          getColor: [255, 120, 0, 220],
+          getWidth: 2,
+          widthUnits: 'pixels',
+          pickable: false
+        })
+      );
+    }
+
+    if (this.areaDrawing && this.areaDrawing.vertices.length > 0) {
+      const vertices = this.areaDrawing.vertices;
+      layers.push(
+        new PathLayer({
+          id: 'area-drawing-path',
+          data: [vertices],
+          getPath: (d: [number, number][]) => d,
+          getColor: [255, 120, 0, 255],
+          getWidth: 2,
+          widthUnits: 'pixels',
+          pickable: false
+        }),
+        new ScatterplotLayer({
+          id: 'area-drawing-vertices',
+          data: vertices,
+          getPosition: (d: [number, number]) => [d[0], d[1], 0],
+          getFillColor: [255, 120, 0, 255],
+          getRadius: 4,
+          radiusUnits: 'pixels',
+          pickable: false
+        })
+      );
+    }
+
+    return layers;
   }
 
 
@@ -1818,22 +2384,259 @@ export class DeckSatelliteTracker {
 
   // Get smooth interpolated position for a satellite
   private getSmoothSatellitePosition(satelliteId: string) {
-    const now = Date.now();
+    const now = simulationClock.now();
     return this.orbitalInterpolator.getInterpolatedPosition(satelliteId, now);
   }
 
 
   toggleOrbits() {
     this.showOrbits = !this.showOrbits;
-    this.updateLayers();
+    this.updateLayers(true);
     this.showMessage(this.showOrbits ? '🛰️ Orbits shown' : '🛰️ Orbits hidden', 'info');
+    return this.showOrbits;
+  }
+
+  setShowOrbits(enabled: boolean) {
+    this.showOrbits = enabled;
+    this.updateLayers(true);
+  }
+
+  getShowOrbits(): boolean {
+    return this.showOrbits;
+  }
+
+  // Set how many revolutions of ground track to draw ahead of and behind each satellite
+  setOrbitRevolutions(ahead: number, behind: number) {
+    this.orbitRevolutionsAhead = Math.max(0, Math.min(10, ahead));
+    this.orbitRevolutionsBehind = Math.max(0, Math.min(10, behind));
+    this.orbitPathCache.clear();
+    this.updateLayers(true);
+  }
+
+  getOrbitRevolutions(): { ahead: number; behind: number } {
+    return { ahead: this.orbitRevolutionsAhead, behind: this.orbitRevolutionsBehind };
+  }
+
+  setColorOrbitsByIllumination(enabled: boolean) {
+    this.colorOrbitsByIllumination = enabled;
+    this.orbitPathCache.clear();
+    this.updateLayers(true);
+  }
+
+  getColorOrbitsByIllumination(): boolean {
+    return this.colorOrbitsByIllumination;
+  }
+
+  // Coverage footprint methods - a footprint is drawn if enabled for the satellite or for its type
+  setCoverageSatelliteEnabled(satelliteId: string, enabled: boolean) {
+    if (enabled) {
+      this.coverageSatellites.add(satelliteId);
+    } else {
+      this.coverageSatellites.delete(satelliteId);
+    }
+    this.updateLayers(true);
+  }
+
+  isCoverageSatelliteEnabled(satelliteId: string): boolean {
+    return this.coverageSatellites.has(satelliteId);
+  }
+
+  setCoverageTypeEnabled(type: string, enabled: boolean) {
+    if (enabled) {
+      this.coverageTypes.add(type);
+    } else {
+      this.coverageTypes.delete(type);
+    }
+    this.updateLayers(true);
+  }
+
+  isCoverageTypeEnabled(type: string): boolean {
+    return this.coverageTypes.has(type);
+  }
+
+  getCoverageTypes(): Set<string> {
+    return new Set(this.coverageTypes);
+  }
+
+  setCoverageMinElevation(degrees: number) {
+    this.coverageMinElevation = Math.max(0, Math.min(89, degrees));
+    this.updateLayers(true);
+  }
+
+  getCoverageMinElevation(): number {
+    return this.coverageMinElevation;
+  }
+
+  /**
+   * Show both objects of a conjunction at the time of closest approach: the clock jumps to TCA and pauses,
+   * and the camera follows the primary object
+   * @returns false if either object is no longer in the catalogue
+   */
+  showConjunction(event: ConjunctionEvent): boolean {
+    const primary = this.satellites.get(event.primaryId) || this.searchSatelliteDatabase.get(event.primaryId);
+    const secondary = this.satellites.get(event.secondaryId) || this.searchSatelliteDatabase.get(event.secondaryId);
+    if (!primary || !secondary) {
+      this.showMessage('⚠️ Conjunction objects are no longer loaded', 'warning');
+      return false;
+    }
+
+    this.conjunctionHighlight = { event, primary, secondary };
+    simulationClock.pause();
+    simulationClock.setTime(event.tca);
+
+    if (!this.satellites.has(primary.id)) {
+      this.loadSatelliteFromSearchDatabase(primary.id);
+    }
+    if (this.followingSatellite !== primary.id) {
+      this.followSatellite(primary.id, true);
+    }
+
+    this.updateLayers(true);
+    return true;
+  }
+
+  clearConjunctionHighlight() {
+    this.conjunctionHighlight = null;
+    this.updateLayers(true);
+  }
+
+  /**
+   * Draw the ground tracks of satellites being compared, each in its COMPARISON_COLORS colour
+   * @returns How many of the satellites are known and shown
+   */
+  setComparisonSatellites(satelliteIds: string[]): number {
+    this.comparisonSatellites = satelliteIds.slice(0, COMPARISON_COLORS.length).flatMap((id, index) => {
+      const sat = this.satellites.get(id) || this.searchSatelliteDatabase.get(id);
+      const [r, g, b] = COMPARISON_COLORS[index];
+      return sat ? [{ sat, color: [r, g, b, 255] as [number, number, number, number] }] : [];
+    });
+
+    if (this.comparisonSatellites.length < satelliteIds.length) {
+      this.showMessage('⚠️ Some compared satellites are not loaded', 'warning');
+    } else if (this.comparisonSatellites.length > 0) {
+      this.showMessage(`🛰️ Comparing ${this.comparisonSatellites.map(({ sat }) => sat.name).join(', ')}`, 'info');
+    }
+
+    this.updateLayers(true);
+    return this.comparisonSatellites.length;
+  }
+
+  clearComparisonSatellites() {
+    if (this.comparisonSatellites.length === 0) return;
+    this.comparisonSatellites = [];
+    this.updateLayers(true);
+  }
+
+  setGroundStations(stations: GroundStation[]) {
+    this.groundStations = stations;
+    this.updateLayers(true);
+  }
+
+  setShowGroundStations(enabled: boolean) {
+    this.showGroundStations = enabled;
+    this.updateLayers(true);
+  }
+
+  getShowGroundStations(): boolean {
+    return this.showGroundStations;
+  }
+
+  // Contacts of a satellite with the ground stations; links are drawn while it is tracked and a contact is active
+  setContactSchedule(satelliteId: string, contacts: ContactWindow[]) {
+    this.contactSchedule = { satelliteId, contacts };
+    this.updateLayers(true);
+  }
+
+  clearContactSchedule() {
+    if (!this.contactSchedule) return;
+    this.contactSchedule = null;
+    this.updateLayers(true);
+  }
+
+  setAreaOfInterest(area: AreaOfInterest | null) {
+    this.areaOfInterest = area;
+    this.updateLayers(true);
+  }
+
+  /**
+   * Let the user place an area of interest with map clicks: polygon vertices (closed by clicking the first
+   * vertex or finishAreaDrawing), or two opposite corners of a box
+   */
+  startAreaDrawing(mode: 'polygon' | 'box', onComplete: (area: AreaOfInterest) => void) {
+    this.areaDrawing = { mode, vertices: [], onComplete };
+    this.deck.setProps({ getCursor: () => 'crosshair' });
+    this.updateLayers(true);
+  }
+
+  /**
+   * Close the polygon being drawn
+   * @returns false if fewer than three vertices were placed
+   */
+  finishAreaDrawing(): boolean {
+    const drawing = this.areaDrawing;
+    if (!drawing) return false;
+
+    const vertices = drawing.vertices;
+    let area: AreaOfInterest;
+    if (drawing.mode === 'box') {
+      if (vertices.length < 2) return false;
+      area = AreaOfInterestGeometry.fromBoundingBox('Drawn box', vertices[0][0], vertices[0][1], vertices[1][0], vertices[1][1]);
+    } else {
+      if (vertices.length < 3) return false;
+      area = AreaOfInterestGeometry.fromVertices('Drawn polygon', vertices);
+    }
+
+    this.cancelAreaDrawing();
+    drawing.onComplete(area);
+    return true;
+  }
+
+  cancelAreaDrawing() {
+    if (!this.areaDrawing) return;
+    this.areaDrawing = null;
+    this.deck.setProps({ getCursor: ({ isDragging }: { isDragging: boolean }) => isDragging ? 'grabbing' : 'grab' });
+    this.updateLayers(true);
+  }
+
+  isDrawingArea(): boolean {
+    return this.areaDrawing !== null;
+  }
+
+  setShowSwaths(enabled: boolean) {
+    this.showSwaths = enabled;
+    this.updateLayers(true);
+  }
+
+  getShowSwaths(): boolean {
+    return this.showSwaths;
   }
 
 
   togglePause() {
-    this.isPaused = !this.isPaused;
-    this.showMessage(this.isPaused ? '⏸️ Satellite updates paused' : '▶️ Satellite updates resumed', 'info');
-    return this.isPaused;
+    const isPaused = simulationClock.togglePause();
+    this.showMessage(isPaused ? '⏸️ Simulation paused' : '▶️ Simulation resumed', 'info');
+    return isPaused;
+  }
+
+  // Recalculate every satellite at the new simulation time after a jump or speed/direction change
+  private handleClockDiscontinuity() {
+    this.positionCache.clear();
+    this.orbitPathCache.clear();
+    this.swathCache.clear();
+    this.orbitalInterpolator.clear();
+    this.smoothTracker.resync();
+    
+    for (const sat of this.satellites.values()) {
+      if (!sat.tle1 || !sat.tle2) continue;
+      const position = this.calculateSatellitePosition(sat.tle1, sat.tle2, sat.id);
+      if (!isNaN(position.longitude) && !isNaN(position.latitude) && !isNaN(position.altitude)) {
+        sat.position = new LngLat(position.longitude, position.latitude);
+        sat.altitude = position.altitude;
+        sat.velocity = position.velocity;
+      }
+    }
+    
+    this.updateLayers(true);
   }
 
   getFollowingSatellite(): string | null {
@@ -1920,9 +2723,12 @@ export class DeckSatelliteTracker {
       
       if (shouldUpdate) {
         const position = this.calculateSatellitePosition(sat.tle1, sat.tle2, sat.id);
-        sat.position = new LngLat(position.longitude, position.latitude);
-        sat.altitude = position.altitude;
-        sat.velocity = position.velocity;
+        // Failed objects keep their last position and are hidden by their status
+        if (!isNaN(position.longitude) && !isNaN(position.latitude) && !isNaN(position.altitude)) {
+          sat.position = new LngLat(position.longitude, position.latitude);
+          sat.altitude = position.altitude;
+          sat.velocity = position.velocity;
+        }
         updatedCount++;
       }
       satelliteIndex++;
@@ -1948,7 +2754,7 @@ export class DeckSatelliteTracker {
       // Fast path for single satellite tracking - minimal updates
       if (this.followingSatellite && this.showTrackedSatelliteOnly && this.satellites.size === 1) {
         // Only run minimal update loop for single satellite at 30fps
-        if (!this.isPaused && now - lastUpdate >= 33) { // 30fps for single satellite
+        if (!simulationClock.isPaused() && now - lastUpdate >= 33) { // 30fps for single satellite
           const trackedSat = this.satellites.get(this.followingSatellite);
           if (trackedSat && trackedSat.tle1 && trackedSat.tle2) {
             // Update just this one satellite's position
@@ -1973,7 +2779,7 @@ export class DeckSatelliteTracker {
       
       // Skip position updates if paused, but continue the animation loop
       const UPDATE_INTERVAL = this.performanceManager.getUpdateInterval();
-      if (!this.isPaused && now - lastUpdate >= UPDATE_INTERVAL) {
+      if (!simulationClock.isPaused() && now - lastUpdate >= UPDATE_INTERVAL) {
         // Get current map view bounds for performance optimization
         const bounds = this.map.getBounds();
         const zoom = this.map.getZoom();
@@ -2166,7 +2972,7 @@ export class DeckSatelliteTracker {
     return SATELLITE_CONFIGS_WITH_STARLINK;
   }
 
-  // Satellite type filtering methods
+  // Satellite type filtering methods; `type` is a mission category or an object class
   setSatelliteTypeEnabled(type: string, enabled: boolean) {
     if (enabled) {
       this.enabledSatelliteTypes.add(type);
@@ -2184,6 +2990,28 @@ export class DeckSatelliteTracker {
     return new Set(this.enabledSatelliteTypes);
   }
   
+  // Element-set age methods
+  setColorByTleAge(enabled: boolean) {
+    this.colorByTleAge = enabled;
+    this.updateLayers();
+  }
+
+  getColorByTleAge(): boolean {
+    return this.colorByTleAge;
+  }
+
+  /**
+   * Hide satellites whose element sets are further than this from their epoch (null shows all)
+   */
+  setMaxTleAgeDays(days: number | null) {
+    this.maxTleAgeDays = days !== null && days > 0 ? days : null;
+    this.updateLayers();
+  }
+
+  getMaxTleAgeDays(): number | null {
+    return this.maxTleAgeDays;
+  }
+  
   // Tracked satellite only filter methods
   setShowTrackedSatelliteOnly(enabled: boolean) {
     this.showTrackedSatelliteOnly = enabled;
@@ -2195,20 +3023,15 @@ export class DeckSatelliteTracker {
   }
 
 
-  // Get satellite counts by type
+  // Get satellite counts by mission category and by object class
   getSatelliteCountsByType(): Record<string, number> {
-    const counts: Record<string, number> = {
-      'scientific': 0,
-      'communication': 0,
-      'earth-observation': 0,
-      'weather': 0,
-      'navigation': 0
-    };
+    const counts: Record<string, number> = Object.fromEntries(ObjectTaxonomy.getAllIds().map(id => [id, 0]));
 
     for (const satellite of this.satellites.values()) {
       if (counts.hasOwnProperty(satellite.type)) {
         counts[satellite.type]++;
       }
+      counts[satellite.objectClass || 'payload']++;
     }
 
     return counts;
@@ -2315,6 +3138,10 @@ R          Reset tracked satellite to normal size
 🎛️ INTERFACE CONTROLS:
 C          Hide/show cockpit
 G          Toggle Globe/Mercator projection
+N          Show/hide day/night terminator
+O          Show/hide orbit ground tracks
+V          Show/hide coverage footprint
+Space      Pause/resume simulation time
 H          Show this help
 
 📍 CAMERA CONTROLS:
@@ -1,11 +1,16 @@
 import { SatelliteBrowserService } from './satellite-browser.service';
-import { BrowserFilters, CategoryInfo, SatelliteBrowserResult } from './types';
-import { SatelliteData } from '../../types/satellite';
+import { BrowserFilters, BrowserSortField, CategoryInfo, NumericRange, SatelliteBrowserResult } from './types';
+import { OperationalStatus, SatelliteData } from '../../types/satellite';
+import { SatcatParser } from '../../utils/satcat-parser';
+import { OrbitRegime } from '../../utils/orbital-elements';
+import { propagationStatusService, PropagationIssue } from '../../services/propagation-status.service';
+import { manoeuvreService, ManoeuvreEvent } from '../../services/manoeuvre.service';
 
 export interface BrowserRoute {
-  type: 'category' | 'satellite' | 'search';
+  type: 'category' | 'satellite' | 'search' | 'diagnostics' | 'manoeuvres' | 'compare';
   category?: string;
   satelliteId?: string;
+  satelliteIds?: string[];
   filters?: BrowserFilters;
 }
 
@@ -14,9 +19,19 @@ export type RouteResult =
   | { type: 'category-results'; data: SatelliteBrowserResult }
   | { type: 'search-results'; data: SatelliteBrowserResult }
   | { type: 'satellite-detail'; data: SatelliteData }
+  | { type: 'diagnostics'; data: PropagationIssue[] }
+  | { type: 'manoeuvres'; data: ManoeuvreEvent[] }
+  | { type: 'comparison'; data: { satellites: SatelliteData[]; missingIds: string[] } }
   | { type: 'error'; message: string };
 
 export class BrowserRouter {
+  static readonly RECENT_MANOEUVRE_DAYS = 30;
+  static readonly MIN_COMPARED = 2;
+  static readonly MAX_COMPARED = 5;
+  private static readonly SORT_FIELDS: BrowserSortField[] = ['name', 'launchDate', 'type', 'owner', 'rcs', 'decayDate'];
+  private static readonly ORBIT_REGIMES: OrbitRegime[] = ['LEO', 'SSO', 'MEO', 'GEO', 'HEO'];
+  private static readonly RANGE_FILTERS = ['altitude', 'inclination', 'period', 'eccentricity'] as const;
+
   private browserService: SatelliteBrowserService;
 
   constructor(browserService: SatelliteBrowserService) {
@@ -29,6 +44,11 @@ export class BrowserRouter {
    * - /browser/category/earth-observation
    * - /browser/satellite/iss-zarya
    * - /browser/search?name=starlink&type=communication
+   * - /browser/search?owner=ESA&status=operational&launchedFrom=2015-01-01&sortBy=launchDate
+   * - /browser/search?regime=SSO&altitude=500..600 (ranges are min..max, either side may be left open)
+   * - /browser/diagnostics
+   * - /browser/manoeuvres
+   * - /browser/compare?ids=iss-zarya,css-tianhe
    */
   parseRoute(path: string, params?: URLSearchParams): BrowserRoute | null {
     // Remove leading/trailing slashes and split
@@ -72,6 +92,18 @@ export class BrowserRouter {
           filters
         };
 
+      case 'diagnostics':
+        return { type: 'diagnostics' };
+
+      case 'manoeuvres':
+        return { type: 'manoeuvres' };
+
+      case 'compare':
+        return {
+          type: 'compare',
+          satelliteIds: this.parseIds(params?.get('ids') ?? null)
+        };
+
       default:
         return null;
     }
@@ -114,6 +146,39 @@ export class BrowserRouter {
           data: this.browserService.searchSatellites(route.filters || {})
         };
 
+      case 'diagnostics':
+        return {
+          type: 'diagnostics',
+          data: propagationStatusService.getIssues()
+        };
+
+      case 'manoeuvres':
+        return {
+          type: 'manoeuvres',
+          data: manoeuvreService.getRecentEvents(BrowserRouter.RECENT_MANOEUVRE_DAYS)
+        };
+
+      case 'compare':
+        const ids = route.satelliteIds || [];
+        if (ids.length < BrowserRouter.MIN_COMPARED || ids.length > BrowserRouter.MAX_COMPARED) {
+          return {
+            type: 'error',
+            message: `Compare ${BrowserRouter.MIN_COMPARED} to ${BrowserRouter.MAX_COMPARED} satellites (got ${ids.length})`
+          };
+        }
+        const satellites = ids.map(id => this.browserService.getSatelliteById(id));
+        const missingIds = ids.filter((_, index) => !satellites[index]);
+        if (ids.length - missingIds.length < BrowserRouter.MIN_COMPARED) {
+          return { type: 'error', message: `Satellites not found: ${missingIds.join(', ')}` };
+        }
+        return {
+          type: 'comparison',
+          data: {
+            satellites: satellites.filter((satellite): satellite is SatelliteData => !!satellite),
+            missingIds
+          }
+        };
+
       default:
         return { type: 'error', message: 'Invalid route type' };
     }
@@ -142,6 +207,21 @@ export class BrowserRouter {
       case 'search':
         path += '/search';
         break;
+
+      case 'diagnostics':
+        path += '/diagnostics';
+        break;
+
+      case 'manoeuvres':
+        path += '/manoeuvres';
+        break;
+
+      case 'compare':
+        path += '/compare';
+        if (route.satelliteIds?.length) {
+          path += `?ids=${route.satelliteIds.map(id => encodeURIComponent(id)).join(',')}`;
+        }
+        break;
     }
 
     // Add query parameters if filters exist
@@ -150,6 +230,16 @@ export class BrowserRouter {
       
       if (route.filters.name) params.set('name', route.filters.name);
       if (route.filters.type) params.set('type', route.filters.type);
+      if (route.filters.owner) params.set('owner', route.filters.owner);
+      if (route.filters.launchSite) params.set('launchSite', route.filters.launchSite);
+      if (route.filters.operationalStatus) params.set('status', route.filters.operationalStatus);
+      if (route.filters.launchDateFrom) params.set('launchedFrom', this.formatDate(route.filters.launchDateFrom));
+      if (route.filters.launchDateTo) params.set('launchedTo', this.formatDate(route.filters.launchDateTo));
+      if (route.filters.regime) params.set('regime', route.filters.regime);
+      for (const key of BrowserRouter.RANGE_FILTERS) {
+        const range = this.formatRange(route.filters[key]);
+        if (range) params.set(key, range);
+      }
       if (route.filters.sortBy) params.set('sortBy', route.filters.sortBy);
       if (route.filters.sortOrder) params.set('sortOrder', route.filters.sortOrder);
       
@@ -173,8 +263,35 @@ export class BrowserRouter {
     const type = params.get('type');
     if (type) filters.type = type;
 
-    const sortBy = params.get('sortBy') as 'name' | 'launchDate' | 'type' | null;
-    if (sortBy && ['name', 'launchDate', 'type'].includes(sortBy)) {
+    const owner = params.get('owner');
+    if (owner) filters.owner = owner;
+
+    const launchSite = params.get('launchSite');
+    if (launchSite) filters.launchSite = launchSite;
+
+    const status = params.get('status') as OperationalStatus | null;
+    if (status && SatcatParser.OPERATIONAL_STATUSES.includes(status)) {
+      filters.operationalStatus = status;
+    }
+
+    const launchDateFrom = this.parseDate(params.get('launchedFrom'));
+    if (launchDateFrom) filters.launchDateFrom = launchDateFrom;
+
+    const launchDateTo = this.parseDate(params.get('launchedTo'));
+    if (launchDateTo) filters.launchDateTo = launchDateTo;
+
+    const regime = params.get('regime') as OrbitRegime | null;
+    if (regime && BrowserRouter.ORBIT_REGIMES.includes(regime)) {
+      filters.regime = regime;
+    }
+
+    for (const key of BrowserRouter.RANGE_FILTERS) {
+      const range = this.parseRange(params.get(key));
+      if (range) filters[key] = range;
+    }
+
+    const sortBy = params.get('sortBy') as BrowserSortField | null;
+    if (sortBy && BrowserRouter.SORT_FIELDS.includes(sortBy)) {
       filters.sortBy = sortBy;
     }
 
@@ -185,4 +302,46 @@ export class BrowserRouter {
 
     return filters;
   }
+
+  /**
+   * Compared IDs are comma-separated, in column order; repeats are dropped
+   */
+  private parseIds(value: string | null): string[] {
+    if (!value) return [];
+    const ids = value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+    return Array.from(new Set(ids));
+  }
+
+  private formatRange(range?: NumericRange): string | null {
+    if (!range || (range.min === undefined && range.max === undefined)) return null;
+    return `${range.min ?? ''}..${range.max ?? ''}`;
+  }
+
+  /**
+   * Ranges in the URL are min..max, e.g. 500..600, 500.. or ..0.01
+   */
+  private parseRange(value: string | null): NumericRange | undefined {
+    const match = value?.match(/^(-?[\d.]*)\.\.(-?[\d.]*)$/);
+    if (!match) return undefined;
+
+    const min = match[1] ? parseFloat(match[1]) : undefined;
+    const max = match[2] ? parseFloat(match[2]) : undefined;
+    const range: NumericRange = {};
+    if (min !== undefined && Number.isFinite(min)) range.min = min;
+    if (max !== undefined && Number.isFinite(max)) range.max = max;
+    return range.min !== undefined || range.max !== undefined ? range : undefined;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+
+  /**
+   * Dates in the URL are YYYY-MM-DD in UTC
+   */
+  private parseDate(value: string | null): Date | undefined {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
 }
\ No newline at end of file
@@ -4,7 +4,14 @@ import { BrowserRouter, BrowserRoute, RouteResult } from './browser-router';
 import { CategoryBrowserComponent } from './components/category-browser.component';
 import { SatelliteListComponent } from './components/satellite-list.component';
 import { SatelliteDetailComponent } from './components/satellite-detail.component';
+import { PropagationDiagnosticsComponent } from './components/propagation-diagnostics.component';
+import { ManoeuvreListComponent } from './components/manoeuvre-list.component';
+import { SatelliteCompareComponent } from './components/satellite-compare.component';
 import { BrowserFilters } from './types';
+import { ObserverLocation } from '../../types/satellite';
+import { propagationStatusService } from '../../services/propagation-status.service';
+import { manoeuvreService } from '../../services/manoeuvre.service';
+import { satcatService } from '../../services/satcat.service';
 
 export class BrowserComponent {
   private container: HTMLElement;
@@ -14,6 +21,9 @@ export class BrowserComponent {
   private categoryBrowser: CategoryBrowserComponent;
   private satelliteList: SatelliteListComponent;
   private satelliteDetail: SatelliteDetailComponent;
+  private diagnostics: PropagationDiagnosticsComponent;
+  private manoeuvreList: ManoeuvreListComponent;
+  private comparison: SatelliteCompareComponent;
 
   private currentRoute: BrowserRoute | null = null;
 
@@ -26,6 +36,9 @@ export class BrowserComponent {
     this.categoryBrowser = new CategoryBrowserComponent(this.browserService, container);
     this.satelliteList = new SatelliteListComponent(container);
     this.satelliteDetail = new SatelliteDetailComponent(container);
+    this.diagnostics = new PropagationDiagnosticsComponent(container);
+    this.manoeuvreList = new ManoeuvreListComponent(container);
+    this.comparison = new SatelliteCompareComponent(container);
 
     this.setupEventHandlers();
   }
@@ -51,6 +64,17 @@ export class BrowserComponent {
     this.renderCurrentRoute();
   }
 
+  /**
+   * Set the ground observer used for pass predictions on the detail and comparison pages
+   */
+  setObserver(observer: ObserverLocation | null): void {
+    this.satelliteDetail.setObserver(observer);
+    this.comparison.setObserver(observer);
+    if (this.currentRoute?.type === 'satellite' || this.currentRoute?.type === 'compare') {
+      this.renderCurrentRoute();
+    }
+  }
+
   /**
    * Show the category browser (default view)
    */
@@ -82,6 +106,33 @@ export class BrowserComponent {
     this.updateBrowserURL();
   }
 
+  /**
+   * Compare two to five satellites side by side, in the order given
+   */
+  showComparison(satelliteIds: string[]): void {
+    this.navigateToRoute({
+      type: 'compare',
+      satelliteIds
+    });
+    this.updateBrowserURL();
+  }
+
+  /**
+   * Show every object that failed to propagate
+   */
+  showDiagnostics(): void {
+    this.navigateToRoute({ type: 'diagnostics' });
+    this.updateBrowserURL();
+  }
+
+  /**
+   * Show manoeuvres detected between element-set fetches
+   */
+  showManoeuvres(): void {
+    this.navigateToRoute({ type: 'manoeuvres' });
+    this.updateBrowserURL();
+  }
+
   /**
    * Perform a search with filters
    */
@@ -118,6 +169,22 @@ export class BrowserComponent {
         this.satelliteDetail.render(result.data);
         break;
 
+      case 'comparison':
+        this.comparison.render(result.data.satellites, result.data.missingIds);
+        break;
+
+      case 'diagnostics':
+        this.diagnostics.render(result.data, satelliteId => !!this.browserService.getSatelliteById(satelliteId));
+        break;
+
+      case 'manoeuvres':
+        this.manoeuvreList.render(
+          result.data,
+          BrowserRouter.RECENT_MANOEUVRE_DAYS,
+          catalogNumber => this.browserService.getSatelliteByCatalogNumber(catalogNumber)?.id
+        );
+        break;
+
       case 'error':
         this.showError(result.message);
         break;
@@ -136,16 +203,49 @@ export class BrowserComponent {
       this.showCategory(categoryId);
     });
 
+    this.container.addEventListener('diagnostics-requested', () => {
+      this.showDiagnostics();
+    });
+
+    this.container.addEventListener('manoeuvres-requested', () => {
+      this.showManoeuvres();
+    });
+
+    // Keep the diagnostics list current as objects fail or propagate again
+    propagationStatusService.addEventListener('propagation-status-changed', () => {
+      if (this.currentRoute?.type === 'diagnostics') {
+        this.renderCurrentRoute();
+      }
+    });
+
+    manoeuvreService.addEventListener('manoeuvres-changed', () => {
+      if (this.currentRoute?.type === 'manoeuvres') {
+        this.renderCurrentRoute();
+      }
+    });
+
+    // Catalogue metadata (owner, launch, status) is joined after the browser opens
+    satcatService.addEventListener('satcat-loaded', () => {
+      if (this.currentRoute?.type === 'category' || this.currentRoute?.type === 'search' ||
+          this.currentRoute?.type === 'satellite' || this.currentRoute?.type === 'compare') {
+        this.renderCurrentRoute();
+      }
+    });
+
     // Satellite list events
     this.satelliteList.setEventHandlers({
       onSatelliteSelected: (satelliteId: string) => {
         this.showSatellite(satelliteId);
       },
+      onCompareRequested: (satelliteIds: string[]) => {
+        this.showComparison(satelliteIds);
+      },
       onFiltersChanged: (filters: BrowserFilters) => {
         if (this.currentRoute) {
-          // Update current route with new filters
-          this.currentRoute.filters = filters;
+          // Update current route with new filters; the list has no type control, so keep the route's
+          this.currentRoute.filters = { ...filters, type: this.currentRoute.filters?.type };
           this.renderCurrentRoute();
+          this.updateBrowserURL();
         }
       }
     });
@@ -161,6 +261,36 @@ export class BrowserComponent {
         }
       }
     });
+
+    // Comparison events
+    this.comparison.setEventHandlers({
+      onSatelliteSelected: (satelliteId: string) => {
+        this.showSatellite(satelliteId);
+      },
+      onBackRequested: () => {
+        this.showCategories();
+      }
+    });
+
+    // Diagnostics events
+    this.diagnostics.setEventHandlers({
+      onSatelliteSelected: (satelliteId: string) => {
+        this.showSatellite(satelliteId);
+      },
+      onBackRequested: () => {
+        this.showCategories();
+      }
+    });
+
+    // Manoeuvre list events
+    this.manoeuvreList.setEventHandlers({
+      onSatelliteSelected: (satelliteId: string) => {
+        this.showSatellite(satelliteId);
+      },
+      onBackRequested: () => {
+        this.showCategories();
+      }
+    });
   }
 
   private showError(message: string): void {
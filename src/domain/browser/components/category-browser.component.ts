@@ -1,5 +1,8 @@
 import { SatelliteBrowserService } from '../satellite-browser.service';
 import { CategoryInfo } from '../types';
+import { propagationStatusService } from '../../../services/propagation-status.service';
+import { manoeuvreService } from '../../../services/manoeuvre.service';
+import { BrowserRouter } from '../browser-router';
 
 export class CategoryBrowserComponent {
   private browserService: SatelliteBrowserService;
@@ -20,6 +23,8 @@ export class CategoryBrowserComponent {
         <div class="satellite-status">
           <span id="satellite-count-display">Loading satellites...</span>
         </div>
+        ${this.renderManoeuvresLink()}
+        ${this.renderDiagnosticsLink()}
       </div>
       
       <div class="categories-grid">
@@ -27,6 +32,13 @@ export class CategoryBrowserComponent {
       </div>
     `;
 
+    this.container.querySelector('#manoeuvres-link')?.addEventListener('click', () => {
+      this.container.dispatchEvent(new CustomEvent('manoeuvres-requested'));
+    });
+    this.container.querySelector('#diagnostics-link')?.addEventListener('click', () => {
+      this.container.dispatchEvent(new CustomEvent('diagnostics-requested'));
+    });
+
     this.attachEventListeners();
     this.updateSatelliteCount();
   }
@@ -83,6 +95,27 @@ export class CategoryBrowserComponent {
     }, 2000);
   }
 
+  private renderManoeuvresLink(): string {
+    const eventCount = manoeuvreService.getRecentEvents(BrowserRouter.RECENT_MANOEUVRE_DAYS).length;
+    return `
+      <button class="manoeuvres-link" id="manoeuvres-link">
+        🚀 ${eventCount} recent manoeuvre${eventCount !== 1 ? 's' : ''}
+      </button>
+    `;
+  }
+
+  private renderDiagnosticsLink(): string {
+    const issueCount = propagationStatusService.getIssues().length;
+    if (issueCount === 0) {
+      return '';
+    }
+    return `
+      <button class="diagnostics-link" id="diagnostics-link">
+        ⚠️ ${issueCount} object${issueCount !== 1 ? 's' : ''} failed to propagate - view diagnostics
+      </button>
+    `;
+  }
+
   private renderCategoryCard(category: CategoryInfo): string {
     return `
       <div class="category-card" data-category="${category.id}">
@@ -104,7 +137,15 @@ export class CategoryBrowserComponent {
       'communication': '📡',
       'scientific': '🔬',
       'navigation': '🧭',
-      'weather': '🌤️'
+      'weather': '🌤️',
+      'station': '🏠',
+      'military': '🛡️',
+      'amateur': '📻',
+      'other': '🛰️',
+      'rocket-body': '🚀',
+      'debris': '💥',
+      'unknown': '❓',
+      'custom': '📂'
     };
     return icons[categoryId] || '🛰️';
   }
@@ -0,0 +1,106 @@
+import { ManoeuvreEvent } from '../../../services/manoeuvre.service';
+import { ManoeuvreDetector } from '../../../utils/manoeuvre-detector';
+import { HtmlEscape } from '../../../utils/html-escape';
+
+/**
+ * Lists manoeuvres detected between successive element-set fetches, newest first
+ */
+export class ManoeuvreListComponent {
+  private container: HTMLElement;
+  private onSatelliteSelected?: (satelliteId: string) => void;
+  private onBackRequested?: () => void;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  setEventHandlers(handlers: {
+    onSatelliteSelected?: (satelliteId: string) => void;
+    onBackRequested?: () => void;
+  }): void {
+    this.onSatelliteSelected = handlers.onSatelliteSelected;
+    this.onBackRequested = handlers.onBackRequested;
+  }
+
+  /**
+   * @param days Window the events were selected from
+   * @param resolveSatelliteId Detail page ID for a catalog number, if the browser has the object
+   */
+  render(events: ManoeuvreEvent[], days: number, resolveSatelliteId: (catalogNumber: string) => string | undefined): void {
+    this.container.innerHTML = `
+      <div class="satellite-detail">
+        <div class="detail-header">
+          <button class="back-button" id="back-button">← Back to Browse</button>
+          <div class="satellite-title">
+            <h1>Recent Manoeuvres</h1>
+            <div class="satellite-id">
+              ${events.length} manoeuvre${events.length !== 1 ? 's' : ''} in the last ${days} days,
+              detected when element sets are refreshed
+            </div>
+          </div>
+        </div>
+
+        ${events.length === 0 ? '<div class="no-results">No manoeuvres detected yet - they appear once a group has been fetched twice.</div>' : `
+          <div class="info-section">
+            <table class="passes-table manoeuvres-table">
+              <thead>
+                <tr>
+                  <th>Object</th>
+                  <th>Catalog #</th>
+                  <th>Manoeuvre</th>
+                  <th>Δa beyond drag</th>
+                  <th>Δi</th>
+                  <th>Δe</th>
+                  <th>Between (UTC)</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${events.map(event => this.renderEvent(event, resolveSatelliteId(event.catalogNumber))).join('')}
+              </tbody>
+            </table>
+          </div>
+        `}
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  private renderEvent(event: ManoeuvreEvent, satelliteId: string | undefined): string {
+    return `
+      <tr${satelliteId ? ` class="manoeuvre-row-link" data-satellite-id="${HtmlEscape.escape(satelliteId)}"` : ''}>
+        <td>${HtmlEscape.escape(event.name)}</td>
+        <td>${HtmlEscape.escape(event.catalogNumber)}</td>
+        <td>${event.kinds.map(kind => `<span class="manoeuvre-badge manoeuvre-${kind}">${ManoeuvreDetector.formatKind(kind)}</span>`).join(' ')}</td>
+        <td>${this.formatSigned(event.semiMajorAxisChange, 2)} km</td>
+        <td>${this.formatSigned(event.inclinationChange, 4)}°</td>
+        <td>${this.formatSigned(event.eccentricityChange, 6)}</td>
+        <td>${this.formatTime(event.previousEpoch)} – ${this.formatTime(event.epoch)}</td>
+      </tr>
+    `;
+  }
+
+  private formatSigned(value: number, digits: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+  }
+
+  private formatTime(time: number): string {
+    return new Date(time).toISOString().replace('T', ' ').substring(0, 16);
+  }
+
+  private attachEventListeners(): void {
+    const backButton = this.container.querySelector('#back-button');
+    backButton?.addEventListener('click', () => {
+      this.onBackRequested?.();
+    });
+
+    this.container.querySelectorAll('.manoeuvre-row-link').forEach(row => {
+      row.addEventListener('click', (e) => {
+        const satelliteId = (e.currentTarget as HTMLElement).dataset.satelliteId;
+        if (satelliteId) {
+          this.onSatelliteSelected?.(satelliteId);
+        }
+      });
+    });
+  }
+}
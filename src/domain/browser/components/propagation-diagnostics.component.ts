@@ -0,0 +1,97 @@
+import { PropagationIssue } from '../../../services/propagation-status.service';
+import { PropagationErrors } from '../../../utils/propagation-errors';
+import { HtmlEscape } from '../../../utils/html-escape';
+
+/**
+ * Lists every object whose element set failed to propagate, and why
+ */
+export class PropagationDiagnosticsComponent {
+  private container: HTMLElement;
+  private onSatelliteSelected?: (satelliteId: string) => void;
+  private onBackRequested?: () => void;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  setEventHandlers(handlers: {
+    onSatelliteSelected?: (satelliteId: string) => void;
+    onBackRequested?: () => void;
+  }): void {
+    this.onSatelliteSelected = handlers.onSatelliteSelected;
+    this.onBackRequested = handlers.onBackRequested;
+  }
+
+  /**
+   * @param isBrowsable Whether an object has a detail page (objects only loaded on the map do not)
+   */
+  render(issues: PropagationIssue[], isBrowsable: (satelliteId: string) => boolean): void {
+    const decayedCount = issues.filter(issue => issue.status === 'decayed').length;
+
+    this.container.innerHTML = `
+      <div class="satellite-detail">
+        <div class="detail-header">
+          <button class="back-button" id="back-button">← Back to Browse</button>
+          <div class="satellite-title">
+            <h1>Propagation Diagnostics</h1>
+            <div class="satellite-id">
+              ${issues.length} object${issues.length !== 1 ? 's' : ''} failed to propagate
+              (${decayedCount} decayed, ${issues.length - decayedCount} invalid)
+            </div>
+          </div>
+        </div>
+
+        ${issues.length === 0 ? '<div class="no-results">Every loaded object propagates.</div>' : `
+          <div class="info-section">
+            <table class="passes-table diagnostics-table">
+              <thead>
+                <tr>
+                  <th>Object</th>
+                  <th>Catalog #</th>
+                  <th>Status</th>
+                  <th>SGP4 Error</th>
+                  <th>Reason</th>
+                  <th>At (UTC)</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${issues.map(issue => this.renderIssue(issue, isBrowsable(issue.id))).join('')}
+              </tbody>
+            </table>
+          </div>
+        `}
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  private renderIssue(issue: PropagationIssue, browsable: boolean): string {
+    return `
+      <tr${browsable ? ` class="diagnostics-row-link" data-satellite-id="${HtmlEscape.escape(issue.id)}"` : ''}>
+        <td>${HtmlEscape.escape(issue.name)}</td>
+        <td>${HtmlEscape.escape(issue.catalogNumber)}</td>
+        <td><span class="status-badge status-${issue.status}">${PropagationErrors.formatStatus(issue.status)}</span></td>
+        <td>${issue.errorCode ?? '—'}</td>
+        <td>${HtmlEscape.escape(issue.reason)}</td>
+        <td>${new Date(issue.time).toISOString().replace('T', ' ').substring(0, 19)}</td>
+      </tr>
+    `;
+  }
+
+  private attachEventListeners(): void {
+    const backButton = this.container.querySelector('#back-button');
+    backButton?.addEventListener('click', () => {
+      this.onBackRequested?.();
+    });
+
+    this.container.querySelectorAll('.diagnostics-row-link').forEach(row => {
+      row.addEventListener('click', (e) => {
+        const satelliteId = (e.currentTarget as HTMLElement).dataset.satelliteId;
+        if (satelliteId) {
+          this.onSatelliteSelected?.(satelliteId);
+        }
+      });
+    });
+  }
+}
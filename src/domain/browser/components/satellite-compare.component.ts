@@ -0,0 +1,215 @@
+import { SatelliteData, ObserverLocation } from '../../../types/satellite';
+import { PassPredictor } from '../../../utils/pass-predictor';
+import { OrbitalElements } from '../../../utils/orbital-elements';
+import { ObjectTaxonomy } from '../../../utils/object-taxonomy';
+import { PropagationErrors } from '../../../utils/propagation-errors';
+import { SatcatParser } from '../../../utils/satcat-parser';
+import { TLEEpoch } from '../../../utils/tle-epoch';
+import { COMPARISON_COLORS } from '../../../config/comparison';
+import { SatelliteColumns } from '../satellite-columns';
+import { simulationClock } from '../../../simulation-clock';
+import { HtmlEscape } from '../../../utils/html-escape';
+
+type ComparisonRow = [string, (satellite: SatelliteData) => string];
+
+/**
+ * Two to five satellites side by side, one aligned column each in its map colour.
+ * "Show on map" dispatches a bubbling 'compare-on-map' event with the IDs in column order.
+ */
+export class SatelliteCompareComponent {
+  private static readonly PASS_WINDOW_HOURS = 48;
+  private static readonly MAX_LISTED_PASSES = 3;
+
+  private container: HTMLElement;
+  private onBackRequested?: () => void;
+  private onSatelliteSelected?: (satelliteId: string) => void;
+  private observer: ObserverLocation | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  setEventHandlers(handlers: {
+    onBackRequested?: () => void;
+    onSatelliteSelected?: (satelliteId: string) => void;
+  }): void {
+    this.onBackRequested = handlers.onBackRequested;
+    this.onSatelliteSelected = handlers.onSatelliteSelected;
+  }
+
+  /**
+   * Set the ground observer used to list upcoming passes
+   */
+  setObserver(observer: ObserverLocation | null): void {
+    this.observer = observer;
+  }
+
+  render(satellites: SatelliteData[], missingIds: string[] = []): void {
+    // The map draws compared satellites at the simulation time, so the table uses the same instant
+    const time = simulationClock.getDate();
+
+    this.container.innerHTML = `
+      <div class="satellite-compare">
+        <div class="detail-header">
+          <button class="back-button" id="back-button">← Back to Browse</button>
+          <div class="satellite-title">
+            <h1>Compare Satellites</h1>
+            <div class="compare-time">At ${time.toISOString().replace('T', ' ').substring(0, 19)} UTC (simulation time)</div>
+          </div>
+          <button class="compare-map-button" id="compare-map-button">Show on map</button>
+        </div>
+
+        ${missingIds.length > 0 ? `<div class="compare-missing">Not found: ${missingIds.map(id => HtmlEscape.escape(id)).join(', ')}</div>` : ''}
+
+        <div class="compare-scroll">
+          <table class="compare-table">
+            <thead>
+              <tr>
+                <th></th>
+                ${satellites.map((satellite, index) => `
+                  <th data-satellite-id="${HtmlEscape.escape(satellite.id)}">
+                    <span class="compare-swatch" style="background: ${this.toCss(index)}"></span>
+                    <span class="compare-name">${HtmlEscape.escape(satellite.name)}</span>
+                  </th>
+                `).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${this.renderSection('Classification', satellites, [
+                ['Object class', satellite => ObjectTaxonomy.getLabel(satellite.objectClass || 'payload')],
+                ['Mission', satellite => ObjectTaxonomy.getLabel(satellite.type)],
+                ['Owner', satellite => satellite.owner ? HtmlEscape.escape(SatcatParser.getOwnerName(satellite.owner)) : '—'],
+                ['Launch date', satellite => satellite.launchDate ? satellite.launchDate.toISOString().substring(0, 10) : '—']
+              ])}
+              ${this.renderSection('Current State', satellites, this.getStateRows(satellites, time))}
+              ${this.renderSection('Dimensions', satellites, [
+                ['Length', satellite => `${satellite.dimensions.length} m`],
+                ['Width', satellite => `${satellite.dimensions.width} m`],
+                ['Height', satellite => `${satellite.dimensions.height} m`]
+              ])}
+              ${this.renderSection('Orbital Elements', satellites, this.getElementRows())}
+              ${this.renderPasses(satellites, time)}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    `;
+
+    this.attachEventListeners(satellites);
+  }
+
+  private renderSection(title: string, satellites: SatelliteData[], rows: ComparisonRow[]): string {
+    return `
+      <tr class="compare-section">
+        <th colspan="${satellites.length + 1}">${title}</th>
+      </tr>
+      ${rows.map(([label, format]) => `
+        <tr>
+          <th class="compare-label">${label}</th>
+          ${satellites.map(satellite => `<td>${format(satellite)}</td>`).join('')}
+        </tr>
+      `).join('')}
+    `;
+  }
+
+  /**
+   * Positions propagated to the same instant, so the columns compare like for like
+   */
+  private getStateRows(satellites: SatelliteData[], time: Date): ComparisonRow[] {
+    const rows = new Map(satellites.map(satellite => [satellite.id, SatelliteColumns.toRow(satellite, time)]));
+    const column = (id: 'latitude' | 'longitude' | 'altitude' | 'velocity' | 'epochAge') => (satellite: SatelliteData) =>
+      SatelliteColumns.get(id)!.format(rows.get(satellite.id)!);
+
+    return [
+      ['Status', satellite => satellite.status === 'decayed' || satellite.status === 'invalid'
+        ? `<span class="status-badge status-${satellite.status}">${PropagationErrors.formatStatus(satellite.status)}</span>`
+        : satellite.operationalStatus ? SatcatParser.formatStatus(satellite.operationalStatus) : 'Propagating'],
+      ['Latitude', satellite => `${column('latitude')(satellite)}°`],
+      ['Longitude', satellite => `${column('longitude')(satellite)}°`],
+      ['Altitude', satellite => `${column('altitude')(satellite)} km`],
+      ['Velocity', satellite => `${column('velocity')(satellite)} km/s`],
+      ['TLE age', satellite => TLEEpoch.isStale(satellite.tle1, time.getTime())
+        ? `<span class="tle-stale">${column('epochAge')(satellite)}</span>`
+        : column('epochAge')(satellite)]
+    ];
+  }
+
+  private getElementRows(): ComparisonRow[] {
+    const elements = (satellite: SatelliteData) => OrbitalElements.fromTLE(satellite.tle1, satellite.tle2);
+    const element = (format: (value: NonNullable<ReturnType<typeof elements>>) => string) => (satellite: SatelliteData) => {
+      const value = elements(satellite);
+      return value ? format(value) : '—';
+    };
+
+    return [
+      ['Orbit Regime', element(value => value.regime)],
+      ['Inclination', element(value => `${value.inclination.toFixed(2)}°`)],
+      ['Period', element(value => `${value.period.toFixed(2)} min`)],
+      ['Apogee', element(value => `${value.apogeeAltitude.toFixed(1)} km`)],
+      ['Perigee', element(value => `${value.perigeeAltitude.toFixed(1)} km`)],
+      ['Eccentricity', element(value => value.eccentricity.toFixed(7))],
+      ['RAAN', element(value => `${value.raan.toFixed(2)}°`)],
+      ['Mean Motion', element(value => `${value.meanMotion.toFixed(4)} rev/day`)],
+      ['B* Drag Term', element(value => value.bstar.toExponential(3))]
+    ];
+  }
+
+  private renderPasses(satellites: SatelliteData[], time: Date): string {
+    if (!this.observer) {
+      return `
+        <tr class="compare-section">
+          <th colspan="${satellites.length + 1}">Next Passes</th>
+        </tr>
+        <tr>
+          <td class="passes-empty" colspan="${satellites.length + 1}">Set your observer location to compare upcoming passes.</td>
+        </tr>
+      `;
+    }
+
+    const observer = this.observer;
+    const formatTime = (date: Date) => date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+    return this.renderSection('Next Passes', satellites, [
+      ['Rise · max elevation', satellite => {
+        const passes = PassPredictor.predictPasses(satellite.tle1, satellite.tle2, observer, {
+          start: time,
+          durationHours: SatelliteCompareComponent.PASS_WINDOW_HOURS,
+          maxPasses: SatelliteCompareComponent.MAX_LISTED_PASSES
+        });
+        if (passes.length === 0) {
+          return `<span class="passes-empty">None in ${SatelliteCompareComponent.PASS_WINDOW_HOURS} h</span>`;
+        }
+        return passes.map(pass => `<div class="compare-pass">${formatTime(pass.riseTime)} · ${pass.maxElevation.toFixed(0)}°</div>`).join('');
+      }]
+    ]);
+  }
+
+  private attachEventListeners(satellites: SatelliteData[]): void {
+    this.container.querySelector('#back-button')?.addEventListener('click', () => {
+      if (this.onBackRequested) {
+        this.onBackRequested();
+      }
+    });
+
+    this.container.querySelector('#compare-map-button')?.addEventListener('click', () => {
+      this.container.dispatchEvent(new CustomEvent('compare-on-map', {
+        detail: { satelliteIds: satellites.map(satellite => satellite.id) },
+        bubbles: true
+      }));
+    });
+
+    this.container.querySelectorAll('.compare-table thead th[data-satellite-id]').forEach(header => {
+      header.addEventListener('click', () => {
+        const satelliteId = (header as HTMLElement).dataset.satelliteId;
+        if (satelliteId && this.onSatelliteSelected) {
+          this.onSatelliteSelected(satelliteId);
+        }
+      });
+    });
+  }
+
+  private toCss(index: number): string {
+    const [r, g, b] = COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+}
@@ -1,8 +1,20 @@
-import { SatelliteData } from '../../../types/satellite';
+import { SatelliteData, ObserverLocation } from '../../../types/satellite';
+import { PassPredictor } from '../../../utils/pass-predictor';
+import { TLEEpoch } from '../../../utils/tle-epoch';
+import { OrbitalElements } from '../../../utils/orbital-elements';
+import { PropagationErrors } from '../../../utils/propagation-errors';
+import { ObjectTaxonomy } from '../../../utils/object-taxonomy';
+import { SatcatParser } from '../../../utils/satcat-parser';
+import { simulationClock } from '../../../simulation-clock';
+import { HtmlEscape } from '../../../utils/html-escape';
 
 export class SatelliteDetailComponent {
+  private static readonly PASS_WINDOW_HOURS = 48;
+  private static readonly MAX_LISTED_PASSES = 5;
+
   private container: HTMLElement;
   private onBackRequested?: () => void;
+  private observer: ObserverLocation | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -14,6 +26,13 @@ export class SatelliteDetailComponent {
     this.onBackRequested = handlers.onBackRequested;
   }
 
+  /**
+   * Set the ground observer used to list upcoming passes
+   */
+  setObserver(observer: ObserverLocation | null): void {
+    this.observer = observer;
+  }
+
   render(satellite: SatelliteData): void {
     this.container.innerHTML = `
       <div class="satellite-detail">
@@ -38,27 +57,19 @@ export class SatelliteDetailComponent {
             <div class="info-section">
               <h3>Classification</h3>
               <div class="info-item">
-                <span class="label">Type:</span>
-                <span class="value">${this.formatCategoryName(satellite.type)}</span>
-              </div>
-            </div>
-
-            <div class="info-section">
-              <h3>Current Status</h3>
-              <div class="info-item">
-                <span class="label">Position:</span>
-                <span class="value">${satellite.position.lat.toFixed(4)}°, ${satellite.position.lng.toFixed(4)}°</span>
-              </div>
-              <div class="info-item">
-                <span class="label">Altitude:</span>
-                <span class="value">${Math.round(satellite.altitude)} km</span>
+                <span class="label">Object class:</span>
+                <span class="value">${ObjectTaxonomy.getLabel(satellite.objectClass || 'payload')}</span>
               </div>
               <div class="info-item">
-                <span class="label">Velocity:</span>
-                <span class="value">${Math.round(satellite.velocity)} km/h</span>
+                <span class="label">Mission:</span>
+                <span class="value">${ObjectTaxonomy.getLabel(satellite.type)}</span>
               </div>
             </div>
 
+            ${this.renderCatalogue(satellite)}
+
+            ${this.renderCurrentStatus(satellite)}
+
             <div class="info-section">
               <h3>Physical Specifications</h3>
               <div class="info-item">
@@ -75,8 +86,10 @@ export class SatelliteDetailComponent {
               </div>
             </div>
 
+            ${this.renderOrbitalElements(satellite)}
+
             <div class="info-section">
-              <h3>Orbital Elements (TLE)</h3>
+              <h3>Two-Line Element Set</h3>
               <div class="tle-data">
                 <div class="tle-line">
                   <span class="tle-label">Line 1:</span>
@@ -87,8 +100,11 @@ export class SatelliteDetailComponent {
                   <code>${satellite.tle2}</code>
                 </div>
               </div>
+              ${this.renderTleAge(satellite)}
             </div>
 
+            ${this.renderUpcomingPasses(satellite)}
+
             ${this.renderCameraSettings(satellite)}
           </div>
         </div>
@@ -98,6 +114,189 @@ export class SatelliteDetailComponent {
     this.attachEventListeners();
   }
 
+  /**
+   * Owner, launch and status from the satellite catalogue (SATCAT), when the object is in it
+   */
+  private renderCatalogue(satellite: SatelliteData): string {
+    const formatDate = (date: Date) => date.toISOString().substring(0, 10);
+    const withCode = (name: string, code: string) => name === code ? code : `${name} (${code})`;
+    const rows: [string, string][] = [];
+    if (satellite.owner) rows.push(['Owner', withCode(SatcatParser.getOwnerName(satellite.owner), satellite.owner)]);
+    if (satellite.launchDate) rows.push(['Launch date', formatDate(satellite.launchDate)]);
+    if (satellite.launchSite) rows.push(['Launch site', withCode(SatcatParser.getLaunchSiteName(satellite.launchSite), satellite.launchSite)]);
+    if (satellite.operationalStatus) rows.push(['Operational status', SatcatParser.formatStatus(satellite.operationalStatus)]);
+    if (satellite.rcs !== undefined) rows.push(['Radar cross-section', `${satellite.rcs.toFixed(4)} m²`]);
+    if (satellite.decayDate) rows.push(['Decay date', formatDate(satellite.decayDate)]);
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    return `
+      <div class="info-section">
+        <h3>Catalogue</h3>
+        ${rows.map(([label, value]) => `
+          <div class="info-item">
+            <span class="label">${label}:</span>
+            <span class="value">${HtmlEscape.escape(value)}</span>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  private renderCurrentStatus(satellite: SatelliteData): string {
+    if (satellite.status === 'decayed' || satellite.status === 'invalid') {
+      return `
+        <div class="info-section">
+          <h3>Current Status</h3>
+          <div class="info-item">
+            <span class="label">Status:</span>
+            <span class="value"><span class="status-badge status-${satellite.status}">${PropagationErrors.formatStatus(satellite.status)}</span></span>
+          </div>
+          <div class="info-item">
+            <span class="label">Reason:</span>
+            <span class="value">${satellite.statusReason || 'Propagation failed'}</span>
+          </div>
+        </div>
+      `;
+    }
+
+    return `
+      <div class="info-section">
+        <h3>Current Status</h3>
+        <div class="info-item">
+          <span class="label">Position:</span>
+          <span class="value">${satellite.position.lat.toFixed(4)}°, ${satellite.position.lng.toFixed(4)}°</span>
+        </div>
+        <div class="info-item">
+          <span class="label">Altitude:</span>
+          <span class="value">${Math.round(satellite.altitude)} km</span>
+        </div>
+        <div class="info-item">
+          <span class="label">Velocity:</span>
+          <span class="value">${Math.round(satellite.velocity)} km/h</span>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderOrbitalElements(satellite: SatelliteData): string {
+    const elements = OrbitalElements.fromTLE(satellite.tle1, satellite.tle2);
+    if (!elements) {
+      return '';
+    }
+
+    const rows: [string, string][] = [
+      ['Orbit Regime', elements.regime],
+      ['Inclination', `${elements.inclination.toFixed(4)}°`],
+      ['RAAN', `${elements.raan.toFixed(4)}°`],
+      ['Eccentricity', elements.eccentricity.toFixed(7)],
+      ['Arg. of Perigee', `${elements.argumentOfPerigee.toFixed(4)}°`],
+      ['Mean Anomaly', `${elements.meanAnomaly.toFixed(4)}°`],
+      ['Mean Motion', `${elements.meanMotion.toFixed(8)} rev/day`],
+      ['Period', `${elements.period.toFixed(2)} min`],
+      ['Semi-major Axis', `${elements.semiMajorAxis.toFixed(1)} km`],
+      ['Apogee', `${elements.apogeeAltitude.toFixed(1)} km`],
+      ['Perigee', `${elements.perigeeAltitude.toFixed(1)} km`],
+      ['B* Drag Term', `${elements.bstar.toExponential(4)} 1/ER`]
+    ];
+
+    return `
+      <div class="info-section">
+        <h3>Orbital Elements</h3>
+        ${rows.map(([label, value]) => `
+          <div class="info-item">
+            <span class="label">${label}:</span>
+            <span class="value">${value}</span>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  private renderTleAge(satellite: SatelliteData): string {
+    const epoch = TLEEpoch.parseEpoch(satellite.tle1);
+    if (epoch === null) {
+      return `
+        <div class="info-item">
+          <span class="label">TLE Epoch:</span>
+          <span class="value tle-stale">Unreadable</span>
+        </div>
+      `;
+    }
+
+    const now = simulationClock.now();
+    const ageDays = TLEEpoch.getAgeDays(satellite.tle1, now)!;
+    const isStale = TLEEpoch.isStale(satellite.tle1, now);
+    return `
+      <div class="info-item">
+        <span class="label">TLE Epoch:</span>
+        <span class="value">${new Date(epoch).toISOString().replace('T', ' ').substring(0, 19)} UTC</span>
+      </div>
+      <div class="info-item">
+        <span class="label">Age:</span>
+        <span class="value${isStale ? ' tle-stale' : ''}">
+          ${TLEEpoch.formatAge(ageDays)}${isStale ? ` <span class="stale-badge">Stale (&gt; ${TLEEpoch.DEFAULT_STALE_THRESHOLD_DAYS} d)</span>` : ''}
+        </span>
+      </div>
+    `;
+  }
+
+  private renderUpcomingPasses(satellite: SatelliteData): string {
+    if (!this.observer) {
+      return `
+        <div class="info-section">
+          <h3>Upcoming Passes</h3>
+          <p class="passes-empty">Set your observer location to see when this satellite passes overhead.</p>
+        </div>
+      `;
+    }
+
+    const passes = PassPredictor.predictPasses(satellite.tle1, satellite.tle2, this.observer, {
+      start: simulationClock.getDate(),
+      durationHours: SatelliteDetailComponent.PASS_WINDOW_HOURS,
+      maxPasses: SatelliteDetailComponent.MAX_LISTED_PASSES
+    });
+
+    if (passes.length === 0) {
+      return `
+        <div class="info-section">
+          <h3>Upcoming Passes</h3>
+          <p class="passes-empty">No passes above the horizon in the next ${SatelliteDetailComponent.PASS_WINDOW_HOURS} hours.</p>
+        </div>
+      `;
+    }
+
+    const formatTime = (date: Date) => date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+    return `
+      <div class="info-section">
+        <h3>Upcoming Passes</h3>
+        <table class="passes-table">
+          <thead>
+            <tr>
+              <th>Rise (AOS)</th>
+              <th>Max Elevation (TCA)</th>
+              <th>Set (LOS)</th>
+              <th>Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${passes.map(pass => `
+              <tr>
+                <td>${formatTime(pass.riseTime)}<span class="pass-azimuth">${Math.round(pass.riseAzimuth)}°</span></td>
+                <td>${pass.maxElevation.toFixed(1)}°<span class="pass-azimuth">${Math.round(pass.culminationAzimuth)}°</span></td>
+                <td>${formatTime(pass.setTime)}<span class="pass-azimuth">${Math.round(pass.setAzimuth)}°</span></td>
+                <td>${Math.floor(pass.duration / 60)}m ${pass.duration % 60}s</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
   private renderCameraSettings(satellite: SatelliteData): string {
     if (!satellite.defaultBearing && !satellite.defaultZoom && !satellite.defaultPitch) {
       return '';
@@ -142,11 +341,4 @@ export class SatelliteDetailComponent {
       }
     });
   }
-
-  private formatCategoryName(category: string): string {
-    return category
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
 }
\ No newline at end of file
@@ -1,49 +1,152 @@
 import { SatelliteData } from '../../../types/satellite';
-import { SatelliteBrowserResult, BrowserFilters } from '../types';
+import { SatelliteBrowserResult, BrowserFilters, BrowserSortField, FacetCounts, NumericRange } from '../types';
+import { PropagationErrors } from '../../../utils/propagation-errors';
+import { ObjectTaxonomy } from '../../../utils/object-taxonomy';
+import { SatcatParser } from '../../../utils/satcat-parser';
+import { OrbitRegime } from '../../../utils/orbital-elements';
+import { OverpassExport } from '../../../utils/overpass-export';
+import { SatelliteColumns } from '../satellite-columns';
+import { SatelliteExport } from '../satellite-export';
+import { SatelliteTableComponent } from './satellite-table.component';
+import { BrowserRouter } from '../browser-router';
+import { simulationClock } from '../../../simulation-clock';
+
+type RangeFilterKey = 'altitude' | 'inclination' | 'period' | 'eccentricity';
 
 export class SatelliteListComponent {
+  private static readonly ORBIT_REGIMES: { id: OrbitRegime; label: string }[] = [
+    { id: 'LEO', label: 'Low Earth orbit' },
+    { id: 'SSO', label: 'Sun-synchronous' },
+    { id: 'MEO', label: 'Medium Earth orbit' },
+    { id: 'GEO', label: 'Geosynchronous' },
+    { id: 'HEO', label: 'Highly elliptical' }
+  ];
+  private static readonly RANGE_FILTERS: { key: RangeFilterKey; label: string; unit: string; step: string }[] = [
+    { key: 'altitude', label: 'Altitude', unit: 'km', step: '10' },
+    { key: 'inclination', label: 'Inclination', unit: '°', step: '0.1' },
+    { key: 'period', label: 'Period', unit: 'min', step: '1' },
+    { key: 'eccentricity', label: 'Eccentricity', unit: '', step: '0.001' }
+  ];
+
+  private readonly VIEW_STORAGE_KEY = 'browser_list_view';
+
   private container: HTMLElement;
+  private table = new SatelliteTableComponent();
+  private view: 'cards' | 'table';
+  private lastResult: SatelliteBrowserResult | null = null;
+  private lastFilters?: BrowserFilters;
+  private compareIds: string[] = []; // Picked for comparison, kept while filters change
   private onSatelliteSelected?: (satelliteId: string) => void;
+  private onCompareRequested?: (satelliteIds: string[]) => void;
   private onFiltersChanged?: (filters: BrowserFilters) => void;
 
   constructor(container: HTMLElement) {
     this.container = container;
+    this.view = localStorage.getItem(this.VIEW_STORAGE_KEY) === 'table' ? 'table' : 'cards';
   }
 
   setEventHandlers(handlers: {
     onSatelliteSelected?: (satelliteId: string) => void;
+    onCompareRequested?: (satelliteIds: string[]) => void;
     onFiltersChanged?: (filters: BrowserFilters) => void;
   }): void {
     this.onSatelliteSelected = handlers.onSatelliteSelected;
+    this.onCompareRequested = handlers.onCompareRequested;
     this.onFiltersChanged = handlers.onFiltersChanged;
+    this.table.setEventHandlers({
+      onSatelliteSelected: handlers.onSatelliteSelected,
+      onPickChanged: (satelliteId, picked) => this.setCompared(satelliteId, picked)
+    });
   }
 
   render(result: SatelliteBrowserResult, filters?: BrowserFilters): void {
-    const { satellites, totalCount, category } = result;
+    const { satellites, totalCount, category, facets } = result;
+    this.lastResult = result;
+    this.lastFilters = filters;
     
     this.container.innerHTML = `
       <div class="satellite-list-header">
-        ${category ? `<h2>${this.formatCategoryName(category)} Satellites</h2>` : '<h2>Search Results</h2>'}
+        ${category ? `<h2>${ObjectTaxonomy.getLabel(category)}</h2>` : '<h2>Search Results</h2>'}
         <div class="results-info">
           <span>${totalCount} satellite${totalCount !== 1 ? 's' : ''} found</span>
+          <div class="view-toggle">
+            <button data-view="cards" class="${this.view === 'cards' ? 'active' : ''}">Cards</button>
+            <button data-view="table" class="${this.view === 'table' ? 'active' : ''}">Table</button>
+          </div>
+          <div class="export-buttons">
+            <span>Export:</span>
+            <button data-export="csv" ${satellites.length === 0 ? 'disabled' : ''}>CSV</button>
+            <button data-export="json" ${satellites.length === 0 ? 'disabled' : ''}>JSON</button>
+            <button data-export="geojson" ${satellites.length === 0 ? 'disabled' : ''}>GeoJSON</button>
+          </div>
+          ${this.renderCompareButton()}
         </div>
       </div>
 
       <div class="satellite-filters">
-        ${this.renderFilters(filters)}
+        ${this.renderFilters(filters, facets)}
       </div>
 
-      <div class="satellite-grid">
-        ${satellites.map(satellite => this.renderSatelliteCard(satellite)).join('')}
-      </div>
+      ${this.view === 'table'
+        ? '<div class="satellite-table-view"></div>'
+        : `<div class="satellite-grid">
+            ${satellites.map(satellite => this.renderSatelliteCard(satellite)).join('')}
+          </div>`}
 
       ${satellites.length === 0 ? '<div class="no-results">No satellites found matching your criteria.</div>' : ''}
     `;
 
+    const tableElement = this.container.querySelector('.satellite-table-view') as HTMLElement | null;
+    if (tableElement && satellites.length > 0) {
+      this.table.render(tableElement, satellites, simulationClock.getDate());
+      this.table.setPicked(this.compareIds, BrowserRouter.MAX_COMPARED);
+    }
+
     this.attachEventListeners();
   }
 
-  private renderFilters(filters?: BrowserFilters): string {
+  private renderCompareButton(): string {
+    const count = this.compareIds.length;
+    return `
+      <button class="compare-button" id="compare-button" ${count < BrowserRouter.MIN_COMPARED ? 'disabled' : ''}
+        title="Tick ${BrowserRouter.MIN_COMPARED} to ${BrowserRouter.MAX_COMPARED} satellites to compare">
+        Compare (${count})
+      </button>
+    `;
+  }
+
+  /**
+   * Download the current result set with the table's columns and order, positions propagated to the
+   * simulation time like the table; the file name carries that time
+   */
+  private exportResults(format: 'csv' | 'json' | 'geojson'): void {
+    const satellites = this.lastResult?.satellites || [];
+    if (satellites.length === 0) return;
+
+    const time = simulationClock.getDate();
+    const columns = this.table.getVisibleColumns();
+    const rows = this.table.sort(satellites.map(satellite => SatelliteColumns.toRow(satellite, time)));
+    const baseName = `satellites-${time.toISOString().substring(0, 19).replace(/[-:]/g, '')}`;
+
+    switch (format) {
+      case 'csv':
+        OverpassExport.download(SatelliteExport.toCSV(rows, columns), `${baseName}.csv`, 'text/csv');
+        break;
+      case 'json':
+        OverpassExport.download(SatelliteExport.toJSON(rows, columns, time), `${baseName}.json`, 'application/json');
+        break;
+      case 'geojson':
+        OverpassExport.download(SatelliteExport.toGeoJSON(rows, columns, time), `${baseName}.geojson`, 'application/geo+json');
+        break;
+    }
+  }
+
+  /**
+   * Filter controls; facet options show how many results each would give
+   */
+  private renderFilters(filters?: BrowserFilters, facets?: FacetCounts): string {
+    const withCount = (label: string, count: number | undefined) => facets ? `${label} (${count || 0})` : label;
+
     return `
       <div class="filter-row">
         <div class="filter-group">
@@ -56,6 +159,10 @@ export class SatelliteListComponent {
           <select id="sort-by">
             <option value="name" ${filters?.sortBy === 'name' ? 'selected' : ''}>Name</option>
             <option value="type" ${filters?.sortBy === 'type' ? 'selected' : ''}>Type</option>
+            <option value="launchDate" ${filters?.sortBy === 'launchDate' ? 'selected' : ''}>Launch date</option>
+            <option value="owner" ${filters?.sortBy === 'owner' ? 'selected' : ''}>Owner</option>
+            <option value="rcs" ${filters?.sortBy === 'rcs' ? 'selected' : ''}>Radar cross-section</option>
+            <option value="decayDate" ${filters?.sortBy === 'decayDate' ? 'selected' : ''}>Decay date</option>
           </select>
         </div>
         
@@ -67,27 +174,98 @@ export class SatelliteListComponent {
           </select>
         </div>
       </div>
+
+      <div class="filter-row">
+        <div class="filter-group">
+          <label for="owner-filter">Owner:</label>
+          <input type="text" id="owner-filter" placeholder="e.g. ESA, China..." value="${filters?.owner || ''}" />
+        </div>
+
+        <div class="filter-group">
+          <label for="launch-site-filter">Launch site:</label>
+          <input type="text" id="launch-site-filter" placeholder="e.g. Kourou, AFETR..." value="${filters?.launchSite || ''}" />
+        </div>
+
+        <div class="filter-group">
+          <label for="status-filter">Status:</label>
+          <select id="status-filter">
+            <option value="">Any</option>
+            ${SatcatParser.OPERATIONAL_STATUSES.map(status => `
+              <option value="${status}" ${filters?.operationalStatus === status ? 'selected' : ''}>${withCount(SatcatParser.formatStatus(status), facets?.operationalStatus[status])}</option>
+            `).join('')}
+          </select>
+        </div>
+
+        <div class="filter-group">
+          <label for="launched-from">Launched from:</label>
+          <input type="date" id="launched-from" value="${filters?.launchDateFrom ? this.formatDate(filters.launchDateFrom) : ''}" />
+        </div>
+
+        <div class="filter-group">
+          <label for="launched-to">Launched to:</label>
+          <input type="date" id="launched-to" value="${filters?.launchDateTo ? this.formatDate(filters.launchDateTo) : ''}" />
+        </div>
+      </div>
+
+      <div class="filter-row">
+        <div class="filter-group">
+          <label for="regime-filter">Orbit:</label>
+          <select id="regime-filter">
+            <option value="">Any</option>
+            ${SatelliteListComponent.ORBIT_REGIMES.map(regime => `
+              <option value="${regime.id}" ${filters?.regime === regime.id ? 'selected' : ''}>${withCount(`${regime.id} – ${regime.label}`, facets?.regime[regime.id])}</option>
+            `).join('')}
+          </select>
+        </div>
+
+        ${SatelliteListComponent.RANGE_FILTERS.map(range => `
+          <div class="filter-group filter-range">
+            <label for="${range.key}-min">${range.label}${range.unit ? ` (${range.unit})` : ''}:</label>
+            <div class="range-inputs">
+              <input type="number" id="${range.key}-min" step="${range.step}" placeholder="min" value="${filters?.[range.key]?.min ?? ''}" />
+              <span>–</span>
+              <input type="number" id="${range.key}-max" step="${range.step}" placeholder="max" value="${filters?.[range.key]?.max ?? ''}" />
+            </div>
+          </div>
+        `).join('')}
+      </div>
     `;
   }
 
   private renderSatelliteCard(satellite: SatelliteData): string {
+    const failed = satellite.status === 'decayed' || satellite.status === 'invalid';
+    const compared = this.compareIds.includes(satellite.id);
+    const compareFull = !compared && this.compareIds.length >= BrowserRouter.MAX_COMPARED;
     return `
-      <div class="satellite-card" data-satellite-id="${satellite.id}">
+      <div class="satellite-card${failed ? ' propagation-failed' : ''}" data-satellite-id="${satellite.id}">
+        <label class="compare-toggle" title="${compareFull ? `At most ${BrowserRouter.MAX_COMPARED} satellites can be compared` : 'Compare'}">
+          <input type="checkbox" value="${satellite.id}" ${compared ? 'checked' : ''} ${compareFull ? 'disabled' : ''} />
+          Compare
+        </label>
         <div class="satellite-image">
           ${satellite.image ? `<img src="${satellite.image}" alt="${satellite.name}" />` : '<div class="placeholder-image">🛰️</div>'}
         </div>
         <div class="satellite-info">
           <h3>${satellite.name}</h3>
           ${satellite.shortname ? `<div class="satellite-shortname">${satellite.shortname}</div>` : ''}
-          <div class="satellite-type">${this.formatCategoryName(satellite.type)}</div>
+          <div class="satellite-type">${ObjectTaxonomy.getLabel(ObjectTaxonomy.getDisplayCategory(satellite))}</div>
+          ${satellite.owner || satellite.launchDate ? `
+            <div class="satellite-catalogue">
+              ${[
+                satellite.owner && SatcatParser.getOwnerName(satellite.owner),
+                satellite.launchDate && `launched ${this.formatDate(satellite.launchDate)}`
+              ].filter(Boolean).join(' · ')}
+            </div>
+          ` : ''}
+          ${failed ? `<span class="status-badge status-${satellite.status}" title="${satellite.statusReason || ''}">${PropagationErrors.formatStatus(satellite.status!)}</span>` : ''}
           <div class="satellite-stats">
             <div class="stat">
               <span class="label">Altitude:</span>
-              <span class="value">${Math.round(satellite.altitude)} km</span>
+              <span class="value">${failed ? '—' : `${Math.round(satellite.altitude)} km`}</span>
             </div>
             <div class="stat">
               <span class="label">Velocity:</span>
-              <span class="value">${Math.round(satellite.velocity)} km/h</span>
+              <span class="value">${failed ? '—' : `${Math.round(satellite.velocity)} km/h`}</span>
             </div>
           </div>
         </div>
@@ -96,10 +274,41 @@ export class SatelliteListComponent {
   }
 
   private attachEventListeners(): void {
+    this.container.querySelectorAll('.view-toggle button').forEach(button => {
+      button.addEventListener('click', () => {
+        const view = (button as HTMLElement).dataset.view === 'table' ? 'table' : 'cards';
+        if (view === this.view) return;
+        this.view = view;
+        localStorage.setItem(this.VIEW_STORAGE_KEY, view);
+        if (this.lastResult) {
+          this.render(this.lastResult, this.lastFilters);
+        }
+      });
+    });
+
+    this.container.querySelectorAll('.export-buttons button').forEach(button => {
+      button.addEventListener('click', () => this.exportResults((button as HTMLElement).dataset.export as 'csv' | 'json' | 'geojson'));
+    });
+
+    this.container.querySelector('#compare-button')?.addEventListener('click', () => {
+      if (this.onCompareRequested && this.compareIds.length >= BrowserRouter.MIN_COMPARED) {
+        this.onCompareRequested([...this.compareIds]);
+      }
+    });
+
+    this.container.querySelectorAll('.compare-toggle input').forEach(input => {
+      input.addEventListener('change', () => {
+        const checkbox = input as HTMLInputElement;
+        this.setCompared(checkbox.value, checkbox.checked);
+      });
+    });
+
     // Satellite card click handlers
     const satelliteCards = this.container.querySelectorAll('.satellite-card');
     satelliteCards.forEach(card => {
       card.addEventListener('click', (e) => {
+        // Ticking the compare box doesn't open the satellite
+        if ((e.target as HTMLElement).closest('.compare-toggle')) return;
         const satelliteId = (e.currentTarget as HTMLElement).dataset.satelliteId;
         if (satelliteId && this.onSatelliteSelected) {
           this.onSatelliteSelected(satelliteId);
@@ -111,12 +320,34 @@ export class SatelliteListComponent {
     const nameFilter = this.container.querySelector('#name-filter') as HTMLInputElement;
     const sortBySelect = this.container.querySelector('#sort-by') as HTMLSelectElement;
     const sortOrderSelect = this.container.querySelector('#sort-order') as HTMLSelectElement;
+    const ownerFilter = this.container.querySelector('#owner-filter') as HTMLInputElement;
+    const launchSiteFilter = this.container.querySelector('#launch-site-filter') as HTMLInputElement;
+    const statusSelect = this.container.querySelector('#status-filter') as HTMLSelectElement;
+    const launchedFromInput = this.container.querySelector('#launched-from') as HTMLInputElement;
+    const launchedToInput = this.container.querySelector('#launched-to') as HTMLInputElement;
+    const regimeSelect = this.container.querySelector('#regime-filter') as HTMLSelectElement;
+    const readRange = (key: RangeFilterKey): NumericRange | undefined => {
+      const min = parseFloat((this.container.querySelector(`#${key}-min`) as HTMLInputElement | null)?.value || '');
+      const max = parseFloat((this.container.querySelector(`#${key}-max`) as HTMLInputElement | null)?.value || '');
+      if (!Number.isFinite(min) && !Number.isFinite(max)) return undefined;
+      return { min: Number.isFinite(min) ? min : undefined, max: Number.isFinite(max) ? max : undefined };
+    };
 
     const updateFilters = () => {
       if (this.onFiltersChanged) {
         const filters: BrowserFilters = {
           name: nameFilter?.value || undefined,
-          sortBy: (sortBySelect?.value as 'name' | 'type') || undefined,
+          owner: ownerFilter?.value.trim() || undefined,
+          launchSite: launchSiteFilter?.value.trim() || undefined,
+          operationalStatus: (statusSelect?.value as BrowserFilters['operationalStatus']) || undefined,
+          launchDateFrom: this.parseDate(launchedFromInput?.value),
+          launchDateTo: this.parseDate(launchedToInput?.value),
+          regime: (regimeSelect?.value as OrbitRegime) || undefined,
+          altitude: readRange('altitude'),
+          inclination: readRange('inclination'),
+          period: readRange('period'),
+          eccentricity: readRange('eccentricity'),
+          sortBy: (sortBySelect?.value as BrowserSortField) || undefined,
           sortOrder: (sortOrderSelect?.value as 'asc' | 'desc') || undefined
         };
         this.onFiltersChanged(filters);
@@ -126,12 +357,53 @@ export class SatelliteListComponent {
     nameFilter?.addEventListener('input', updateFilters);
     sortBySelect?.addEventListener('change', updateFilters);
     sortOrderSelect?.addEventListener('change', updateFilters);
+    // Owner and launch site apply on Enter or leaving the field, not on every keystroke
+    ownerFilter?.addEventListener('change', updateFilters);
+    launchSiteFilter?.addEventListener('change', updateFilters);
+    statusSelect?.addEventListener('change', updateFilters);
+    launchedFromInput?.addEventListener('change', updateFilters);
+    launchedToInput?.addEventListener('change', updateFilters);
+    regimeSelect?.addEventListener('change', updateFilters);
+    this.container.querySelectorAll('.range-inputs input').forEach(input => input.addEventListener('change', updateFilters));
+  }
+
+  /**
+   * Add or remove a satellite from the comparison, from a card or a table row
+   */
+  private setCompared(satelliteId: string, compared: boolean): void {
+    this.compareIds = compared
+      ? [...this.compareIds.filter(id => id !== satelliteId), satelliteId].slice(0, BrowserRouter.MAX_COMPARED)
+      : this.compareIds.filter(id => id !== satelliteId);
+    this.updateCompareControls();
+  }
+
+  /**
+   * Refresh the compare button and boxes in place, keeping scroll position and focus
+   */
+  private updateCompareControls(): void {
+    const button = this.container.querySelector('#compare-button') as HTMLButtonElement | null;
+    if (button) {
+      button.textContent = `Compare (${this.compareIds.length})`;
+      button.disabled = this.compareIds.length < BrowserRouter.MIN_COMPARED;
+    }
+
+    const full = this.compareIds.length >= BrowserRouter.MAX_COMPARED;
+    this.container.querySelectorAll('.compare-toggle input').forEach(input => {
+      const checkbox = input as HTMLInputElement;
+      checkbox.disabled = full && !checkbox.checked;
+    });
+    if (this.view === 'table') {
+      this.table.setPicked(this.compareIds, BrowserRouter.MAX_COMPARED);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().substring(0, 10);
   }
 
-  private formatCategoryName(category: string): string {
-    return category
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
+  private parseDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? undefined : date;
   }
 }
\ No newline at end of file
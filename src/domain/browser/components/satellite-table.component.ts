@@ -0,0 +1,219 @@
+import { SatelliteData } from '../../../types/satellite';
+import { SatelliteColumn, SatelliteColumnId, SatelliteColumns, SatelliteRow } from '../satellite-columns';
+import { HtmlEscape } from '../../../utils/html-escape';
+
+/**
+ * Dense, sortable table of a result set. Only the rows in view are in the DOM, so the whole
+ * catalogue scrolls smoothly; the chosen columns are kept across sessions. A leading checkbox
+ * column picks rows (e.g. for comparison); it is not a data column and is never exported.
+ */
+export class SatelliteTableComponent {
+  private static readonly ROW_HEIGHT = 32; // px, matches .satellite-table tbody tr
+  private static readonly OVERSCAN_ROWS = 10;
+  private readonly STORAGE_KEY = 'browser_table_columns';
+
+  private onSatelliteSelected?: (satelliteId: string) => void;
+  private onPickChanged?: (satelliteId: string, picked: boolean) => void;
+  private pickedIds: string[] = [];
+  private maxPicked = Infinity;
+  private visibleColumns: SatelliteColumnId[];
+  private sortColumn: SatelliteColumnId | null = null;
+  private sortOrder: 'asc' | 'desc' = 'asc';
+  private rows: SatelliteRow[] = [];
+  private element: HTMLElement | null = null;
+  private renderedRange = { start: -1, end: -1 };
+  private scrollFrame: number | null = null;
+
+  constructor() {
+    this.visibleColumns = this.loadColumns();
+  }
+
+  setEventHandlers(handlers: {
+    onSatelliteSelected?: (satelliteId: string) => void;
+    onPickChanged?: (satelliteId: string, picked: boolean) => void;
+  }): void {
+    this.onSatelliteSelected = handlers.onSatelliteSelected;
+    this.onPickChanged = handlers.onPickChanged;
+  }
+
+  /**
+   * Rows shown as picked; once max are picked the other boxes are disabled
+   */
+  setPicked(satelliteIds: string[], max: number = Infinity): void {
+    this.pickedIds = [...satelliteIds];
+    this.maxPicked = max;
+    this.renderRows(true);
+  }
+
+  /**
+   * Columns in table order, as shown and exported
+   */
+  getVisibleColumns(): SatelliteColumn[] {
+    return SatelliteColumns.ALL.filter(column => this.visibleColumns.includes(column.id));
+  }
+
+  /**
+   * Order rows like the table, e.g. for an export; unchanged when no column is sorted
+   */
+  sort(rows: SatelliteRow[]): SatelliteRow[] {
+    const column = this.sortColumn && SatelliteColumns.get(this.sortColumn);
+    return column ? rows.sort((a, b) => SatelliteColumns.compare(a, b, column, this.sortOrder)) : rows;
+  }
+
+  /**
+   * @param time Instant the positions and element-set ages are computed for
+   */
+  render(element: HTMLElement, satellites: SatelliteData[], time: Date): void {
+    this.element = element;
+    this.rows = satellites.map(satellite => SatelliteColumns.toRow(satellite, time));
+    this.sortRows();
+
+    element.innerHTML = `
+      <div class="table-toolbar">
+        <details class="column-picker">
+          <summary>Columns</summary>
+          <div class="column-picker-options">
+            ${SatelliteColumns.ALL.map(column => `
+              <label>
+                <input type="checkbox" value="${column.id}" ${this.visibleColumns.includes(column.id) ? 'checked' : ''} />
+                ${column.label}
+              </label>
+            `).join('')}
+          </div>
+        </details>
+      </div>
+      <div class="satellite-table-scroll">
+        <table class="satellite-table">
+          <thead></thead>
+          <tbody></tbody>
+        </table>
+      </div>
+    `;
+
+    this.renderHeader();
+    this.attachEventListeners();
+    this.renderRows(true);
+  }
+
+  private renderHeader(): void {
+    const thead = this.element?.querySelector('.satellite-table thead');
+    if (!thead) return;
+
+    thead.innerHTML = `
+      <tr>
+        <th class="pick-cell"></th>
+        ${this.getVisibleColumns().map(column => `
+          <th data-column="${column.id}" class="${column.numeric ? 'numeric' : ''}${this.sortColumn === column.id ? ` sorted-${this.sortOrder}` : ''}">
+            ${column.label}
+          </th>
+        `).join('')}
+      </tr>
+    `;
+  }
+
+  /**
+   * Render the rows in view plus some overscan, with spacer rows standing in for the rest
+   */
+  private renderRows(force = false): void {
+    const scroller = this.element?.querySelector('.satellite-table-scroll') as HTMLElement | null;
+    const tbody = this.element?.querySelector('.satellite-table tbody');
+    if (!scroller || !tbody) return;
+
+    const rowHeight = SatelliteTableComponent.ROW_HEIGHT;
+    const overscan = SatelliteTableComponent.OVERSCAN_ROWS;
+    const start = Math.max(0, Math.floor(scroller.scrollTop / rowHeight) - overscan);
+    const end = Math.min(this.rows.length, Math.ceil((scroller.scrollTop + scroller.clientHeight) / rowHeight) + overscan);
+    if (!force && start === this.renderedRange.start && end === this.renderedRange.end) return;
+    this.renderedRange = { start, end };
+
+    const columns = this.getVisibleColumns();
+    const spacer = (rows: number) => rows > 0 ? `<tr class="table-spacer" style="height: ${rows * rowHeight}px"><td colspan="${columns.length + 1}"></td></tr>` : '';
+    const full = this.pickedIds.length >= this.maxPicked;
+
+    tbody.innerHTML = spacer(start) + this.rows.slice(start, end).map(row => {
+      const picked = this.pickedIds.includes(row.satellite.id);
+      return `
+      <tr data-satellite-id="${HtmlEscape.escape(row.satellite.id)}">
+        <td class="pick-cell"><input type="checkbox" value="${HtmlEscape.escape(row.satellite.id)}" ${picked ? 'checked' : ''} ${full && !picked ? 'disabled' : ''} /></td>
+        ${columns.map(column => `<td class="${column.numeric ? 'numeric' : ''}">${HtmlEscape.escape(column.format(row))}</td>`).join('')}
+      </tr>
+    `;
+    }).join('') + spacer(this.rows.length - end);
+  }
+
+  private sortRows(): void {
+    this.sort(this.rows);
+  }
+
+  private attachEventListeners(): void {
+    const scroller = this.element?.querySelector('.satellite-table-scroll');
+    scroller?.addEventListener('scroll', () => {
+      if (this.scrollFrame !== null) return;
+      this.scrollFrame = requestAnimationFrame(() => {
+        this.scrollFrame = null;
+        this.renderRows();
+      });
+    });
+
+    // Header click sorts; clicking the sorted column again reverses the order
+    this.element?.querySelector('.satellite-table thead')?.addEventListener('click', (e) => {
+      const header = (e.target as HTMLElement).closest('th') as HTMLElement | null;
+      const columnId = header?.dataset.column as SatelliteColumnId | undefined;
+      if (!columnId) return;
+
+      this.sortOrder = this.sortColumn === columnId && this.sortOrder === 'asc' ? 'desc' : 'asc';
+      this.sortColumn = columnId;
+      this.sortRows();
+      this.renderHeader();
+      this.renderRows(true);
+    });
+
+    this.element?.querySelector('.satellite-table tbody')?.addEventListener('click', (e) => {
+      // Ticking a row doesn't open it
+      if ((e.target as HTMLElement).closest('.pick-cell')) return;
+
+      const row = (e.target as HTMLElement).closest('tr') as HTMLElement | null;
+      const satelliteId = row?.dataset.satelliteId;
+      if (satelliteId && this.onSatelliteSelected) {
+        this.onSatelliteSelected(satelliteId);
+      }
+    });
+
+    this.element?.querySelector('.satellite-table tbody')?.addEventListener('change', (e) => {
+      const checkbox = e.target as HTMLInputElement;
+      if (checkbox.closest('.pick-cell') && this.onPickChanged) {
+        this.onPickChanged(checkbox.value, checkbox.checked);
+      }
+    });
+
+    this.element?.querySelector('.column-picker-options')?.addEventListener('change', (e) => {
+      const checkbox = e.target as HTMLInputElement;
+      const columnId = checkbox.value as SatelliteColumnId;
+      this.visibleColumns = checkbox.checked
+        ? [...this.visibleColumns, columnId]
+        : this.visibleColumns.filter(id => id !== columnId);
+      this.saveColumns();
+      this.renderHeader();
+      this.renderRows(true);
+    });
+  }
+
+  private loadColumns(): SatelliteColumnId[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null') as SatelliteColumnId[] | null;
+      const known = stored?.filter(id => SatelliteColumns.get(id));
+      if (known && known.length > 0) return known;
+    } catch (error) {
+      console.warn('Failed to load table columns from storage:', error);
+    }
+    return [...SatelliteColumns.DEFAULT_VISIBLE];
+  }
+
+  private saveColumns(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.visibleColumns));
+    } catch (error) {
+      console.warn('Failed to save table columns to storage:', error);
+    }
+  }
+}
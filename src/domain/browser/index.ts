@@ -10,7 +10,15 @@ export { BrowserRouter, type BrowserRoute } from './browser-router';
 // Components
 export { CategoryBrowserComponent } from './components/category-browser.component';
 export { SatelliteListComponent } from './components/satellite-list.component';
+export { SatelliteTableComponent } from './components/satellite-table.component';
 export { SatelliteDetailComponent } from './components/satellite-detail.component';
+export { SatelliteCompareComponent } from './components/satellite-compare.component';
+export { PropagationDiagnosticsComponent } from './components/propagation-diagnostics.component';
+export { ManoeuvreListComponent } from './components/manoeuvre-list.component';
+
+// Table columns and export
+export { SatelliteColumns, type SatelliteColumn, type SatelliteColumnId, type SatelliteRow } from './satellite-columns';
+export { SatelliteExport } from './satellite-export';
 
 // Types
-export type { CategoryInfo, BrowserFilters, SatelliteBrowserResult } from './types';
\ No newline at end of file
+export type { CategoryInfo, BrowserFilters, BrowserSortField, NumericRange, FacetCounts, SatelliteBrowserResult } from './types';
\ No newline at end of file
@@ -1,9 +1,16 @@
 import { SatelliteData } from '../../types/satellite';
 import { SatelliteDataService } from '../../services/satellite-data.service';
-import { CategoryInfo, BrowserFilters, SatelliteBrowserResult } from './types';
+import { ElementSetHistory } from '../../utils/element-set-history';
+import { ObjectTaxonomy } from '../../utils/object-taxonomy';
+import { SatcatParser } from '../../utils/satcat-parser';
+import { ClassicalElements, OrbitalElements, OrbitRegime } from '../../utils/orbital-elements';
+import { CategoryInfo, BrowserFilters, BrowserSortField, FacetCounts, NumericRange, SatelliteBrowserResult } from './types';
 
 export class SatelliteBrowserService {
+  private static readonly ORBIT_REGIMES: OrbitRegime[] = ['LEO', 'SSO', 'MEO', 'GEO', 'HEO'];
+
   private satelliteDataService: SatelliteDataService;
+  private elementsCache: Map<string, ClassicalElements | null> = new Map(); // By element set
 
   constructor(satelliteDataService: SatelliteDataService) {
     this.satelliteDataService = satelliteDataService;
@@ -17,31 +24,40 @@ export class SatelliteBrowserService {
   }
 
   /**
-   * Get all available categories with satellite counts
+   * Get all available categories with satellite counts: payloads by mission category,
+   * other objects by class (rocket bodies, debris, unknown)
    */
   getCategories(): CategoryInfo[] {
     const satellites = Array.from(this.satelliteDataService.getSatellites().values());
     const categoryMap = new Map<string, { name: string; description: string; count: number }>();
 
     // Initialize category info
-    const categoryDescriptions = {
+    const categoryDescriptions: Record<string, string> = {
       'earth-observation': 'Satellites monitoring Earth\'s surface, climate, and environment',
       'communication': 'Satellites providing telecommunications and internet services',
       'scientific': 'Research satellites for space exploration and scientific studies',
       'navigation': 'Satellites providing positioning and navigation services',
-      'weather': 'Satellites monitoring weather patterns and atmospheric conditions'
+      'weather': 'Satellites monitoring weather patterns and atmospheric conditions',
+      'station': 'Crewed space stations and the vehicles that visit them',
+      'military': 'Defence reconnaissance, early-warning and communication satellites',
+      'amateur': 'Amateur radio satellites and university CubeSats',
+      'other': 'Payloads whose mission is not recognised from their name',
+      'rocket-body': 'Spent upper stages and kick motors left in orbit',
+      'debris': 'Fragments, shrouds and other debris from breakups and launches',
+      'unknown': 'Objects not yet identified, such as pieces from recent launches',
+      'custom': 'Objects imported from your own TLE or OMM files'
     };
 
     satellites.forEach(satellite => {
-      const type = satellite.type;
-      if (!categoryMap.has(type)) {
-        categoryMap.set(type, {
-          name: this.formatCategoryName(type),
-          description: categoryDescriptions[type] || `${this.formatCategoryName(type)} satellites`,
+      const category = ObjectTaxonomy.getDisplayCategory(satellite);
+      if (!categoryMap.has(category)) {
+        categoryMap.set(category, {
+          name: ObjectTaxonomy.getLabel(category),
+          description: categoryDescriptions[category] || `${ObjectTaxonomy.getLabel(category)} satellites`,
           count: 0
         });
       }
-      categoryMap.get(type)!.count++;
+      categoryMap.get(category)!.count++;
     });
 
     return Array.from(categoryMap.entries()).map(([id, info]) => ({
@@ -55,17 +71,16 @@ export class SatelliteBrowserService {
    */
   browseByCategory(category: string, filters?: BrowserFilters): SatelliteBrowserResult {
     const allSatellites = Array.from(this.satelliteDataService.getSatellites().values());
-    let filteredSatellites = allSatellites.filter(satellite => satellite.type === category);
+    const categorySatellites = allSatellites.filter(satellite => ObjectTaxonomy.getDisplayCategory(satellite) === category);
 
     // Apply additional filters
-    if (filters) {
-      filteredSatellites = this.applyFilters(filteredSatellites, filters);
-    }
+    const filteredSatellites = filters ? this.applyFilters(categorySatellites, filters) : categorySatellites;
 
     return {
       satellites: filteredSatellites,
       totalCount: filteredSatellites.length,
-      category
+      category,
+      facets: this.getFacetCounts(categorySatellites, filters || {})
     };
   }
 
@@ -76,6 +91,14 @@ export class SatelliteBrowserService {
     return this.satelliteDataService.getSatellite(satelliteId);
   }
 
+  /**
+   * Get a satellite by its NORAD catalog number (events from element-set fetches only carry that)
+   */
+  getSatelliteByCatalogNumber(catalogNumber: string): SatelliteData | undefined {
+    return Array.from(this.satelliteDataService.getSatellites().values())
+      .find(satellite => ElementSetHistory.getCatalogNumber(satellite.tle1) === catalogNumber);
+  }
+
   /**
    * Search satellites with filters
    */
@@ -85,7 +108,8 @@ export class SatelliteBrowserService {
 
     return {
       satellites: filteredSatellites,
-      totalCount: filteredSatellites.length
+      totalCount: filteredSatellites.length,
+      facets: this.getFacetCounts(allSatellites, filters)
     };
   }
 
@@ -109,32 +133,68 @@ export class SatelliteBrowserService {
       );
     }
 
-    // Filter by type
+    // Filter by type: a mission category or an object class
     if (filters.type) {
-      filtered = filtered.filter(satellite => satellite.type === filters.type);
+      filtered = filtered.filter(satellite => satellite.type === filters.type || (satellite.objectClass || 'payload') === filters.type);
+    }
+
+    // Catalogue (SATCAT) filters: objects missing from the catalogue never match
+    if (filters.owner) {
+      const ownerFilter = filters.owner.toLowerCase();
+      filtered = filtered.filter(satellite => !!satellite.owner && (
+        satellite.owner.toLowerCase().includes(ownerFilter) ||
+        SatcatParser.getOwnerName(satellite.owner).toLowerCase().includes(ownerFilter)
+      ));
     }
 
-    // Note: Launch date filtering would require additional data in the satellite config
-    // For now, we'll leave this as a placeholder for future enhancement
+    if (filters.launchSite) {
+      const siteFilter = filters.launchSite.toLowerCase();
+      filtered = filtered.filter(satellite => !!satellite.launchSite && (
+        satellite.launchSite.toLowerCase().includes(siteFilter) ||
+        SatcatParser.getLaunchSiteName(satellite.launchSite).toLowerCase().includes(siteFilter)
+      ));
+    }
+
+    if (filters.operationalStatus) {
+      filtered = filtered.filter(satellite => satellite.operationalStatus === filters.operationalStatus);
+    }
+
+    if (filters.launchDateFrom || filters.launchDateTo) {
+      const from = filters.launchDateFrom?.getTime() ?? -Infinity;
+      const to = filters.launchDateTo?.getTime() ?? Infinity;
+      filtered = filtered.filter(satellite => {
+        const launched = satellite.launchDate?.getTime();
+        return launched !== undefined && launched >= from && launched <= to;
+      });
+    }
+
+    // Orbit filters, from the elements of each object's current element set
+    if (filters.regime || filters.altitude || filters.inclination || filters.period || filters.eccentricity) {
+      filtered = filtered.filter(satellite => {
+        const elements = this.getElements(satellite);
+        return !!elements &&
+          (!filters.regime || elements.regime === filters.regime) &&
+          this.isInRange(elements.perigeeAltitude, elements.apogeeAltitude, filters.altitude) &&
+          this.isInRange(elements.inclination, elements.inclination, filters.inclination) &&
+          this.isInRange(elements.period, elements.period, filters.period) &&
+          this.isInRange(elements.eccentricity, elements.eccentricity, filters.eccentricity);
+      });
+    }
 
     // Sort results
     if (filters.sortBy) {
+      const sortBy = filters.sortBy;
       filtered.sort((a, b) => {
-        let comparison = 0;
-        
-        switch (filters.sortBy) {
-          case 'name':
-            comparison = a.name.localeCompare(b.name);
-            break;
-          case 'type':
-            comparison = a.type.localeCompare(b.type);
-            break;
-          case 'launchDate':
-            // Placeholder for when launch date data is available
-            comparison = 0;
-            break;
+        // Objects without the sorted value go last in either order
+        const aValue = this.getSortValue(a, sortBy);
+        const bValue = this.getSortValue(b, sortBy);
+        if (aValue === undefined || bValue === undefined) {
+          return aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
         }
-        
+
+        const comparison = typeof aValue === 'string' && typeof bValue === 'string'
+          ? aValue.localeCompare(bValue)
+          : (aValue as number) - (bValue as number);
         return filters.sortOrder === 'desc' ? -comparison : comparison;
       });
     }
@@ -142,10 +202,50 @@ export class SatelliteBrowserService {
     return filtered;
   }
 
-  private formatCategoryName(category: string): string {
-    return category
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
+  /**
+   * Count each regime and operational status among the objects matching every other filter,
+   * so choosing one shows how many results it gives
+   */
+  private getFacetCounts(satellites: SatelliteData[], filters: BrowserFilters): FacetCounts {
+    const regime = Object.fromEntries(SatelliteBrowserService.ORBIT_REGIMES.map(id => [id, 0])) as Record<OrbitRegime, number>;
+    for (const satellite of this.applyFilters(satellites, { ...filters, regime: undefined, sortBy: undefined })) {
+      const elements = this.getElements(satellite);
+      if (elements) regime[elements.regime]++;
+    }
+
+    const operationalStatus: FacetCounts['operationalStatus'] = {};
+    for (const satellite of this.applyFilters(satellites, { ...filters, operationalStatus: undefined, sortBy: undefined })) {
+      if (satellite.operationalStatus) {
+        operationalStatus[satellite.operationalStatus] = (operationalStatus[satellite.operationalStatus] || 0) + 1;
+      }
+    }
+
+    return { regime, operationalStatus };
+  }
+
+  private getElements(satellite: SatelliteData): ClassicalElements | null {
+    const key = `${satellite.tle1}\n${satellite.tle2}`;
+    if (!this.elementsCache.has(key)) {
+      this.elementsCache.set(key, OrbitalElements.fromTLE(satellite.tle1, satellite.tle2));
+    }
+    return this.elementsCache.get(key)!;
+  }
+
+  /**
+   * Whether [low, high] lies within the range
+   */
+  private isInRange(low: number, high: number, range?: NumericRange): boolean {
+    return !range || ((range.min === undefined || low >= range.min) && (range.max === undefined || high <= range.max));
+  }
+
+  private getSortValue(satellite: SatelliteData, sortBy: BrowserSortField): string | number | undefined {
+    switch (sortBy) {
+      case 'name': return satellite.name;
+      case 'type': return satellite.type;
+      case 'owner': return satellite.owner && SatcatParser.getOwnerName(satellite.owner);
+      case 'launchDate': return satellite.launchDate?.getTime();
+      case 'rcs': return satellite.rcs;
+      case 'decayDate': return satellite.decayDate?.getTime();
+    }
   }
 }
\ No newline at end of file
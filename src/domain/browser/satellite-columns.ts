@@ -0,0 +1,98 @@
+import { SatelliteData } from '../../types/satellite';
+import { SatelliteCalculator } from '../../utils/satellite-calculator';
+import { ElementSetHistory } from '../../utils/element-set-history';
+import { OrbitalElements } from '../../utils/orbital-elements';
+import { ObjectTaxonomy } from '../../utils/object-taxonomy';
+import { TLEEpoch } from '../../utils/tle-epoch';
+
+export type SatelliteColumnId =
+  | 'id' | 'norad' | 'name' | 'type' | 'altitude' | 'velocity'
+  | 'inclination' | 'epochAge' | 'latitude' | 'longitude';
+
+/**
+ * One object's values for the table and exports, at a given time
+ */
+export interface SatelliteRow {
+  satellite: SatelliteData;
+  norad: string;
+  type: string;               // Display category label
+  altitude: number | null;    // km
+  velocity: number | null;    // km/s
+  inclination: number | null; // degrees
+  epochAge: number | null;    // days
+  latitude: number | null;    // degrees
+  longitude: number | null;   // degrees
+}
+
+export interface SatelliteColumn {
+  id: SatelliteColumnId;
+  label: string;
+  numeric: boolean;
+  getValue: (row: SatelliteRow) => string | number | null;
+  format: (row: SatelliteRow) => string;
+}
+
+/**
+ * Columns of the browser table and exports, and the rows they read from
+ */
+export class SatelliteColumns {
+  static readonly ALL: SatelliteColumn[] = [
+    { id: 'id', label: 'ID', numeric: false, getValue: row => row.satellite.id, format: row => row.satellite.id },
+    { id: 'norad', label: 'NORAD', numeric: true, getValue: row => parseInt(row.norad, 10) || null, format: row => row.norad },
+    { id: 'name', label: 'Name', numeric: false, getValue: row => row.satellite.name, format: row => row.satellite.name },
+    { id: 'type', label: 'Type', numeric: false, getValue: row => row.type, format: row => row.type },
+    { id: 'altitude', label: 'Altitude (km)', numeric: true, getValue: row => row.altitude, format: row => SatelliteColumns.formatNumber(row.altitude, 0) },
+    { id: 'velocity', label: 'Velocity (km/s)', numeric: true, getValue: row => row.velocity, format: row => SatelliteColumns.formatNumber(row.velocity, 2) },
+    { id: 'inclination', label: 'Inclination (°)', numeric: true, getValue: row => row.inclination, format: row => SatelliteColumns.formatNumber(row.inclination, 2) },
+    { id: 'epochAge', label: 'Epoch age', numeric: true, getValue: row => row.epochAge, format: row => row.epochAge === null ? '—' : TLEEpoch.formatAge(row.epochAge) },
+    { id: 'latitude', label: 'Latitude (°)', numeric: true, getValue: row => row.latitude, format: row => SatelliteColumns.formatNumber(row.latitude, 3) },
+    { id: 'longitude', label: 'Longitude (°)', numeric: true, getValue: row => row.longitude, format: row => SatelliteColumns.formatNumber(row.longitude, 3) }
+  ];
+
+  static readonly DEFAULT_VISIBLE: SatelliteColumnId[] = ['norad', 'name', 'type', 'altitude', 'velocity', 'inclination', 'epochAge'];
+
+  static get(id: SatelliteColumnId): SatelliteColumn | undefined {
+    return this.ALL.find(column => column.id === id);
+  }
+
+  /**
+   * @param time Propagate to this time, normally the simulation clock's, which also dates the element-set age
+   */
+  static toRow(satellite: SatelliteData, time: Date): SatelliteRow {
+    const result = SatelliteCalculator.propagate(satellite.tle1, satellite.tle2, time);
+    const position = result.failure ? null : result.position;
+
+    const finite = (value: number | undefined) => value !== undefined && Number.isFinite(value) ? value : null;
+    return {
+      satellite,
+      norad: ElementSetHistory.getCatalogNumber(satellite.tle1),
+      type: ObjectTaxonomy.getLabel(ObjectTaxonomy.getDisplayCategory(satellite)),
+      altitude: finite(position?.altitude),
+      velocity: finite(position?.velocity),
+      inclination: OrbitalElements.fromTLE(satellite.tle1, satellite.tle2)?.inclination ?? null,
+      epochAge: TLEEpoch.getAgeDays(satellite.tle1, time.getTime()),
+      latitude: finite(position?.latitude),
+      longitude: finite(position?.longitude)
+    };
+  }
+
+  /**
+   * Compare rows by a column; empty values go last in either order
+   */
+  static compare(a: SatelliteRow, b: SatelliteRow, column: SatelliteColumn, order: 'asc' | 'desc'): number {
+    const aValue = column.getValue(a);
+    const bValue = column.getValue(b);
+    if (aValue === null || bValue === null) {
+      return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+    }
+
+    const comparison = typeof aValue === 'string' && typeof bValue === 'string'
+      ? aValue.localeCompare(bValue)
+      : (aValue as number) - (bValue as number);
+    return order === 'desc' ? -comparison : comparison;
+  }
+
+  private static formatNumber(value: number | null, decimals: number): string {
+    return value === null ? '—' : value.toFixed(decimals);
+  }
+}
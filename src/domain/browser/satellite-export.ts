@@ -0,0 +1,56 @@
+import { SatelliteColumn, SatelliteRow } from './satellite-columns';
+
+/**
+ * Exports of a browser result set: CSV for spreadsheets, JSON, and GeoJSON points at the sub-satellite
+ * positions for GIS tools. Rows should be computed at the export time (SatelliteColumns.toRow).
+ */
+export class SatelliteExport {
+  static toCSV(rows: SatelliteRow[], columns: SatelliteColumn[]): string {
+    const lines = rows.map(row => columns.map(column => this.escapeCsv(this.getExportValue(row, column))).join(','));
+    return [columns.map(column => column.id).join(','), ...lines].join('\r\n') + '\r\n';
+  }
+
+  static toJSON(rows: SatelliteRow[], columns: SatelliteColumn[], time: Date): string {
+    return JSON.stringify({
+      time: time.toISOString(),
+      count: rows.length,
+      satellites: rows.map(row => this.toProperties(row, columns))
+    }, null, 2);
+  }
+
+  /**
+   * A FeatureCollection of points; objects without a position (decayed, invalid) are left out
+   */
+  static toGeoJSON(rows: SatelliteRow[], columns: SatelliteColumn[], time: Date): string {
+    const features = rows
+      .filter(row => row.latitude !== null && row.longitude !== null)
+      .map(row => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: [Number(row.longitude!.toFixed(6)), Number(row.latitude!.toFixed(6))]
+        },
+        properties: { ...this.toProperties(row, columns), time: time.toISOString() }
+      }));
+
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+  }
+
+  private static toProperties(row: SatelliteRow, columns: SatelliteColumn[]): Record<string, string | number | null> {
+    return Object.fromEntries(columns.map(column => [column.id, this.getExportValue(row, column)]));
+  }
+
+  /**
+   * Raw values rather than the table's display text, except for the NORAD ID which keeps its form
+   */
+  private static getExportValue(row: SatelliteRow, column: SatelliteColumn): string | number | null {
+    if (column.id === 'norad') return row.norad;
+    const value = column.getValue(row);
+    return typeof value === 'number' ? Number(value.toFixed(6)) : value;
+  }
+
+  private static escapeCsv(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -1,3 +1,6 @@
+import { OperationalStatus } from '../../types/satellite';
+import { OrbitRegime } from '../../utils/orbital-elements';
+
 export interface CategoryInfo {
   id: string;
   name: string;
@@ -5,17 +8,44 @@ export interface CategoryInfo {
   count: number;
 }
 
+/**
+ * Inclusive range; a missing bound is open
+ */
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type BrowserSortField = 'name' | 'launchDate' | 'type' | 'owner' | 'rcs' | 'decayDate';
+
 export interface BrowserFilters {
   name?: string;
   type?: string;
+  owner?: string;      // SATCAT owner code or name, partial match
+  launchSite?: string; // SATCAT launch site code or name, partial match
+  operationalStatus?: OperationalStatus;
   launchDateFrom?: Date;
   launchDateTo?: Date;
-  sortBy?: 'name' | 'launchDate' | 'type';
+  regime?: OrbitRegime;
+  altitude?: NumericRange;     // km; the whole orbit, perigee to apogee, lies in the range
+  inclination?: NumericRange;  // degrees
+  period?: NumericRange;       // minutes
+  eccentricity?: NumericRange;
+  sortBy?: BrowserSortField;
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * How many results each facet value would give, with every other filter applied
+ */
+export interface FacetCounts {
+  regime: Record<OrbitRegime, number>;
+  operationalStatus: Partial<Record<OperationalStatus, number>>;
+}
+
 export interface SatelliteBrowserResult {
   satellites: import('../../types/satellite').SatelliteData[];
   totalCount: number;
   category?: string;
+  facets?: FacetCounts;
 }
\ No newline at end of file
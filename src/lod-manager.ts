@@ -15,7 +15,8 @@ export interface ViewportInfo {
 export interface SatelliteForLOD {
   id: string;
   position: LngLat;
-  type: string;
+  type: string;         // Mission category
+  objectClass?: string; // Payload when absent
   dimensions: { width: number };
   isFollowed: boolean;
   hasImage: boolean;
@@ -59,15 +60,11 @@ export class LODManager {
     const { zoom, bounds } = viewport;
     const skipFactor = this.getSkipFactor(zoom, performanceSkip);
     
-    // Priority filtering: Always show followed satellite and ISS
-    const prioritySatellites = satellites.filter(sat => 
-      sat.isFollowed || sat.id === 'iss-zarya'
-    );
+    // Priority filtering: Always show followed satellite, ISS and other crewed stations
+    const prioritySatellites = satellites.filter(sat => this.isPrioritySatellite(sat));
 
     // Get regular satellites (excluding priority ones)
-    const regularSatellites = satellites.filter(sat => 
-      !sat.isFollowed && sat.id !== 'iss-zarya'
-    );
+    const regularSatellites = satellites.filter(sat => !this.isPrioritySatellite(sat));
 
     // Apply viewport culling first (most expensive filter)
     const culledSatellites = this.frustumCullingEnabled ? 
@@ -120,6 +117,20 @@ export class LODManager {
     return 15; // Tight margin for high zoom
   }
 
+  private isPrioritySatellite(sat: SatelliteForLOD): boolean {
+    return sat.isFollowed || sat.id === 'iss-zarya' || sat.type === 'station';
+  }
+
+  // Debris and rocket bodies are thinned out harder than payloads when zoomed out
+  private getClassSkipMultiplier(sat: SatelliteForLOD): number {
+    switch (sat.objectClass) {
+      case 'debris': return 4;
+      case 'rocket-body':
+      case 'unknown': return 2;
+      default: return 1;
+    }
+  }
+
   private applyLODSkip(satellites: SatelliteForLOD[], skipFactor: number): SatelliteForLOD[] {
     if (skipFactor <= 1) return satellites;
 
@@ -127,7 +138,7 @@ export class LODManager {
     return satellites.filter((sat) => {
       // Hash the satellite ID for consistent pseudo-random distribution
       const hash = this.hashString(sat.id);
-      return hash % skipFactor === 0;
+      return hash % (skipFactor * this.getClassSkipMultiplier(sat)) === 0;
     });
   }
 
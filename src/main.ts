@@ -5,28 +5,63 @@ import { URLState } from './url-state';
 import { CommandPalette } from './command-palette';
 import { SearchComponent } from './components/search.component';
 import { CockpitComponent } from './components/cockpit.component';
+import { TimelineComponent } from './components/timeline.component';
+import { LayerControlsComponent } from './components/layer-controls.component';
+import { ConjunctionComponent, ConjunctionScreeningSettings } from './components/conjunction.component';
+import { ElementImportComponent } from './components/element-import.component';
+import { ContactScheduleComponent } from './components/contact-schedule.component';
+import { OverpassFinderComponent, OverpassSearchSettings } from './components/overpass-finder.component';
 import { SEOManager } from './seo-manager';
-import { SolarCalculator } from './utils/solar-calculator';
+import { PassPredictor } from './utils/pass-predictor';
+import { ContactScheduler, ContactWindow } from './utils/contact-scheduler';
+import { GROUND_STATIONS } from './config/ground-stations';
+import { AreaOfInterest, AreaOfInterestGeometry } from './utils/area-of-interest';
+import { Overpass, OverpassCandidate, OverpassFinder } from './utils/overpass-finder';
+import { SatellitePass } from './types/satellite';
+import { observerService } from './services/observer.service';
+import { simulationClock } from './simulation-clock';
+import { EclipseCalculator, EclipseStatus } from './utils/eclipse-calculator';
+import { TerminatorOverlay } from './rendering/terminator-overlay';
+import { conjunctionService, ScreeningProgress } from './services/conjunction.service';
+import { customObjectsService } from './services/custom-objects.service';
+import { elementSetHistoryService } from './services/element-set-history.service';
 
 class SatelliteTracker3D {
+  private static readonly TERMINATOR_UPDATE_INTERVAL_MS = 60 * 1000; // Simulation time between terminator redraws
+  private static readonly CONTACT_SCHEDULE_HOURS = 24; // Span of the ground station contact schedule
+
   private map!: MapLibreMap;
   private satelliteTracker!: DeckSatelliteTracker;
-  private isDayMode = true;
-  private autoNightMode = false; // Auto switch based on satellite position
+  private terminatorOverlay!: TerminatorOverlay;
   private isGlobeMode = true; // Start with globe projection
   private urlState = new URLState();
   private commandPalette!: CommandPalette;
   private searchComponent!: SearchComponent;
   private _cockpitComponent!: CockpitComponent;
+  private timelineComponent!: TimelineComponent;
+  private layerControlsComponent!: LayerControlsComponent;
+  private conjunctionComponent!: ConjunctionComponent;
+  private elementImportComponent!: ElementImportComponent;
+  private contactScheduleComponent!: ContactScheduleComponent;
+  private overpassFinderComponent!: OverpassFinderComponent;
+  private areaOfInterest: AreaOfInterest | null = null;
   private initialZoom!: number;
   private isInitializing = true;
   private lastURLState = { zoom: 0, pitch: 0, bearing: 0, satellite: '' }; // Track URL-relevant changes
   private lastFollowingSatellite: string | null = null; // Track when satellite changes
+  private eclipseStatus: { satelliteId: string; status: EclipseStatus | null; computedAt: number } | null = null; // Cached shadow entry/exit for the tracked satellite
+  private nextPass: { satelliteId: string; pass: SatellitePass | null; computedAt: number } | null = null; // Cached next pass for the tracked satellite
+  private contactSchedule: { satelliteId: string; contacts: ContactWindow[]; computedAt: number } | null = null; // Cached ground station contacts for the tracked satellite
 
   constructor() {
     this.initializeMap();
     this.satelliteTracker = new DeckSatelliteTracker(this.map);
-    this.satelliteTracker.setOnTrackingChangeCallback(() => this.updateURL());
+    this.satelliteTracker.setOnTrackingChangeCallback(() => {
+      this.updateURL();
+      this.syncLayerControls();
+      this.updateConjunctionTarget();
+      this.updateContactSchedule(this.satelliteTracker.getFollowingSatellite());
+    });
     this.satelliteTracker.setOnSatellitesLoadedCallback(() => {
       // Refresh command palette when satellites are loaded
       this.commandPalette?.refreshSatelliteList();
@@ -36,6 +71,12 @@ class SatelliteTracker3D {
     this.setupCommandPalette();
     this.setupSearchComponent();
     this.setupCockpitComponent();
+    this.setupTimelineComponent();
+    this.setupLayerControlsComponent();
+    this.setupConjunctionComponent();
+    this.setupContactSchedule();
+    this.setupOverpassFinder();
+    this.setupElementImport();
     this.startTracking();
     
     // Temporary debugging - expose tracker to console
@@ -72,6 +113,7 @@ class SatelliteTracker3D {
       dragRotate: false, // Disable default drag rotate
       touchPitch: false // Disable touch pitch
     });
+    this.terminatorOverlay = new TerminatorOverlay(this.map);
 
     // Disable MapLibre navigation control to avoid conflicts with Deck.gl
     // We'll handle pitch separately through the custom slider
@@ -91,9 +133,10 @@ class SatelliteTracker3D {
       }
     }, 100);
     
-    // Initialize with day basemap
+    // Initialize with day basemap and the day/night terminator on top of it
     this.map.on('load', () => {
       this.addDayBasemap();
+      this.updateTerminator(true);
       this.add3DTerrain();
       
       // Apply working pitch override from test page
@@ -110,9 +153,6 @@ class SatelliteTracker3D {
   }
 
   private addDayBasemap() {
-    // Remove night basemap if it exists
-    this.removeNightBasemap();
-    
     // Add Esri World Imagery as day basemap source and layer
     if (!this.map.getSource('esri-world-imagery')) {
       this.map.addSource('esri-world-imagery', {
@@ -134,49 +174,6 @@ class SatelliteTracker3D {
     }
   }
 
-  private addNightBasemap() {
-    // Remove day basemap if it exists
-    this.removeDayBasemap();
-    
-    // Add night basemap source and layer
-    if (!this.map.getSource('nasa-night')) {
-      this.map.addSource('nasa-night', {
-        type: 'raster',
-        tiles: ['https://map1.vis.earthdata.nasa.gov/wmts-webmerc/VIIRS_CityLights_2012/default/{time}/GoogleMapsCompatible_Level8/{z}/{y}/{x}.jpg'],
-        tileSize: 256,
-        minzoom: 1,
-        maxzoom: 8,
-        attribution: 'Imagery provided by services from the Global Imagery Browse Services (GIBS), operated by the NASA/GSFC/Earth Science Data and Information System (<a href="https://earthdata.nasa.gov">ESDIS</a>) with funding provided by NASA/HQ.'
-      });
-    }
-    
-    if (!this.map.getLayer('nasa-night')) {
-      this.map.addLayer({
-        id: 'nasa-night',
-        type: 'raster',
-        source: 'nasa-night'
-      }, this.getFirstSatelliteLayerId());
-    }
-  }
-
-  private removeDayBasemap() {
-    if (this.map.getLayer('esri-world-imagery')) {
-      this.map.removeLayer('esri-world-imagery');
-    }
-    if (this.map.getSource('esri-world-imagery')) {
-      this.map.removeSource('esri-world-imagery');
-    }
-  }
-
-  private removeNightBasemap() {
-    if (this.map.getLayer('nasa-night')) {
-      this.map.removeLayer('nasa-night');
-    }
-    if (this.map.getSource('nasa-night')) {
-      this.map.removeSource('nasa-night');
-    }
-  }
-
   private add3DTerrain() {
     try {
       // Add terrain source using Terrarium terrain data (free)
@@ -329,16 +326,6 @@ class SatelliteTracker3D {
 
   private setupEventListeners() {
 
-    // Handle night mode toggle from the new simplified cockpit
-    document.addEventListener('nightModeToggle', () => {
-      this.toggleBasemap();
-    });
-    
-    // Handle auto night mode toggle
-    document.addEventListener('autoNightModeToggle', () => {
-      this.toggleAutoNightMode();
-    });
-    
     // Add keyboard shortcut for projection toggle
     document.addEventListener('keydown', (e) => {
       // Only respond to shortcuts if no input elements are focused
@@ -371,6 +358,7 @@ class SatelliteTracker3D {
       if (e.key === 'Escape') {
         e.preventDefault();
         this.satelliteTracker.stopFollowing();
+        this.satelliteTracker.clearComparisonSatellites();
       }
       
       // B key to reset bearing to automatic mode
@@ -381,75 +369,91 @@ class SatelliteTracker3D {
         }
       }
       
-      // N key to toggle auto night mode
+      // O key to toggle orbit ground tracks
+      if (e.key === 'o' || e.key === 'O') {
+        if (!e.ctrlKey && !e.metaKey) {
+          e.preventDefault();
+          this.satelliteTracker.toggleOrbits();
+          this.syncLayerControls();
+        }
+      }
+      
+      // Space to pause/resume the simulation clock, on the map only; focused controls keep Space for themselves
+      if (e.key === ' ' && this.isMapViewActive() && !this.isInteractiveTarget(e.target)) {
+        e.preventDefault();
+        this.satelliteTracker.togglePause();
+      }
+      
+      // V key to toggle the coverage footprint of the tracked satellite
+      if (e.key === 'v' || e.key === 'V') {
+        if (!e.ctrlKey && !e.metaKey) {
+          e.preventDefault();
+          const followingSatellite = this.satelliteTracker.getFollowingSatellite();
+          this.setTrackedCoverage(!followingSatellite || !this.satelliteTracker.isCoverageSatelliteEnabled(followingSatellite));
+        }
+      }
+      
+      // N key to toggle the day/night terminator
       if (e.key === 'n' || e.key === 'N') {
         if (!e.ctrlKey && !e.metaKey) {
           e.preventDefault();
-          this.toggleAutoNightMode();
+          this.toggleTerminator();
         }
       }
     });
+
+    // Satellites compared in the browser, drawn with their ground tracks in the comparison colours
+    document.addEventListener('compare-on-map', (e) => {
+      const { satelliteIds } = (e as CustomEvent<{ satelliteIds: string[] }>).detail;
+      this.satelliteTracker.setComparisonSatellites(satelliteIds);
+    });
     
     
     // Add custom Ctrl+drag pitch handling that uses MapLibre directly
     this.setupCustomPitchControl();
   }
 
-  private toggleBasemap() {
-    // Note: This manual toggle will be overridden by automatic switching
-    this.isDayMode = !this.isDayMode;
-    if (this.isDayMode) {
-      this.addDayBasemap();
-      this.showMessage('☀️ Day basemap enabled (will auto-switch based on satellite)', 'info');
-    } else {
-      this.addNightBasemap();
-      this.showMessage('🌙 Night basemap enabled (will auto-switch based on satellite)', 'info');
-    }
+  // The browser view hides the map container while it is open
+  private isMapViewActive(): boolean {
+    return this.map.getContainer().style.display !== 'none';
   }
 
-  private toggleAutoNightMode() {
-    this.autoNightMode = !this.autoNightMode;
-    if (this.autoNightMode) {
-      this.showMessage('🌍 Auto night mode enabled', 'info');
-      this.updateBasemapForSatellite(); // Update immediately
-    } else {
-      this.showMessage('🌍 Auto night mode disabled', 'info');
-    }
+  private isInteractiveTarget(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return !!element && (['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(element.tagName) || element.isContentEditable);
   }
 
-  private updateBasemapForSatellite() {
-    // Always update basemap based on satellite's local time (no flag needed)
-
+  // Coverage footprint of the tracked satellite (other satellites keep their own setting)
+  private setTrackedCoverage(enabled: boolean) {
     const followingSatellite = this.satelliteTracker.getFollowingSatellite();
-    if (!followingSatellite) return;
-
-    const satellites = this.satelliteTracker.getSatellites();
-    const satellite = satellites.get(followingSatellite);
-    
-    if (satellite && satellite.position) {
-      const currentTime = new Date();
-      const localTime = SolarCalculator.getLocalTime(satellite.position.lng, currentTime);
-      const solarElevation = SolarCalculator.calculateSolarElevation(
-        satellite.position.lat,
-        satellite.position.lng,
-        currentTime
-      );
-      const isNight = solarElevation < 0;
-
-      // Only change basemap if the day/night state has changed
-      if (isNight !== !this.isDayMode) {
-        this.isDayMode = !isNight;
-        if (this.isDayMode) {
-          this.addDayBasemap();
-          console.log(`🌍 AUTO-SWITCHED to DAY basemap for ${satellite.name || followingSatellite} (local time: ${localTime}, solar elevation: ${solarElevation.toFixed(1)}°)`);
-        } else {
-          this.addNightBasemap();
-          console.log(`🌙 AUTO-SWITCHED to NIGHT basemap for ${satellite.name || followingSatellite} (local time: ${localTime}, solar elevation: ${solarElevation.toFixed(1)}°)`);
-        }
-      }
+    if (!followingSatellite) {
+      this.showMessage('📡 Track a satellite to show its coverage footprint', 'info');
+      this.syncLayerControls();
+      return;
     }
+    this.satelliteTracker.setCoverageSatelliteEnabled(followingSatellite, enabled);
+    this.syncLayerControls();
   }
 
+  private toggleTerminator() {
+    const visible = !this.terminatorOverlay.isVisible();
+    this.terminatorOverlay.setVisible(visible);
+    this.layerControlsComponent.setTerminatorState(visible);
+    this.showMessage(visible ? '🌗 Day/night terminator shown' : '🌗 Day/night terminator hidden', 'info');
+  }
+
+  /**
+   * Redraw the terminator for the current simulation time
+   * @param force Redraw even if the simulation time barely moved since the last update
+   */
+  private updateTerminator(force: boolean = false) {
+    // The terminator moves about 0.25° per minute - skip redraws until it has visibly shifted
+    const now = simulationClock.now();
+    if (!force && Math.abs(now - this.terminatorOverlay.getLastUpdateTime()) < SatelliteTracker3D.TERMINATOR_UPDATE_INTERVAL_MS) {
+      return;
+    }
+    this.terminatorOverlay.update(new Date(now), this.getFirstSatelliteLayerId());
+  }
 
   private startTracking() {
     this.map.on('load', () => {
@@ -459,6 +463,8 @@ class SatelliteTracker3D {
       
       // Enable external satellite loading for search functionality
       this.satelliteTracker.enableExternalSatelliteLoading();
+      // Restore imported objects before tracking, so a shared my-... link resolves
+      this.satelliteTracker.setCustomObjects(customObjectsService.getObjects());
       // Keep showing only tracked satellite for performance
       this.satelliteTracker.setShowTrackedSatelliteOnly(true);
       
@@ -577,8 +583,12 @@ class SatelliteTracker3D {
       this.updateUI();
       setInterval(() => {
         this.updateUI();
-        this.updateBasemapForSatellite(); // Check for day/night changes
       }, 5000);
+      // Look angles and range-rate change quickly during a pass; the terminator moves fast at high playback speeds
+      setInterval(() => {
+        this.updateTrackedStatus();
+        this.updateTerminator();
+      }, 1000);
     });
   }
 
@@ -638,6 +648,9 @@ class SatelliteTracker3D {
       },
       loadSearchDatabase: async () => {
         await this.satelliteTracker.loadAllSatellitesForSearch();
+      },
+      onImportElements: (text: string) => {
+        this.importElements(text, 'pasted text');
       }
     });
   }
@@ -663,8 +676,371 @@ class SatelliteTracker3D {
     this._cockpitComponent = new CockpitComponent();
     // Pass the command palette instance so it can open it
     this._cockpitComponent.setCommandPalette(this.commandPalette);
-    // Reference it to satisfy TypeScript unused variable check
-    void this._cockpitComponent;
+    this._cockpitComponent.setObserverService(observerService);
+
+    // Refresh look angles and pass predictions as soon as the observer moves
+    observerService.addEventListener('observer-changed', () => {
+      this.nextPass = null;
+      this.updateUI();
+    });
+  }
+
+  private setupTimelineComponent() {
+    this.timelineComponent = new TimelineComponent(simulationClock);
+    // Pausing goes through the tracker so the user gets the same feedback as the keyboard shortcut
+    this.timelineComponent.setCallbacks({
+      onTogglePause: () => this.satelliteTracker.togglePause()
+    });
+
+    // A jump in simulation time invalidates the cached pass and look angles
+    simulationClock.addEventListener('clock-changed', () => {
+      this.nextPass = null;
+      this.eclipseStatus = null;
+      this.contactSchedule = null;
+      this.updateUI();
+      this.updateTerminator(true);
+    });
+  }
+
+  private setupLayerControlsComponent() {
+    this.layerControlsComponent = new LayerControlsComponent();
+    this.layerControlsComponent.setCallbacks({
+      onOrbitsToggled: (enabled) => this.satelliteTracker.setShowOrbits(enabled),
+      onOrbitRevolutionsChanged: (ahead, behind) => this.satelliteTracker.setOrbitRevolutions(ahead, behind),
+      onOrbitIlluminationToggled: (enabled) => this.satelliteTracker.setColorOrbitsByIllumination(enabled),
+      onCoverageTrackedToggled: (enabled) => this.setTrackedCoverage(enabled),
+      onCoverageTypeToggled: (type, enabled) => this.satelliteTracker.setCoverageTypeEnabled(type, enabled),
+      onCoverageElevationChanged: (degrees) => this.satelliteTracker.setCoverageMinElevation(degrees),
+      onSwathsToggled: (enabled) => this.satelliteTracker.setShowSwaths(enabled),
+      onTerminatorToggled: (enabled) => this.terminatorOverlay.setVisible(enabled),
+      onTleAgeColorToggled: (enabled) => this.satelliteTracker.setColorByTleAge(enabled),
+      onMaxTleAgeChanged: (days) => this.satelliteTracker.setMaxTleAgeDays(days),
+      onCustomObjectsToggled: (enabled) => this.satelliteTracker.setSatelliteTypeEnabled('custom', enabled),
+      onClearCustomObjects: () => {
+        customObjectsService.clear();
+        this.showMessage('📂 My objects cleared', 'info');
+      }
+    });
+    this.syncLayerControls();
+  }
+
+  private syncLayerControls() {
+    const revolutions = this.satelliteTracker.getOrbitRevolutions();
+    this.layerControlsComponent.setOrbitState(
+      this.satelliteTracker.getShowOrbits(),
+      revolutions.ahead,
+      revolutions.behind,
+      this.satelliteTracker.getColorOrbitsByIllumination()
+    );
+    const followingSatellite = this.satelliteTracker.getFollowingSatellite();
+    this.layerControlsComponent.setCoverageState(
+      !!followingSatellite && this.satelliteTracker.isCoverageSatelliteEnabled(followingSatellite),
+      this.satelliteTracker.getCoverageTypes(),
+      this.satelliteTracker.getCoverageMinElevation()
+    );
+    this.layerControlsComponent.setSwathState(this.satelliteTracker.getShowSwaths());
+    this.layerControlsComponent.setTleAgeState(
+      this.satelliteTracker.getColorByTleAge(),
+      this.satelliteTracker.getMaxTleAgeDays()
+    );
+    this.layerControlsComponent.setCustomObjectsState(
+      this.satelliteTracker.isSatelliteTypeEnabled('custom'),
+      customObjectsService.getObjects().length
+    );
+  }
+
+  private setupElementImport() {
+    this.elementImportComponent = new ElementImportComponent();
+    this.elementImportComponent.setCallbacks({
+      onImportText: (text, sourceName) => this.importElements(text, sourceName)
+    });
+
+    // Keep the "My objects" group on the map in step with imports and removals
+    customObjectsService.addEventListener('custom-objects-changed', () => {
+      this.satelliteTracker.setCustomObjects(customObjectsService.getObjects());
+      this.syncLayerControls();
+    });
+  }
+
+  /**
+   * Add element sets from a dropped file or pasted text to "My objects" and track the first one
+   */
+  private importElements(text: string, sourceName: string) {
+    const result = customObjectsService.importText(text);
+    // Older epochs in the file (e.g. an archive) become history, for catalogue satellites too
+    const history = elementSetHistoryService.importArchive(text);
+    const imported = [...result.added, ...result.updated];
+    const firstRejection = result.rejected[0];
+
+    if (imported.length === 0) {
+      const reason = firstRejection ? `: ${firstRejection.name} - ${firstRejection.reason}` : '';
+      this.showMessage(`⚠️ No valid element sets in ${sourceName}${reason}`, 'error');
+      return;
+    }
+
+    const parts = [`${result.added.length} added`];
+    if (result.updated.length > 0) parts.push(`${result.updated.length} updated`);
+    if (result.rejected.length > 0) parts.push(`${result.rejected.length} rejected (${firstRejection.name} - ${firstRejection.reason})`);
+    if (history.elementSets > imported.length) parts.push(`history for ${history.objects} objects`);
+    this.showMessage(`📂 My objects: ${parts.join(', ')}`, result.rejected.length > 0 ? 'warning' : 'success');
+    console.log(`📂 Imported ${imported.length} element sets from ${sourceName} (${result.format})`, result.rejected);
+
+    this.satelliteTracker.setSatelliteTypeEnabled('custom', true);
+    this.syncLayerControls();
+    this.satelliteTracker.followSatellite(imported[0].id);
+    this.updateSEOForSatellite(imported[0].id);
+  }
+
+  private setupConjunctionComponent() {
+    this.conjunctionComponent = new ConjunctionComponent();
+    this.conjunctionComponent.setCallbacks({
+      onScreen: (settings) => this.runConjunctionScreening(settings),
+      onCancel: () => conjunctionService.cancel(),
+      onSelectEvent: (event) => this.satelliteTracker.showConjunction(event),
+      onClearSelection: () => this.satelliteTracker.clearConjunctionHighlight()
+    });
+
+    conjunctionService.addEventListener('screening-progress', (e: Event) => {
+      const progress = (e as CustomEvent<ScreeningProgress>).detail;
+      this.conjunctionComponent.setProgress(progress.completed, progress.total);
+    });
+    this.updateConjunctionTarget();
+  }
+
+  private updateConjunctionTarget() {
+    const followingSatellite = this.satelliteTracker.getFollowingSatellite();
+    const target = followingSatellite ? this.satelliteTracker.getSatellites().get(followingSatellite) : undefined;
+    this.conjunctionComponent.setTarget(target ? target.name : null);
+  }
+
+  /**
+   * Screen the tracked satellite against the loaded catalogue, starting at the current simulation time
+   */
+  private async runConjunctionScreening(settings: ConjunctionScreeningSettings) {
+    const followingSatellite = this.satelliteTracker.getFollowingSatellite();
+    const target = followingSatellite ? this.satelliteTracker.getSatellites().get(followingSatellite) : undefined;
+    if (!target || !target.tle1 || !target.tle2) {
+      this.conjunctionComponent.setStatus('Track a satellite to use it as the screening target', true);
+      return;
+    }
+
+    this.conjunctionComponent.setRunning(true);
+    try {
+      // Screening needs the catalogue, which is otherwise only loaded for search
+      await this.satelliteTracker.loadAllSatellitesForSearch();
+      const candidates = Array.from(this.satelliteTracker.getSearchDatabase().values())
+        .filter(sat => sat.tle1 && sat.tle2)
+        .map(sat => ({ id: sat.id, name: sat.name, tle1: sat.tle1, tle2: sat.tle2 }));
+
+      const events = await conjunctionService.screen(
+        { id: target.id, name: target.name, tle1: target.tle1, tle2: target.tle2 },
+        candidates,
+        { start: simulationClock.now(), durationHours: settings.durationHours, thresholdKm: settings.thresholdKm }
+      );
+      this.conjunctionComponent.setResults(events, candidates.length);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.conjunctionComponent.setStatus(message === 'Screening cancelled' ? 'Screening cancelled' : `Screening failed: ${message}`, message !== 'Screening cancelled');
+    } finally {
+      this.conjunctionComponent.setRunning(false);
+    }
+  }
+
+  private setupContactSchedule() {
+    this.contactScheduleComponent = new ContactScheduleComponent();
+    this.satelliteTracker.setGroundStations(GROUND_STATIONS);
+    this.contactScheduleComponent.setCallbacks({
+      onPanelToggled: () => this.updateContactSchedule(this.satelliteTracker.getFollowingSatellite()),
+      onShowStationsToggled: (enabled) => {
+        this.satelliteTracker.setShowGroundStations(enabled);
+        this.updateContactSchedule(this.satelliteTracker.getFollowingSatellite());
+      },
+      // Jump to the start of the contact so its line of sight is on the map
+      onSelectContact: (contact) => simulationClock.setTime(contact.pass.riseTime)
+    });
+    this.contactScheduleComponent.setShowStations(this.satelliteTracker.getShowGroundStations());
+  }
+
+  /**
+   * Contacts of the tracked satellite with every ground station over the next day, while the schedule
+   * or the stations are shown
+   */
+  private updateContactSchedule(followingSatellite: string | null) {
+    const trackedSatellite = followingSatellite ? this.satelliteTracker.getSatellites().get(followingSatellite) : undefined;
+    if (!followingSatellite || !trackedSatellite) {
+      this.contactSchedule = null;
+      this.satelliteTracker.clearContactSchedule();
+      this.contactScheduleComponent.setTarget(null);
+      return;
+    }
+
+    this.contactScheduleComponent.setTarget(trackedSatellite.name);
+    if (!this.contactScheduleComponent.isOpen() && !this.satelliteTracker.getShowGroundStations()) {
+      return;
+    }
+
+    // Recompute when the tracked satellite changes, and hourly so the schedule keeps covering the next day
+    const now = simulationClock.now();
+    const cached = this.contactSchedule;
+    const isStale = !cached ||
+      cached.satelliteId !== followingSatellite ||
+      now < cached.computedAt ||
+      now - cached.computedAt > 60 * 60 * 1000;
+
+    if (isStale) {
+      const contacts = ContactScheduler.computeContacts(trackedSatellite.tle1, trackedSatellite.tle2, GROUND_STATIONS, {
+        start: new Date(now),
+        durationHours: SatelliteTracker3D.CONTACT_SCHEDULE_HOURS
+      });
+      this.contactSchedule = { satelliteId: followingSatellite, contacts, computedAt: now };
+      this.satelliteTracker.setContactSchedule(followingSatellite, contacts);
+      this.contactScheduleComponent.setSchedule(GROUND_STATIONS, contacts, now, SatelliteTracker3D.CONTACT_SCHEDULE_HOURS);
+    }
+
+    this.contactScheduleComponent.setNow(now);
+  }
+
+  private setupOverpassFinder() {
+    this.overpassFinderComponent = new OverpassFinderComponent();
+    this.overpassFinderComponent.setCallbacks({
+      onPanelToggled: (open) => {
+        if (open) this.refreshOverpassCandidates();
+      },
+      onDrawArea: (mode) => {
+        this.overpassFinderComponent.setDrawing(mode);
+        this.satelliteTracker.startAreaDrawing(mode, (area) => {
+          this.overpassFinderComponent.setDrawing(null);
+          this.setAreaOfInterest(area);
+        });
+      },
+      onFinishDrawing: () => {
+        if (!this.satelliteTracker.finishAreaDrawing()) {
+          this.overpassFinderComponent.setStatus('Place at least three vertices', true);
+        }
+      },
+      onCancelDrawing: () => {
+        this.satelliteTracker.cancelAreaDrawing();
+        this.overpassFinderComponent.setDrawing(null);
+      },
+      onLoadArea: (text, fileName) => {
+        try {
+          this.setAreaOfInterest(AreaOfInterestGeometry.fromGeoJSON(text, fileName.replace(/\.(geo)?json$/i, '')));
+        } catch (error) {
+          this.overpassFinderComponent.setStatus(`${fileName}: ${error instanceof Error ? error.message : String(error)}`, true);
+        }
+      },
+      onClearArea: () => this.setAreaOfInterest(null),
+      onFind: (settings) => this.findOverpasses(settings),
+      onSelectOverpass: (overpass) => this.showOverpass(overpass)
+    });
+  }
+
+  private setAreaOfInterest(area: AreaOfInterest | null) {
+    this.areaOfInterest = area;
+    this.satelliteTracker.setAreaOfInterest(area);
+    this.overpassFinderComponent.setArea(area);
+    this.overpassFinderComponent.setStatus(area ? 'Searches from the current simulation time' : '');
+  }
+
+  /**
+   * Earth-observation satellites with a known sensor swath, from the full catalogue
+   */
+  private async getOverpassCandidates(): Promise<OverpassCandidate[]> {
+    await this.satelliteTracker.loadAllSatellitesForSearch();
+    return Array.from(this.satelliteTracker.getSearchDatabase().values())
+      .filter(sat => sat.type === 'earth-observation' && (sat.swathWidthKm || sat.offNadirRange) && sat.tle1 && sat.tle2)
+      .map(sat => ({ id: sat.id, name: sat.name, tle1: sat.tle1, tle2: sat.tle2, swathWidthKm: sat.swathWidthKm, offNadirRange: sat.offNadirRange }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private async refreshOverpassCandidates() {
+    const candidates = await this.getOverpassCandidates();
+    this.overpassFinderComponent.setCandidates(candidates);
+  }
+
+  /**
+   * Overpasses of the selected satellites over the area of interest, starting at the current simulation time
+   */
+  private async findOverpasses(settings: OverpassSearchSettings) {
+    const area = this.areaOfInterest;
+    if (!area) {
+      this.overpassFinderComponent.setStatus('Draw or load an area first', true);
+      return;
+    }
+    if (settings.satelliteIds.length === 0) {
+      this.overpassFinderComponent.setStatus('Select at least one satellite', true);
+      return;
+    }
+
+    this.overpassFinderComponent.setSearching(true);
+    try {
+      const selected = new Set(settings.satelliteIds);
+      const candidates = (await this.getOverpassCandidates()).filter(candidate => selected.has(candidate.id));
+      const start = simulationClock.getDate();
+      const overpasses: Overpass[] = [];
+
+      for (const [index, candidate] of candidates.entries()) {
+        this.overpassFinderComponent.setStatus(`Searching ${candidate.name} (${index + 1}/${candidates.length})…`);
+        // Yield between satellites so the map keeps rendering
+        await new Promise(resolve => setTimeout(resolve, 0));
+        overpasses.push(...OverpassFinder.findOverpasses(candidate, area, {
+          start,
+          durationHours: settings.days * 24,
+          maxOffNadir: settings.maxOffNadir
+        }));
+      }
+
+      // The area may have been cleared or replaced while searching
+      if (this.areaOfInterest !== area) return;
+      overpasses.sort((a, b) => a.time.getTime() - b.time.getTime());
+      this.overpassFinderComponent.setResults(overpasses, candidates.length, settings.days);
+      console.log(`🎯 Found ${overpasses.length} overpasses of ${area.name} by ${candidates.length} satellites`);
+    } finally {
+      this.overpassFinderComponent.setSearching(false);
+    }
+  }
+
+  /**
+   * Jump to the start of an overpass and track the satellite so its swath crosses the area
+   */
+  private showOverpass(overpass: Overpass) {
+    simulationClock.setTime(overpass.startTime);
+    if (!this.satelliteTracker.getSatellites().has(overpass.satelliteId)) {
+      this.satelliteTracker.loadSatelliteFromSearchDatabase(overpass.satelliteId);
+    }
+    if (this.satelliteTracker.getFollowingSatellite() !== overpass.satelliteId) {
+      this.satelliteTracker.followSatellite(overpass.satelliteId, true);
+    }
+  }
+
+  private updateNextPass(followingSatellite: string | null) {
+    const satellites = this.satelliteTracker.getSatellites();
+    const trackedSatellite = followingSatellite ? satellites.get(followingSatellite) : undefined;
+    const observer = observerService.getObserver();
+
+    if (!observer || !followingSatellite || !trackedSatellite) {
+      this.nextPass = null;
+      this._cockpitComponent.updateNextPass(null);
+      return;
+    }
+
+    // Only recompute when the tracked satellite changes or the cached pass has ended
+    const now = simulationClock.getDate();
+    const cached = this.nextPass;
+    const isStale = !cached ||
+      cached.satelliteId !== followingSatellite ||
+      now.getTime() < cached.computedAt ||
+      (cached.pass ? cached.pass.setTime.getTime() < now.getTime() : now.getTime() - cached.computedAt > 60 * 60 * 1000);
+
+    if (isStale) {
+      this.nextPass = {
+        satelliteId: followingSatellite,
+        pass: PassPredictor.getNextPass(trackedSatellite.tle1, trackedSatellite.tle2, observer, { start: now }),
+        computedAt: now.getTime()
+      };
+    }
+
+    this._cockpitComponent.updateNextPass(this.nextPass!.pass, now);
   }
 
   /**
@@ -772,11 +1148,6 @@ class SatelliteTracker3D {
     const satellites = this.satelliteTracker.getSatellites();
     const followingSatellite = this.satelliteTracker.getFollowingSatellite();
 
-    // Update status displays
-    const trackedAltitudeElement = document.getElementById('tracked-altitude');
-    const trackedNameElement = document.getElementById('tracked-name');
-    const trackedSpeedElement = document.getElementById('tracked-speed');
-    
     // Update search component with current following satellite
     this.searchComponent?.setFollowingSatellite(followingSatellite);
     
@@ -796,23 +1167,47 @@ class SatelliteTracker3D {
       }
     }
     
-    // Update tracked satellite information
-    if (followingSatellite) {
-      const trackedSatellite = satellites.get(followingSatellite);
-      if (trackedSatellite) {
-        if (trackedAltitudeElement) trackedAltitudeElement.textContent = trackedSatellite.altitude.toFixed(0);
-        if (trackedNameElement) trackedNameElement.textContent = trackedSatellite.shortname || trackedSatellite.name;
-        if (trackedSpeedElement) trackedSpeedElement.textContent = trackedSatellite.velocity.toFixed(2);
-        
-        // Log local time at satellite position
-      }
-    } else {
-      // No satellite being tracked - show defaults
-      if (trackedAltitudeElement) trackedAltitudeElement.textContent = '---';
-      if (trackedNameElement) trackedNameElement.textContent = '---';
-      if (trackedSpeedElement) trackedSpeedElement.textContent = '---';
+    this.updateTrackedStatus();
+    this.updateNextPass(followingSatellite);
+    this.updateEclipseStatus(followingSatellite);
+    this.updateContactSchedule(followingSatellite);
+  }
+
+  private updateEclipseStatus(followingSatellite: string | null) {
+    const trackedSatellite = followingSatellite ? this.satelliteTracker.getSatellites().get(followingSatellite) : undefined;
+    if (!followingSatellite || !trackedSatellite) {
+      this.eclipseStatus = null;
+      this._cockpitComponent.updateEclipseStatus(null);
+      return;
     }
-    
+
+    // Only recompute when the tracked satellite changes or the next predicted shadow or umbra boundary has passed
+    const now = simulationClock.getDate();
+    const cached = this.eclipseStatus;
+    const nextBoundary = cached?.status ? cached.status.nextChange : null;
+    const isStale = !cached ||
+      cached.satelliteId !== followingSatellite ||
+      now.getTime() < cached.computedAt ||
+      (nextBoundary ? nextBoundary.getTime() <= now.getTime() : now.getTime() - cached.computedAt > 60 * 60 * 1000);
+
+    if (isStale) {
+      this.eclipseStatus = {
+        satelliteId: followingSatellite,
+        status: EclipseCalculator.getEclipseStatus(trackedSatellite.tle1, trackedSatellite.tle2, now),
+        computedAt: now.getTime()
+      };
+    }
+
+    this._cockpitComponent.updateEclipseStatus(this.eclipseStatus!.status);
+  }
+
+  /**
+   * Update tracked satellite information and look angles from the observer
+   */
+  private updateTrackedStatus() {
+    const satellites = this.satelliteTracker.getSatellites();
+    const followingSatellite = this.satelliteTracker.getFollowingSatellite();
+    this._cockpitComponent.updateStatus(satellites, followingSatellite, observerService.getObserver(), simulationClock.getDate());
   }
 }
 
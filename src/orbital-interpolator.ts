@@ -1,4 +1,6 @@
 // Orbital interpolation for smooth satellite movement
+import { simulationClock } from './simulation-clock';
+
 export interface SatellitePosition {
   longitude: number;
   latitude: number;
@@ -85,7 +87,8 @@ export class OrbitalInterpolator {
     targetTimestamp: number
   ): InterpolatedPosition {
     const timeDelta = pos2.timestamp - pos1.timestamp;
-    const progress = timeDelta > 0 ? (targetTimestamp - pos1.timestamp) / timeDelta : 0;
+    // Timestamps decrease during reverse playback, so any non-zero delta is valid
+    const progress = timeDelta !== 0 ? (targetTimestamp - pos1.timestamp) / timeDelta : 0;
 
     // Handle longitude wrapping (crossing 180° meridian)
     let lon1 = pos1.longitude;
@@ -147,12 +150,12 @@ export class OrbitalInterpolator {
 
   // Clean old data
   cleanup() {
-    const now = Date.now();
+    const now = simulationClock.now();
     const maxAge = 300000; // 5 minutes
 
     for (const [satelliteId, history] of this.positionHistory) {
       // Remove positions older than maxAge
-      const filtered = history.filter(pos => now - pos.timestamp < maxAge);
+      const filtered = history.filter(pos => Math.abs(now - pos.timestamp) < maxAge);
       
       if (filtered.length === 0) {
         this.positionHistory.delete(satelliteId);
@@ -162,6 +165,11 @@ export class OrbitalInterpolator {
     }
   }
 
+  // Drop all history, e.g. after the simulation clock jumped
+  clear() {
+    this.positionHistory.clear();
+  }
+
   // Get the number of satellites being tracked
   getTrackedSatelliteCount(): number {
     return this.positionHistory.size;
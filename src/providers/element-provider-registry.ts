@@ -0,0 +1,138 @@
+import { ElementSetProvider, ElementSetProviderConfig, createElementSetProvider } from './element-set-providers';
+import { DEFAULT_ELEMENT_PROVIDER_SETTINGS } from '../config/element-providers';
+
+/**
+ * How element sets of the same object from several providers are combined:
+ * - 'newest-epoch': the most recent element set wins, ties go to the provider listed first
+ * - 'precedence': the provider listed first wins, whatever the epochs
+ */
+export type ElementSetMergeMode = 'newest-epoch' | 'precedence';
+
+export interface ElementProviderSettings {
+  providers: ElementSetProviderConfig[];
+  routes: Record<string, string[]>; // Group -> provider ids in precedence order, '*' for any other group
+  merge?: ElementSetMergeMode;
+}
+
+/**
+ * Registered element-set providers and which of them serve each group.
+ *
+ * Deployments can replace the default (CelesTrak only) without code changes by serving an
+ * `element-providers.json` with ElementProviderSettings next to index.html, e.g. to point the app at a local mirror.
+ * Dispatches 'providers-changed' when the configuration changes.
+ */
+export class ElementProviderRegistry extends EventTarget {
+  static readonly SETTINGS_URL = '/element-providers.json';
+
+  private providers: Map<string, ElementSetProvider> = new Map();
+  private routes: Record<string, string[]> = {};
+  private mergeMode: ElementSetMergeMode = 'newest-epoch';
+  private settingsPromise: Promise<void> | null = null;
+
+  constructor() {
+    super();
+    this.applySettings(DEFAULT_ELEMENT_PROVIDER_SETTINGS);
+  }
+
+  /**
+   * Replace all providers and routes
+   */
+  configure(settings: ElementProviderSettings): void {
+    this.applySettings(settings);
+    this.dispatchEvent(new CustomEvent('providers-changed'));
+  }
+
+  /**
+   * Add or replace a provider. It only serves groups whose routes list its id.
+   */
+  register(provider: ElementSetProvider): void {
+    this.providers.set(provider.id, provider);
+    this.dispatchEvent(new CustomEvent('providers-changed'));
+  }
+
+  unregister(id: string): void {
+    if (this.providers.delete(id)) {
+      this.dispatchEvent(new CustomEvent('providers-changed'));
+    }
+  }
+
+  /**
+   * Set which providers serve a group, in precedence order. Use '*' for the fallback route.
+   */
+  setRoute(group: string, providerIds: string[]): void {
+    this.routes[group] = [...providerIds];
+    this.dispatchEvent(new CustomEvent('providers-changed'));
+  }
+
+  getProvider(id: string): ElementSetProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  getProviders(): ElementSetProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Providers serving a group, highest precedence first. Unknown provider ids are skipped.
+   */
+  getProvidersForGroup(group: string): ElementSetProvider[] {
+    const providerIds = this.routes[group] || this.routes['*'] || [];
+    return providerIds
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is ElementSetProvider => !!provider);
+  }
+
+  getMergeMode(): ElementSetMergeMode {
+    return this.mergeMode;
+  }
+
+  /**
+   * Identifies the providers behind a group, so cached data from another source can be told apart
+   */
+  getSourceKey(group: string): string {
+    return `${this.mergeMode}:${this.getProvidersForGroup(group).map(provider => provider.id).join(',')}`;
+  }
+
+  /**
+   * Load the deployment's element-providers.json once. A missing or invalid file keeps the current settings.
+   */
+  loadSettings(): Promise<void> {
+    if (!this.settingsPromise) {
+      this.settingsPromise = (async () => {
+        try {
+          const response = await fetch(ElementProviderRegistry.SETTINGS_URL, { cache: 'no-cache' });
+          if (!response.ok) return;
+
+          // Dev servers answer unknown paths with index.html, so only accept JSON
+          const settings = JSON.parse(await response.text()) as ElementProviderSettings;
+          if (!Array.isArray(settings.providers) || typeof settings.routes !== 'object') {
+            console.warn(`⚠️ Ignoring ${ElementProviderRegistry.SETTINGS_URL}: expected "providers" and "routes"`);
+            return;
+          }
+          this.configure(settings);
+          console.log(`🛰️ Element-set providers: ${this.getProviders().map(provider => provider.name).join(', ')}`);
+        } catch (error) {
+          // No deployment settings - keep the defaults
+        }
+      })();
+    }
+    return this.settingsPromise;
+  }
+
+  private applySettings(settings: ElementProviderSettings): void {
+    const providers = new Map<string, ElementSetProvider>();
+    for (const config of settings.providers) {
+      try {
+        providers.set(config.id, createElementSetProvider(config));
+      } catch (error) {
+        console.warn(`⚠️ Skipping element-set provider '${config.id}':`, error);
+      }
+    }
+
+    this.providers = providers;
+    this.routes = { ...settings.routes };
+    this.mergeMode = settings.merge || 'newest-epoch';
+  }
+}
+
+export const elementProviderRegistry = new ElementProviderRegistry();
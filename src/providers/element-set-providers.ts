@@ -0,0 +1,183 @@
+/**
+ * Sources of element sets. A provider returns the raw text of a group in any format
+ * ElementSetParser understands (TLE text or OMM JSON/XML/CSV); parsing and merging happen in SatelliteDataFetcher.
+ */
+export interface ElementSetProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly catalogueWide?: boolean; // Returns its whole catalogue whatever the group, so it only supplements a group's other providers
+  fetchGroup(group: string): Promise<string>;
+}
+
+export interface CelesTrakProviderConfig {
+  type: 'celestrak';
+  id: string;
+  name?: string;
+  baseUrl?: string;                     // gp.php endpoint, e.g. a CelesTrak mirror
+  groupNames?: Record<string, string>;  // App group -> CelesTrak GROUP name
+}
+
+/**
+ * Space-Track through a server-side proxy that logs in with the deployment's account.
+ * The settings file is public, so it never holds credentials, and Space-Track itself sends no CORS headers.
+ */
+export interface SpaceTrackProviderConfig {
+  type: 'space-track';
+  id: string;
+  name?: string;
+  proxyUrl: string;                     // Authenticating proxy in front of Space-Track, without trailing slash
+  queries?: Record<string, string>;     // App group -> query path under proxyUrl
+}
+
+export interface SatNOGSProviderConfig {
+  type: 'satnogs';
+  id: string;
+  name?: string;
+  baseUrl?: string;                     // SatNOGS DB API root
+}
+
+export interface UrlProviderConfig {
+  type: 'url';
+  id: string;
+  name?: string;
+  urlTemplate: string;                  // {group} is replaced by the group name
+}
+
+export type ElementSetProviderConfig =
+  | CelesTrakProviderConfig
+  | SpaceTrackProviderConfig
+  | SatNOGSProviderConfig
+  | UrlProviderConfig;
+
+async function fetchText(url: string, init?: RequestInit): Promise<string> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} from ${url}`);
+  }
+  return response.text();
+}
+
+/**
+ * CelesTrak GP queries (OMM JSON, so 6-digit catalog numbers survive)
+ */
+export class CelesTrakProvider implements ElementSetProvider {
+  static readonly DEFAULT_BASE_URL = 'https://celestrak.org/NORAD/elements/gp.php';
+  private static readonly DEFAULT_GROUP_NAMES: Record<string, string> = { all: 'active' };
+
+  readonly id: string;
+  readonly name: string;
+  private baseUrl: string;
+  private groupNames: Record<string, string>;
+
+  constructor(config: Omit<CelesTrakProviderConfig, 'type'>) {
+    this.id = config.id;
+    this.name = config.name || 'CelesTrak';
+    this.baseUrl = config.baseUrl || CelesTrakProvider.DEFAULT_BASE_URL;
+    this.groupNames = { ...CelesTrakProvider.DEFAULT_GROUP_NAMES, ...config.groupNames };
+  }
+
+  fetchGroup(group: string): Promise<string> {
+    const celestrakGroup = this.groupNames[group] || group;
+    return fetchText(`${this.baseUrl}?GROUP=${encodeURIComponent(celestrakGroup)}&FORMAT=json`);
+  }
+}
+
+/**
+ * Space-Track GP class queries through an authenticating proxy that answers the same query paths
+ */
+export class SpaceTrackProvider implements ElementSetProvider {
+  private static readonly DEFAULT_QUERIES: Record<string, string> = {
+    // Objects in orbit with elements from the last 30 days
+    all: '/basicspacedata/query/class/gp/decay_date/null-val/epoch/%3Enow-30/orderby/norad_cat_id/format/json'
+  };
+
+  readonly id: string;
+  readonly name: string;
+  private proxyUrl: string;
+  private queries: Record<string, string>;
+
+  constructor(config: Omit<SpaceTrackProviderConfig, 'type'>) {
+    if ('identity' in config || 'password' in config) {
+      throw new Error('Space-Track credentials are not accepted in public settings; log in from a server-side proxy and set proxyUrl');
+    }
+    if (!config.proxyUrl) {
+      throw new Error('Space-Track needs the proxyUrl of a server-side authenticating proxy');
+    }
+
+    this.id = config.id;
+    this.name = config.name || 'Space-Track';
+    this.proxyUrl = config.proxyUrl;
+    this.queries = { ...SpaceTrackProvider.DEFAULT_QUERIES, ...config.queries };
+  }
+
+  async fetchGroup(group: string): Promise<string> {
+    const query = this.queries[group];
+    if (!query) {
+      throw new Error(`${this.name} has no query for group '${group}'`);
+    }
+
+    return fetchText(`${this.proxyUrl}${query}`);
+  }
+}
+
+/**
+ * SatNOGS DB TLE endpoint. SatNOGS has no groups, so it returns its full set and SatelliteDataFetcher
+ * keeps only the objects the group's other providers returned.
+ */
+export class SatNOGSProvider implements ElementSetProvider {
+  static readonly DEFAULT_BASE_URL = 'https://db.satnogs.org/api';
+
+  readonly id: string;
+  readonly name: string;
+  readonly catalogueWide = true;
+  private baseUrl: string;
+
+  constructor(config: Omit<SatNOGSProviderConfig, 'type'>) {
+    this.id = config.id;
+    this.name = config.name || 'SatNOGS DB';
+    this.baseUrl = config.baseUrl || SatNOGSProvider.DEFAULT_BASE_URL;
+  }
+
+  async fetchGroup(): Promise<string> {
+    const text = await fetchText(`${this.baseUrl}/tle/?format=json`);
+    const records: Array<{ tle0?: string; tle1?: string; tle2?: string }> = JSON.parse(text);
+
+    // Records are TLEs wrapped in JSON - hand them on as 3-line text
+    return records
+      .filter(record => record.tle1 && record.tle2)
+      .map(record => `${record.tle0 || ''}\n${record.tle1}\n${record.tle2}`)
+      .join('\n');
+  }
+}
+
+/**
+ * Any URL serving TLE or OMM files, such as a self-hosted mirror
+ */
+export class UrlProvider implements ElementSetProvider {
+  readonly id: string;
+  readonly name: string;
+  private urlTemplate: string;
+
+  constructor(config: Omit<UrlProviderConfig, 'type'>) {
+    this.id = config.id;
+    this.name = config.name || config.urlTemplate;
+    this.urlTemplate = config.urlTemplate;
+  }
+
+  fetchGroup(group: string): Promise<string> {
+    return fetchText(this.urlTemplate.replace(/\{group\}/g, encodeURIComponent(group)));
+  }
+}
+
+/**
+ * Build a provider from its JSON configuration
+ */
+export function createElementSetProvider(config: ElementSetProviderConfig): ElementSetProvider {
+  switch (config.type) {
+    case 'celestrak': return new CelesTrakProvider(config);
+    case 'space-track': return new SpaceTrackProvider(config);
+    case 'satnogs': return new SatNOGSProvider(config);
+    case 'url': return new UrlProvider(config);
+    default: throw new Error(`Unknown element-set provider type '${(config as { type: string }).type}'`);
+  }
+}
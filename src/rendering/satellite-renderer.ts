@@ -16,6 +16,7 @@ import {
  
 } from '../types/rendering';
 import { SatelliteFilters } from '../utils/satellite-filters';
+import { ObjectTaxonomy } from '../utils/object-taxonomy';
 
 export interface LayerUpdateResult {
   layers: DeckGLLayer[];
@@ -124,6 +125,7 @@ export class SatelliteRenderer {
       id: sat.id,
       position: sat.position,
       type: sat.type,
+      objectClass: sat.objectClass,
       dimensions: sat.dimensions,
       scaleFactor: sat.scaleFactor,
       isFollowed: followingSatellite === sat.id,
@@ -176,7 +178,7 @@ export class SatelliteRenderer {
           altitude: altitude,
           velocity: velocity,
           length: sat.dimensions.length,
-          color: this.getColorForType(sat.type),
+          color: this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat)),
           size
         };
       });
@@ -256,7 +258,7 @@ export class SatelliteRenderer {
       }
       
       const satellite = satellites.get(satelliteId);
-      if (!satellite || !enabledSatelliteTypes.has(satellite.type)) {
+      if (!satellite || !ObjectTaxonomy.isEnabled(satellite, enabledSatelliteTypes)) {
         return;
       }
 
@@ -343,7 +345,7 @@ export class SatelliteRenderer {
     const orbitData: LayerOrbitData[] = [];
     
     Array.from(satellites.values())
-      .filter(sat => sat.type === 'scientific' || followingSatellite === sat.id)
+      .filter(sat => sat.type === 'scientific' || sat.type === 'station' || followingSatellite === sat.id)
       .forEach(sat => {
         const orbitPoints = this.calculateOrbitPath(sat);
         
@@ -351,7 +353,7 @@ export class SatelliteRenderer {
           orbitData.push({
             source: orbitPoints[i],
             target: orbitPoints[i + 1],
-            color: this.getColorForType(sat.type),
+            color: this.getColorForType(ObjectTaxonomy.getDisplayCategory(sat)),
             satelliteId: sat.id
           });
         }
@@ -460,11 +462,18 @@ export class SatelliteRenderer {
 
   private getColorForType(type: string): [number, number, number, number] {
     switch (type) {
+      case 'station': return [255, 255, 0, 255]; // Yellow
       case 'scientific': return [0, 255, 136, 255]; // Green
       case 'communication': return [255, 165, 0, 255]; // Orange
       case 'earth-observation': return [30, 144, 255, 255]; // Dodger blue
       case 'weather': return [255, 20, 147, 255]; // Deep pink
       case 'navigation': return [138, 43, 226, 255]; // Blue violet
+      case 'military': return [110, 140, 60, 255]; // Olive
+      case 'amateur': return [0, 220, 200, 255]; // Teal
+      case 'custom': return [255, 0, 200, 255]; // Magenta
+      case 'rocket-body': return [200, 60, 60, 255]; // Brick red
+      case 'debris': return [140, 140, 140, 200]; // Grey
+      case 'unknown': return [200, 180, 150, 220]; // Sand
       default: return [255, 255, 255, 255]; // White
     }
   }
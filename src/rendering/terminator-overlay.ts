@@ -0,0 +1,155 @@
+import { Map as MapLibreMap, GeoJSONSource } from 'maplibre-gl';
+import { SolarCalculator } from '../utils/solar-calculator';
+import { SphericalCap } from '../utils/spherical-cap';
+
+interface ShadowBand {
+  id: string;
+  sunElevation: number; // Region where the Sun is below this elevation (degrees)
+  opacity: number;
+}
+
+/**
+ * Day/night terminator drawn as MapLibre fill layers: the night hemisphere, civil, nautical and
+ * astronomical twilight bands, and a marker at the subsolar point
+ */
+export class TerminatorOverlay {
+  private static readonly SOURCE_ID = 'terminator';
+  private static readonly SUBSOLAR_SOURCE_ID = 'subsolar-point';
+
+  // Stacked caps around the antisolar point - each band adds a little more darkness
+  private static readonly BANDS: ShadowBand[] = [
+    { id: 'terminator-night', sunElevation: 0, opacity: 0.15 },
+    { id: 'terminator-civil', sunElevation: -6, opacity: 0.12 },
+    { id: 'terminator-nautical', sunElevation: -12, opacity: 0.12 },
+    { id: 'terminator-astronomical', sunElevation: -18, opacity: 0.12 }
+  ];
+
+  private map: MapLibreMap;
+  private visible = true;
+  private lastUpdateTime = 0;
+
+  constructor(map: MapLibreMap) {
+    this.map = map;
+  }
+
+  /**
+   * Redraw the terminator for the given time, adding the layers on first use
+   * @param date Simulation time
+   * @param beforeLayerId Optional layer to insert the overlay below
+   */
+  update(date: Date, beforeLayerId?: string): void {
+    if (!this.map.isStyleLoaded()) return;
+
+    this.ensureLayers(beforeLayerId);
+    this.lastUpdateTime = date.getTime();
+
+    const subsolar = SolarCalculator.getSubsolarPoint(date);
+    const antisolar = {
+      latitude: -subsolar.latitude,
+      longitude: subsolar.longitude > 0 ? subsolar.longitude - 180 : subsolar.longitude + 180
+    };
+
+    const features = TerminatorOverlay.BANDS.map(band => ({
+      type: 'Feature' as const,
+      properties: { band: band.id },
+      geometry: {
+        type: 'MultiPolygon' as const,
+        coordinates: SphericalCap.toPolygons(antisolar.latitude, antisolar.longitude, 90 + band.sunElevation)
+      }
+    }));
+
+    (this.map.getSource(TerminatorOverlay.SOURCE_ID) as GeoJSONSource | undefined)?.setData({
+      type: 'FeatureCollection',
+      features
+    });
+
+    (this.map.getSource(TerminatorOverlay.SUBSOLAR_SOURCE_ID) as GeoJSONSource | undefined)?.setData({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Point', coordinates: [subsolar.longitude, subsolar.latitude] }
+    });
+  }
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    const visibility = visible ? 'visible' : 'none';
+    [...TerminatorOverlay.BANDS.map(band => band.id), 'subsolar-point-halo', 'subsolar-point'].forEach(layerId => {
+      if (this.map.getLayer(layerId)) {
+        this.map.setLayoutProperty(layerId, 'visibility', visibility);
+      }
+    });
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  getLastUpdateTime(): number {
+    return this.lastUpdateTime;
+  }
+
+  private ensureLayers(beforeLayerId?: string): void {
+    if (!this.map.getSource(TerminatorOverlay.SOURCE_ID)) {
+      this.map.addSource(TerminatorOverlay.SOURCE_ID, {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+    }
+
+    if (!this.map.getSource(TerminatorOverlay.SUBSOLAR_SOURCE_ID)) {
+      this.map.addSource(TerminatorOverlay.SUBSOLAR_SOURCE_ID, {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+    }
+
+    const visibility = this.visible ? 'visible' : 'none';
+
+    TerminatorOverlay.BANDS.forEach(band => {
+      if (!this.map.getLayer(band.id)) {
+        this.map.addLayer({
+          id: band.id,
+          type: 'fill',
+          source: TerminatorOverlay.SOURCE_ID,
+          filter: ['==', ['get', 'band'], band.id],
+          layout: { visibility },
+          paint: {
+            'fill-color': '#000814',
+            'fill-opacity': band.opacity,
+            'fill-antialias': false
+          }
+        }, beforeLayerId);
+      }
+    });
+
+    if (!this.map.getLayer('subsolar-point-halo')) {
+      this.map.addLayer({
+        id: 'subsolar-point-halo',
+        type: 'circle',
+        source: TerminatorOverlay.SUBSOLAR_SOURCE_ID,
+        layout: { visibility },
+        paint: {
+          'circle-radius': 14,
+          'circle-color': '#ffd34d',
+          'circle-opacity': 0.25,
+          'circle-blur': 0.6
+        }
+      }, beforeLayerId);
+    }
+
+    if (!this.map.getLayer('subsolar-point')) {
+      this.map.addLayer({
+        id: 'subsolar-point',
+        type: 'circle',
+        source: TerminatorOverlay.SUBSOLAR_SOURCE_ID,
+        layout: { visibility },
+        paint: {
+          'circle-radius': 5,
+          'circle-color': '#ffd34d',
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 1
+        }
+      }, beforeLayerId);
+    }
+  }
+}
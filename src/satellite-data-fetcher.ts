@@ -1,151 +1,93 @@
 // Dynamic satellite data fetcher with TLE from external sources
 import { SatelliteConfig } from './types/satellite';
 import { SATELLITE_CONFIGS_WITH_STARLINK } from './config/satellites';
+import { TLEEpoch } from './utils/tle-epoch';
+import { ObjectTaxonomy } from './utils/object-taxonomy';
+import { ElementSetParser, ParsedElementSet } from './utils/element-set-parser';
+import { elementProviderRegistry, ElementSetMergeMode } from './providers/element-provider-registry';
+import { elementSetCacheService } from './services/element-set-cache.service';
+import { elementSetHistoryService } from './services/element-set-history.service';
+import { manoeuvreService } from './services/manoeuvre.service';
 
 export interface TLEData {
   id: string;
   name: string;
   tle1: string;
   tle2: string;
-  catalogNumber: string;
+  catalogNumber: string; // Full NORAD catalog number - tle1 holds the Alpha-5 form above 99999
+  epoch?: number; // Element set epoch in ms (missing in caches written by older versions)
 }
 
 
 export class SatelliteDataFetcher {
   private cache: Map<string, TLEData[]> = new Map();
   private cacheExpiry: Map<string, number> = new Map();
+  private cacheSources: Map<string, string> = new Map(); // Providers the cached data came from
   private readonly CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
-  private readonly STORAGE_PREFIX = 'satellite_cache_';
-  
-  constructor() {
-    this.loadCacheFromStorage();
-  }
-  
-  /**
-   * Load cached data from localStorage on initialization
-   */
-  private loadCacheFromStorage() {
-    try {
-      const keys = Object.keys(localStorage).filter(key => key.startsWith(this.STORAGE_PREFIX));
-      
-      for (const key of keys) {
-        const group = key.replace(this.STORAGE_PREFIX, '');
-        const storedData = localStorage.getItem(key);
-        
-        if (storedData) {
-          const { data, expiry } = JSON.parse(storedData);
-          const now = Date.now();
-          
-          if (expiry > now) {
-            this.cache.set(group, data);
-            this.cacheExpiry.set(group, expiry);
-          } else {
-            localStorage.removeItem(key);
-          }
-        }
-      }
-    } catch (error) {
-    }
-  }
-  
-  /**
-   * Save cache data to localStorage for persistence
-   */
-  private saveCacheToStorage(group: string, data: TLEData[], expiry: number) {
-    try {
-      const storageKey = this.STORAGE_PREFIX + group;
-      const storageData = {
-        data,
-        expiry,
-        timestamp: Date.now()
-      };
-      
-      localStorage.setItem(storageKey, JSON.stringify(storageData));
-    } catch (error) {
-      
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        this.cleanupOldCache();
-        
-        try {
-          localStorage.setItem(this.STORAGE_PREFIX + group, JSON.stringify({
-            data,
-            expiry,
-            timestamp: Date.now()
-          }));
-        } catch (retryError) {
-        }
-      }
-    }
-  }
   
   /**
-   * Clean up old cache entries to free up localStorage space
+   * Load a group from the IndexedDB cache into memory. Expired groups are loaded too - they are refreshed
+   * before use, but remain the fallback if that fails and the baseline that manoeuvres are detected against.
    */
-  private cleanupOldCache() {
+  private async loadCacheFromStorage(group: string) {
     try {
-      const keys = Object.keys(localStorage).filter(key => key.startsWith(this.STORAGE_PREFIX));
-      const cacheEntries: Array<{key: string, timestamp: number}> = [];
+      const info = await elementSetCacheService.getGroupInfo(group);
+      if (!info) return;
       
-      for (const key of keys) {
-        const storedData = localStorage.getItem(key);
-        if (storedData) {
-          try {
-            const { timestamp } = JSON.parse(storedData);
-            cacheEntries.push({ key, timestamp: timestamp || 0 });
-          } catch {
-            localStorage.removeItem(key);
-          }
-        }
-      }
-      
-      cacheEntries.sort((a, b) => a.timestamp - b.timestamp);
-      
-      const keysToRemove = Math.max(1, Math.floor(cacheEntries.length * 0.3));
-      for (let i = 0; i < keysToRemove; i++) {
-        localStorage.removeItem(cacheEntries[i].key);
-        const group = cacheEntries[i].key.replace(this.STORAGE_PREFIX, '');
-        this.cache.delete(group);
-        this.cacheExpiry.delete(group);
+      const data = await elementSetCacheService.getGroup(group);
+      if (data.length > 0) {
+        this.cache.set(group, data);
+        this.cacheExpiry.set(group, info.expiry);
+        this.cacheSources.set(group, info.source);
       }
     } catch (error) {
+      console.warn(`⚠️ Failed to read cached element sets for '${group}':`, error);
     }
   }
   
   /**
-   * Fetch TLE data from Celestrak
+   * Fetch a group's element sets from the providers routed to it (see ElementProviderRegistry)
+   * and merge them, one element set per catalog number.
    */
   async fetchTLEData(group: string): Promise<TLEData[]> {
     const cacheKey = group.toLowerCase();
     const now = Date.now();
     
-    // Check cache first
+    await elementProviderRegistry.loadSettings();
+    const source = elementProviderRegistry.getSourceKey(cacheKey);
+    if (!this.cache.has(cacheKey)) {
+      await this.loadCacheFromStorage(cacheKey);
+    }
+    
+    // Check cache first - an unexpired cache can still hold old elements, so check their epochs too
     if (this.cache.has(cacheKey) && this.cacheExpiry.get(cacheKey)! > now) {
-      return this.cache.get(cacheKey)!;
+      const cached = this.cache.get(cacheKey)!;
+      if (this.cacheSources.get(cacheKey) !== source) {
+        console.log(`🔄 Element-set providers for '${group}' changed, refreshing`);
+      } else if (!this.hasStaleElements(cached, now)) {
+        return cached;
+      } else {
+        console.warn(`⚠️ Cached TLE data for '${group}' is older than ${TLEEpoch.DEFAULT_STALE_THRESHOLD_DAYS} days, refreshing`);
+      }
     }
     
     try {
-      const response = await fetch('https://celestrak.org/NORAD/elements/gp.php?GROUP=active&FORMAT=tle');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch TLE data from Celestrak: ${response.status} ${response.statusText}`);
-      }
+      const allTleData = await this.fetchFromProviders(cacheKey);
       
-      const tleText = await response.text();
-      
-      if (tleText.length < 100) {
-        throw new Error('TLE data from Celestrak appears to be empty or too small');
-      }
-      
-      const allTleData = this.parseTLEData(tleText);
-      
-      if (allTleData.length === 0) {
-        throw new Error('No valid TLE data found from Celestrak');
+      // Discontinuities against the element sets being replaced are manoeuvres
+      const previous = this.cache.get(cacheKey);
+      if (previous) {
+        manoeuvreService.compareGroups(cacheKey, previous, allTleData);
       }
       
-      // Cache the results both in memory and localStorage
+      // Cache the results both in memory and IndexedDB (written in the background)
       const expiry = now + this.CACHE_DURATION;
       this.cache.set(cacheKey, allTleData);
       this.cacheExpiry.set(cacheKey, expiry);
-      this.saveCacheToStorage(cacheKey, allTleData, expiry);
+      this.cacheSources.set(cacheKey, source);
+      elementSetCacheService.putGroup(cacheKey, allTleData, expiry, source);
+      // Successive downloads build up each object's element-set history
+      elementSetHistoryService.record(allTleData);
       
       return allTleData;
       
@@ -153,7 +95,11 @@ export class SatelliteDataFetcher {
       
       // Return cached data if available, even if expired
       if (this.cache.has(cacheKey)) {
-        return this.cache.get(cacheKey)!;
+        const cached = this.cache.get(cacheKey)!;
+        if (this.hasStaleElements(cached, now)) {
+          console.warn(`⚠️ Refresh failed, falling back to TLE data for '${group}' older than ${TLEEpoch.DEFAULT_STALE_THRESHOLD_DAYS} days`);
+        }
+        return cached;
       }
       
       throw error;
@@ -161,44 +107,123 @@ export class SatelliteDataFetcher {
   }
   
   /**
-   * Parse TLE text format into structured data
+   * Query every provider routed to a group in parallel. A failing provider is skipped
+   * as long as another one returns data. Catalogue-wide providers (SatNOGS) only add element sets
+   * for objects that a group-aware provider returned, so they never fill a group with their whole catalogue.
    */
-  private parseTLEData(tleText: string): TLEData[] {
-    const lines = tleText.trim().split('\n');
-    const satellites: TLEData[] = [];
-    const existingIds = new Set<string>();
+  private async fetchFromProviders(group: string): Promise<TLEData[]> {
+    const providers = elementProviderRegistry.getProvidersForGroup(group);
+    if (providers.length === 0) {
+      throw new Error(`No element-set provider is configured for group '${group}'`);
+    }
     
-    for (let i = 0; i < lines.length; i += 3) {
-      if (i + 2 >= lines.length) break;
-      
-      const name = lines[i].trim();
-      const tle1 = lines[i + 1].trim();
-      const tle2 = lines[i + 2].trim();
-      
-      // Validate TLE format
-      if (!tle1.startsWith('1 ') || !tle2.startsWith('2 ')) {
-        continue;
+    // Called inside then() so a provider that throws synchronously is settled as rejected like the rest
+    const results = await Promise.allSettled(providers.map(provider => Promise.resolve().then(() => provider.fetchGroup(group))));
+    const sources: Array<{ elementSets: ParsedElementSet[]; catalogueWide: boolean }> = [];
+    results.forEach((result, index) => {
+      const provider = providers[index];
+      if (result.status === 'rejected') {
+        console.warn(`⚠️ ${provider.name} failed for '${group}':`, result.reason);
+        return;
       }
       
-      // Extract catalog number from TLE line 1
-      const catalogNumber = tle1.substring(2, 7).trim();
-      
+      const elementSets = ElementSetParser.parse(result.value);
+      if (elementSets.length === 0) {
+        console.warn(`⚠️ ${provider.name} returned no valid element sets for '${group}'`);
+        return;
+      }
+      sources.push({ elementSets, catalogueWide: !!provider.catalogueWide });
+    });
+    
+    const groupSources = sources.filter(source => !source.catalogueWide);
+    if (groupSources.length === 0) {
+      throw new Error(`No valid TLE data found for '${group}' from ${providers.map(provider => provider.name).join(', ')}`);
+    }
+    
+    const groupCatalogNumbers = new Set(groupSources.flatMap(source => source.elementSets.map(elementSet => elementSet.catalogNumber)));
+    const elementSets = sources.map(source => source.catalogueWide
+      ? source.elementSets.filter(elementSet => groupCatalogNumbers.has(elementSet.catalogNumber))
+      : source.elementSets);
+    
+    return this.toTLEData(this.mergeElementSets(elementSets, elementProviderRegistry.getMergeMode()));
+  }
+  
+  /**
+   * Keep one element set per catalog number. Sources are in precedence order.
+   */
+  private mergeElementSets(sources: ParsedElementSet[][], mode: ElementSetMergeMode): ParsedElementSet[] {
+    if (sources.length === 1) {
+      return sources[0];
+    }
+    
+    const merged = new Map<string, ParsedElementSet>();
+    for (const elementSets of sources) {
+      for (const elementSet of elementSets) {
+        const existing = merged.get(elementSet.catalogNumber);
+        if (!existing) {
+          merged.set(elementSet.catalogNumber, elementSet);
+        } else if (mode === 'newest-epoch' &&
+                   (TLEEpoch.parseEpoch(elementSet.tle1) ?? -Infinity) > (TLEEpoch.parseEpoch(existing.tle1) ?? -Infinity)) {
+          // Newer elements replace older ones, but keep the higher-precedence name
+          merged.set(elementSet.catalogNumber, { ...elementSet, name: existing.name });
+        }
+      }
+    }
+    return Array.from(merged.values());
+  }
+  
+  /**
+   * Parse element sets in any supported format (TLE text or OMM JSON/XML/CSV) into structured data
+   */
+  parseElementSets(text: string): TLEData[] {
+    return this.toTLEData(ElementSetParser.parse(text));
+  }
+  
+  private toTLEData(elementSets: ParsedElementSet[]): TLEData[] {
+    const satellites: TLEData[] = [];
+    const existingIds = new Set<string>();
+    
+    for (const elementSet of elementSets) {
       // Generate unique ID, preferring clean name without catalog number
-      const id = this.generateSatelliteId(name, catalogNumber, existingIds);
+      const id = this.generateSatelliteId(elementSet.name, elementSet.catalogNumber, existingIds);
       existingIds.add(id);
       
       satellites.push({
         id: id,
-        name: name,
-        tle1: tle1,
-        tle2: tle2,
-        catalogNumber: catalogNumber
+        name: elementSet.name,
+        tle1: elementSet.tle1,
+        tle2: elementSet.tle2,
+        catalogNumber: elementSet.catalogNumber,
+        epoch: TLEEpoch.parseEpoch(elementSet.tle1) ?? undefined
       });
     }
     
     return satellites;
   }
   
+  /**
+   * Convert element sets in any supported format to satellite configurations
+   */
+  parseSatellites(text: string): SatelliteConfig[] {
+    return this.parseElementSets(text).map(tle => this.applyOverrides(tle.name, tle));
+  }
+  
+  /**
+   * Whether a data set is out of date, judged by its most recent element set.
+   * Individual objects can legitimately have old elements (e.g. decayed or rarely tracked),
+   * but if even the newest epoch is old the whole download is.
+   */
+  private hasStaleElements(data: TLEData[], now: number): boolean {
+    let newestEpoch = -Infinity;
+    for (const tle of data) {
+      const epoch = tle.epoch ?? TLEEpoch.parseEpoch(tle.tle1);
+      if (epoch !== null && epoch > newestEpoch) {
+        newestEpoch = epoch;
+      }
+    }
+    return newestEpoch === -Infinity || now - newestEpoch > TLEEpoch.DEFAULT_STALE_THRESHOLD_DAYS * 24 * 60 * 60 * 1000;
+  }
+
   /**
    * Generate a unique satellite ID from name, avoiding catalog numbers when possible
    */
@@ -248,39 +273,27 @@ export class SatelliteDataFetcher {
     }
     
     // Use central config if found, otherwise use defaults
+    const taxonomy = ObjectTaxonomy.classify(name, { type: configOverride?.type, objectClass: configOverride?.objectClass });
     const config: SatelliteConfig = {
       id: configOverride?.id || tleData.id,
       name: configOverride?.name || tleData.name,
       shortname: configOverride?.shortname,
       alternateName: configOverride?.alternateName,
-      type: configOverride?.type || this.getTypeFromName(name),
+      type: taxonomy.type,
+      objectClass: taxonomy.objectClass,
       tle1: tleData.tle1,
       tle2: tleData.tle2,
       dimensions: configOverride?.dimensions || this.getDefaultDimensions(name),
       image: configOverride?.image,
       defaultBearing: configOverride?.defaultBearing,
-      scaleFactor: configOverride?.scaleFactor
+      scaleFactor: configOverride?.scaleFactor,
+      swathWidthKm: configOverride?.swathWidthKm,
+      offNadirRange: configOverride?.offNadirRange
     };
     
     return config;
   }
   
-  private getTypeFromName(name: string): 'scientific' | 'communication' | 'navigation' | 'earth-observation' | 'weather' {
-    const nameLower = name.toLowerCase();
-    
-    if (nameLower.includes('sentinel') || nameLower.includes('landsat') || nameLower.includes('terra') || nameLower.includes('aqua')) {
-      return 'earth-observation';
-    } else if (nameLower.includes('noaa') || nameLower.includes('meteosat') || nameLower.includes('goes')) {
-      return 'weather';
-    } else if (nameLower.includes('gps') || nameLower.includes('navstar') || nameLower.includes('galileo') || nameLower.includes('glonass')) {
-      return 'navigation';
-    } else if (nameLower.includes('iss') || nameLower.includes('hubble') || nameLower.includes('telescope')) {
-      return 'scientific';
-    } else {
-      return 'communication';
-    }
-  }
-  
   private getDefaultDimensions(name: string): { length: number; width: number; height: number } {
     const nameLower = name.toLowerCase();
     
@@ -375,31 +388,30 @@ export class SatelliteDataFetcher {
   clearCache() {
     this.cache.clear();
     this.cacheExpiry.clear();
+    this.cacheSources.clear();
     
-    // Clear localStorage cache as well
-    try {
-      const keys = Object.keys(localStorage).filter(key => key.startsWith(this.STORAGE_PREFIX));
-      for (const key of keys) {
-        localStorage.removeItem(key);
-      }
-    } catch (error) {
-    }
+    // Clear the IndexedDB cache as well
+    elementSetCacheService.clear().catch(error => {
+      console.warn('⚠️ Failed to clear cached element sets:', error);
+    });
   }
   
   /**
    * Get cache statistics
    */
-  getCacheStats(): { groups: number, totalSatellites: number, cacheAgeHours: { [group: string]: number } } {
+  getCacheStats(): { groups: number, totalSatellites: number, cacheAgeHours: { [group: string]: number }, staleSatellites: number } {
     const stats = {
       groups: this.cache.size,
       totalSatellites: 0,
-      cacheAgeHours: {} as { [group: string]: number }
+      cacheAgeHours: {} as { [group: string]: number },
+      staleSatellites: 0
     };
     
     const now = Date.now();
     
     for (const [group, data] of this.cache.entries()) {
       stats.totalSatellites += data.length;
+      stats.staleSatellites += data.filter(tle => TLEEpoch.isStale(tle.tle1, now)).length;
       const expiry = this.cacheExpiry.get(group);
       if (expiry) {
         const ageMs = this.CACHE_DURATION - (expiry - now);
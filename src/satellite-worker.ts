@@ -1,12 +1,13 @@
 // Web Worker for satellite position calculations
 // This moves expensive TLE calculations off the main thread
 import * as satellite from 'satellite.js';
+import { PropagationErrors, PropagationFailure } from './utils/propagation-errors';
 
 interface SatelliteCalcRequest {
   id: string;
   tle1: string;
   tle2: string;
-  timestamp: number;
+  timestamp: number; // Simulation time in ms - the main thread sends simulationClock.now(), never wall-clock time
 }
 
 interface SatelliteCalcResult {
@@ -16,6 +17,7 @@ interface SatelliteCalcResult {
   altitude: number;
   velocity: number;
   timestamp: number;
+  failure?: PropagationFailure; // Set, with NaN coordinates, when the element set does not propagate
 }
 
 // Cache satellite records to avoid re-parsing TLE
@@ -50,10 +52,8 @@ async function processBatch() {
   const results: SatelliteCalcResult[] = [];
 
   for (const request of batch) {
-    const result = calculateSatellitePosition(request);
-    if (result) {
-      results.push(result);
-    }
+    // Failures are sent too, so the main thread can report why an object is missing
+    results.push(calculateSatellitePosition(request));
   }
 
   // Send results back to main thread
@@ -67,10 +67,13 @@ async function processBatch() {
   }
 }
 
-function calculateSatellitePosition(request: SatelliteCalcRequest): SatelliteCalcResult | null {
+function calculateSatellitePosition(request: SatelliteCalcRequest): SatelliteCalcResult {
+  const { id, tle1, tle2, timestamp } = request;
+  const failed = (failure: PropagationFailure): SatelliteCalcResult => ({
+    id, longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN, timestamp, failure
+  });
+
   try {
-    const { id, tle1, tle2, timestamp } = request;
-    
     // Get or create satellite record (expensive operation cached)
     const cacheKey = `${tle1}-${tle2}`;
     let satrec = satelliteRecords.get(cacheKey);
@@ -81,6 +84,10 @@ function calculateSatellitePosition(request: SatelliteCalcRequest): SatelliteCal
     
     const currentTime = new Date(timestamp);
     const positionAndVelocity = satellite.propagate(satrec, currentTime);
+    const failure = PropagationErrors.check(satrec, positionAndVelocity, currentTime);
+    if (failure) {
+      return failed(failure);
+    }
     
     if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
       const gmst = satellite.gstime(currentTime);
@@ -103,7 +110,8 @@ function calculateSatellitePosition(request: SatelliteCalcRequest): SatelliteCal
       };
     }
   } catch (error) {
+    return failed(PropagationErrors.fromException(error));
   }
   
-  return null;
-}
\ No newline at end of file
+  return failed(PropagationErrors.nonFinitePosition());
+}
@@ -171,6 +171,12 @@ export class SEOManager {
         case 'earth-observation':
           baseKeywords.push('earth observation', 'remote sensing', 'environmental monitoring');
           break;
+        case 'station':
+          baseKeywords.push('space station', 'crewed spacecraft', 'space station tracker');
+          break;
+        case 'amateur':
+          baseKeywords.push('amateur radio satellite', 'ham radio satellite', 'cubesat');
+          break;
       }
     }
 
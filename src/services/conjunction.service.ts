@@ -0,0 +1,125 @@
+import { ConjunctionScreener, ConjunctionEvent, ConjunctionObject, ConjunctionScreeningOptions } from '../utils/conjunction-screener';
+
+export interface ScreeningProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Runs conjunction screening in a web worker, one screening at a time.
+ * Dispatches 'screening-progress' while a screening is running.
+ */
+export class ConjunctionService extends EventTarget {
+  private worker: Worker | null = null;
+  private requestId = 0;
+  private pending: { requestId: number; resolve: (events: ConjunctionEvent[]) => void; reject: (error: Error) => void } | null = null;
+
+  /**
+   * Screen a target against candidate objects. Starting a new screening cancels the running one.
+   * @param target Object to protect
+   * @param candidates Catalogue to screen against
+   * @param options Time window, miss distance threshold and sampling step
+   * @returns Close approaches sorted by time of closest approach
+   */
+  screen(target: ConjunctionObject, candidates: ConjunctionObject[], options: ConjunctionScreeningOptions): Promise<ConjunctionEvent[]> {
+    this.cancel();
+
+    const requestId = ++this.requestId;
+    return new Promise((resolve, reject) => {
+      this.pending = { requestId, resolve, reject };
+
+      const worker = this.getWorker();
+      if (!worker) {
+        // No worker support - run on the main thread after the UI has had a chance to update
+        setTimeout(() => {
+          if (this.pending?.requestId !== requestId) return;
+          try {
+            this.finish(requestId, ConjunctionScreener.screen(target, candidates, options, (completed, total) => this.reportProgress({ completed, total })));
+          } catch (error) {
+            this.fail(requestId, error instanceof Error ? error : new Error(String(error)));
+          }
+        }, 0);
+        return;
+      }
+
+      worker.postMessage({ type: 'SCREEN', data: { requestId, target, candidates, options } });
+    });
+  }
+
+  /**
+   * Stop the running screening, if any. Its promise is rejected.
+   */
+  cancel(): void {
+    if (!this.pending) return;
+
+    // Terminating is the only way to interrupt a busy worker
+    this.worker?.terminate();
+    this.worker = null;
+    this.fail(this.pending.requestId, new Error('Screening cancelled'));
+  }
+
+  isRunning(): boolean {
+    return this.pending !== null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../conjunction-worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('⚠️ Conjunction worker unavailable, screening on the main thread:', error);
+      return null;
+    }
+
+    this.worker.onmessage = (e) => {
+      const { type, data } = e.data;
+      if (data.requestId !== this.pending?.requestId) return; // Stale message from a cancelled screening
+
+      switch (type) {
+        case 'PROGRESS':
+          this.reportProgress({ completed: data.completed, total: data.total });
+          break;
+        case 'RESULTS':
+          this.finish(data.requestId, data.events);
+          break;
+        case 'ERROR':
+          this.fail(data.requestId, new Error(data.message));
+          break;
+      }
+    };
+
+    this.worker.onerror = (e) => {
+      console.error('❌ Conjunction worker error:', e.message);
+      if (this.pending) {
+        this.fail(this.pending.requestId, new Error(e.message || 'Conjunction worker failed'));
+      }
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+
+  private reportProgress(progress: ScreeningProgress): void {
+    this.dispatchEvent(new CustomEvent<ScreeningProgress>('screening-progress', { detail: progress }));
+  }
+
+  private finish(requestId: number, events: ConjunctionEvent[]): void {
+    if (this.pending?.requestId !== requestId) return;
+    const { resolve } = this.pending;
+    this.pending = null;
+    resolve(events);
+  }
+
+  private fail(requestId: number, error: Error): void {
+    if (this.pending?.requestId !== requestId) return;
+    const { reject } = this.pending;
+    this.pending = null;
+    reject(error);
+  }
+}
+
+export const conjunctionService = new ConjunctionService();
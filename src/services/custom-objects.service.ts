@@ -0,0 +1,156 @@
+import * as satellite from 'satellite.js';
+import { ElementSetParser, ElementSetFormat } from '../utils/element-set-parser';
+import { TLEEpoch } from '../utils/tle-epoch';
+
+export interface CustomObject {
+  id: string;
+  name: string;
+  tle1: string;
+  tle2: string;
+  catalogNumber: string;
+  importedAt: number; // ms since epoch
+}
+
+export interface RejectedElementSet {
+  name: string;
+  reason: string;
+}
+
+export interface ElementImportResult {
+  format: ElementSetFormat;
+  added: CustomObject[];
+  updated: CustomObject[];
+  rejected: RejectedElementSet[];
+}
+
+/**
+ * User-imported element sets (the "My objects" group), e.g. pre-launch or customer-supplied elements
+ * that no public catalogue has. Persisted in localStorage; dispatches 'custom-objects-changed' when the group changes.
+ */
+export class CustomObjectsService extends EventTarget {
+  static readonly ID_PREFIX = 'my-';
+  private readonly STORAGE_KEY = 'custom_objects';
+  private objects: Map<string, CustomObject> = new Map();
+
+  constructor() {
+    super();
+    this.loadFromStorage();
+  }
+
+  getObjects(): CustomObject[] {
+    return Array.from(this.objects.values());
+  }
+
+  getObject(id: string): CustomObject | undefined {
+    return this.objects.get(id);
+  }
+
+  static isCustomObjectId(id: string): boolean {
+    return id.startsWith(CustomObjectsService.ID_PREFIX);
+  }
+
+  /**
+   * Import element sets from TLE text or OMM JSON/XML/CSV. Objects with the same name and catalog number are updated in place.
+   * TLE lines must have valid checksums, and every element set must initialise SGP4.
+   */
+  importText(text: string): ElementImportResult {
+    const result: ElementImportResult = { format: ElementSetParser.detectFormat(text), added: [], updated: [], rejected: [] };
+    const importedAt = Date.now();
+
+    // Archives hold several epochs per object - the newest becomes the object's element set
+    const elementSets = ElementSetParser.parse(text)
+      .sort((a, b) => (TLEEpoch.parseEpoch(a.tle1) ?? 0) - (TLEEpoch.parseEpoch(b.tle1) ?? 0));
+    const imported = new Map<string, CustomObject>();
+
+    for (const elementSet of elementSets) {
+      const reason = ElementSetParser.validateTLE(elementSet.tle1, elementSet.tle2) || this.checkPropagation(elementSet.tle1, elementSet.tle2);
+      if (reason) {
+        result.rejected.push({ name: elementSet.name, reason });
+        continue;
+      }
+
+      const id = this.getObjectId(elementSet.name, elementSet.catalogNumber);
+      imported.set(id, { id, ...elementSet, importedAt });
+    }
+
+    for (const object of imported.values()) {
+      (this.objects.has(object.id) ? result.updated : result.added).push(object);
+      this.objects.set(object.id, object);
+    }
+
+    if (result.added.length > 0 || result.updated.length > 0) {
+      this.saveToStorage();
+      this.dispatchEvent(new CustomEvent('custom-objects-changed'));
+    }
+    return result;
+  }
+
+  remove(id: string): void {
+    if (this.objects.delete(id)) {
+      this.saveToStorage();
+      this.dispatchEvent(new CustomEvent('custom-objects-changed'));
+    }
+  }
+
+  clear(): void {
+    if (this.objects.size === 0) return;
+    this.objects.clear();
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.dispatchEvent(new CustomEvent('custom-objects-changed'));
+  }
+
+  /**
+   * Stable ID from the object name and catalog number, so re-importing an updated element set replaces the old one
+   * while different objects sharing a name (or a placeholder catalog number) stay apart
+   */
+  private getObjectId(name: string, catalogNumber: string): string {
+    const slug = name.toLowerCase()
+      .replace(/[^a-z0-9-]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+    return `${CustomObjectsService.ID_PREFIX}${slug ? `${slug}-${catalogNumber}` : catalogNumber}`;
+  }
+
+  private checkPropagation(tle1: string, tle2: string): string | null {
+    try {
+      const satrec = satellite.twoline2satrec(tle1, tle2);
+      // Propagate at the epoch - imported elements may be historical or pre-launch
+      const positionAndVelocity = satellite.propagate(satrec, new Date(TLEEpoch.parseEpoch(tle1) ?? Date.now()));
+      if (satrec.error || !positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+        return 'elements do not propagate (invalid orbit)';
+      }
+      return null;
+    } catch (error) {
+      return 'elements could not be read';
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const storedData = localStorage.getItem(this.STORAGE_KEY);
+      if (!storedData) return;
+
+      const parsed = JSON.parse(storedData) as CustomObject[];
+      // Older versions keyed objects on the name alone - re-key them so later imports update them
+      parsed
+        .filter(object => object.id && object.tle1 && object.tle2)
+        .forEach(object => {
+          const id = this.getObjectId(object.name, object.catalogNumber);
+          this.objects.set(id, { ...object, id });
+        });
+    } catch (error) {
+      console.warn('Failed to load custom objects from storage:', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.getObjects()));
+    } catch (error) {
+      console.warn('Failed to save custom objects to storage:', error);
+    }
+  }
+}
+
+export const customObjectsService = new CustomObjectsService();
@@ -0,0 +1,453 @@
+import { TLEData } from '../satellite-data-fetcher';
+import { TLEEpoch } from '../utils/tle-epoch';
+import { HistoricalElementSet } from '../utils/element-set-history';
+
+export interface CachedGroupInfo {
+  group: string;
+  expiry: number;    // ms since epoch
+  source: string;    // Providers the data came from (ElementProviderRegistry.getSourceKey)
+  timestamp: number; // When the group was written, ms since epoch
+  count: number;
+}
+
+export interface ElementSetQuery {
+  epochFrom?: number;     // ms since epoch, inclusive
+  epochTo?: number;       // ms since epoch, inclusive
+  newestFirst?: boolean;
+  limit?: number;
+  filter?: (elementSet: TLEData) => boolean; // Applied before the limit
+}
+
+interface HistoryRecord extends HistoricalElementSet {
+  catalogNumber: string;
+}
+
+interface ElementSetRecord {
+  group: string;
+  catalogNumber: string;
+  epoch: number; // Indexed; 0 when the TLE epoch is unreadable
+  data: TLEData;
+}
+
+/**
+ * Element sets cached in IndexedDB with one record per object, indexed by group and epoch,
+ * so the full catalogue survives between sessions and can be queried without loading a whole group.
+ * Also keeps the most recent element sets seen per object (see ElementSetHistoryService); when storage is full
+ * the oldest epochs are evicted along with the least recently written groups.
+ * Every method resolves (to empty results) when IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+export class ElementSetCacheService {
+  static readonly DB_NAME = 'satellite-element-sets';
+  static readonly SCHEMA_VERSION = 3; // Bump when the stores or indexes change, and add a step to upgradeSchema
+  static readonly MAX_HISTORY_PER_OBJECT = 200; // Older epochs of an object are dropped past this
+  private static readonly ELEMENT_SETS_STORE = 'elementSets';
+  private static readonly GROUPS_STORE = 'groups';
+  private static readonly HISTORY_STORE = 'history';
+  private static readonly LEGACY_STORAGE_PREFIX = 'satellite_cache_'; // Whole-group localStorage cache of older versions
+  private static readonly EVICTION_FRACTION = 0.3;
+
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Replace a group's element sets. When storage is full, the least recently written groups and the oldest
+   * history epochs are evicted and the write retried once.
+   * @returns Whether the group was stored
+   */
+  async putGroup(group: string, data: TLEData[], expiry: number, source: string): Promise<boolean> {
+    const db = await this.open();
+    if (!db) return false;
+
+    try {
+      await this.writeGroup(db, group, data, expiry, source);
+      return true;
+    } catch (error) {
+      if (!this.isQuotaError(error)) {
+        console.warn(`⚠️ Failed to cache element sets for '${group}':`, error);
+        return false;
+      }
+    }
+
+    const evicted = await this.evictOldestGroups(db, group);
+    const evictedHistory = await this.evictOldestHistory(db);
+    console.warn(`⚠️ Element-set cache is full, evicted ${evicted.length > 0 ? evicted.join(', ') : 'no groups'} and ${evictedHistory} history element sets`);
+    try {
+      await this.writeGroup(db, group, data, expiry, source);
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ Element sets for '${group}' do not fit in the cache and are kept in memory only:`, error);
+      return false;
+    }
+  }
+
+  async getGroupInfo(group: string): Promise<CachedGroupInfo | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    const store = db.transaction(ElementSetCacheService.GROUPS_STORE).objectStore(ElementSetCacheService.GROUPS_STORE);
+    return (await this.request<CachedGroupInfo | undefined>(store.get(group))) || null;
+  }
+
+  async getGroupInfos(): Promise<CachedGroupInfo[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const store = db.transaction(ElementSetCacheService.GROUPS_STORE).objectStore(ElementSetCacheService.GROUPS_STORE);
+    return this.request<CachedGroupInfo[]>(store.getAll());
+  }
+
+  /**
+   * Every element set of a group, in catalog number order
+   */
+  async getGroup(group: string): Promise<TLEData[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const store = db.transaction(ElementSetCacheService.ELEMENT_SETS_STORE).objectStore(ElementSetCacheService.ELEMENT_SETS_STORE);
+    const records = await this.request<ElementSetRecord[]>(store.getAll(this.groupRange(group)));
+    return records.map(record => record.data);
+  }
+
+  async getElementSet(group: string, catalogNumber: string): Promise<TLEData | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    const store = db.transaction(ElementSetCacheService.ELEMENT_SETS_STORE).objectStore(ElementSetCacheService.ELEMENT_SETS_STORE);
+    const record = await this.request<ElementSetRecord | undefined>(store.get([group, catalogNumber]));
+    return record ? record.data : null;
+  }
+
+  /**
+   * Element sets of a group by epoch, read with a cursor so only matching records are kept in memory
+   */
+  async query(group: string, query: ElementSetQuery = {}): Promise<TLEData[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const limit = query.limit ?? Infinity;
+    const range = IDBKeyRange.bound([group, query.epochFrom ?? -Infinity], [group, query.epochTo ?? Infinity]);
+    const index = db.transaction(ElementSetCacheService.ELEMENT_SETS_STORE)
+      .objectStore(ElementSetCacheService.ELEMENT_SETS_STORE)
+      .index('group-epoch');
+
+    return new Promise((resolve, reject) => {
+      const results: TLEData[] = [];
+      const cursorRequest = index.openCursor(range, query.newestFirst ? 'prev' : 'next');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || results.length >= limit) {
+          resolve(results);
+          return;
+        }
+        const data = (cursor.value as ElementSetRecord).data;
+        if (!query.filter || query.filter(data)) {
+          results.push(data);
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  async count(group: string): Promise<number> {
+    const db = await this.open();
+    if (!db) return 0;
+
+    const store = db.transaction(ElementSetCacheService.ELEMENT_SETS_STORE).objectStore(ElementSetCacheService.ELEMENT_SETS_STORE);
+    return this.request<number>(store.count(this.groupRange(group)));
+  }
+
+  async deleteGroup(group: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction([ElementSetCacheService.ELEMENT_SETS_STORE, ElementSetCacheService.GROUPS_STORE], 'readwrite');
+    transaction.objectStore(ElementSetCacheService.ELEMENT_SETS_STORE).delete(this.groupRange(group));
+    transaction.objectStore(ElementSetCacheService.GROUPS_STORE).delete(group);
+    await this.complete(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    // Histories are kept - they may hold archive imports that cannot be downloaded again
+    const transaction = db.transaction([ElementSetCacheService.ELEMENT_SETS_STORE, ElementSetCacheService.GROUPS_STORE], 'readwrite');
+    transaction.objectStore(ElementSetCacheService.ELEMENT_SETS_STORE).clear();
+    transaction.objectStore(ElementSetCacheService.GROUPS_STORE).clear();
+    await this.complete(transaction);
+  }
+
+  /**
+   * Add element sets to the per-object histories. Sets already stored (same object and epoch) are overwritten,
+   * and each object keeps its MAX_HISTORY_PER_OBJECT most recent epochs. When storage is full, the oldest
+   * epochs of all objects are evicted and the write retried once.
+   */
+  async putHistory(entries: Array<{ catalogNumber: string; elementSet: HistoricalElementSet }>): Promise<boolean> {
+    const db = await this.open();
+    if (!db || entries.length === 0) return false;
+
+    try {
+      await this.writeHistory(db, entries);
+      return true;
+    } catch (error) {
+      if (!this.isQuotaError(error)) {
+        console.warn('⚠️ Failed to store element-set history:', error);
+        return false;
+      }
+    }
+
+    const evicted = await this.evictOldestHistory(db);
+    console.warn(`⚠️ Element-set cache is full, evicted ${evicted} history element sets`);
+    try {
+      await this.writeHistory(db, entries);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Element-set history does not fit in the cache and is kept in memory only:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Every stored element set of an object, oldest first
+   */
+  async getHistory(catalogNumber: string): Promise<HistoricalElementSet[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const store = db.transaction(ElementSetCacheService.HISTORY_STORE).objectStore(ElementSetCacheService.HISTORY_STORE);
+    const records = await this.request<HistoryRecord[]>(store.getAll(this.historyRange(catalogNumber)));
+    return records.map(record => ({ epoch: record.epoch, tle1: record.tle1, tle2: record.tle2 }));
+  }
+
+  /**
+   * Storage used by this origin (not just this cache) and its quota, when the browser reports it
+   */
+  async getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const estimate = await navigator.storage.estimate();
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(ElementSetCacheService.DB_NAME, ElementSetCacheService.SCHEMA_VERSION);
+        request.onupgradeneeded = (event) => {
+          if (event.oldVersion > 0) {
+            console.log(`🗄️ Element-set cache schema ${event.oldVersion} -> ${ElementSetCacheService.SCHEMA_VERSION}`);
+          }
+          this.upgradeSchema(request.result, request.transaction!, event.oldVersion);
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab is upgrading the schema - let it, and reopen on next use
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+          this.migrateLegacyCache();
+        };
+        request.onerror = () => {
+          console.warn('⚠️ Element-set cache unavailable:', request.error);
+          resolve(null);
+        };
+        request.onblocked = () => {
+          console.warn('⚠️ Element-set cache upgrade is blocked by another open tab');
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Apply every schema step after the stored version, so upgrades keep existing data
+   */
+  private upgradeSchema(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    if (oldVersion < 1) {
+      const elementSets = db.createObjectStore(ElementSetCacheService.ELEMENT_SETS_STORE, { keyPath: ['group', 'catalogNumber'] });
+      elementSets.createIndex('group-epoch', ['group', 'epoch']);
+      db.createObjectStore(ElementSetCacheService.GROUPS_STORE, { keyPath: 'group' });
+    }
+    if (oldVersion < 2) {
+      db.createObjectStore(ElementSetCacheService.HISTORY_STORE, { keyPath: ['catalogNumber', 'epoch'] });
+    }
+    if (oldVersion < 3) {
+      // Oldest epochs across all objects, for eviction
+      transaction.objectStore(ElementSetCacheService.HISTORY_STORE).createIndex('epoch', 'epoch');
+    }
+  }
+
+  private async writeGroup(db: IDBDatabase, group: string, data: TLEData[], expiry: number, source: string): Promise<void> {
+    const transaction = db.transaction([ElementSetCacheService.ELEMENT_SETS_STORE, ElementSetCacheService.GROUPS_STORE], 'readwrite');
+    const elementSets = transaction.objectStore(ElementSetCacheService.ELEMENT_SETS_STORE);
+
+    elementSets.delete(this.groupRange(group));
+    for (const tle of data) {
+      const record: ElementSetRecord = {
+        group,
+        catalogNumber: tle.catalogNumber,
+        epoch: tle.epoch ?? TLEEpoch.parseEpoch(tle.tle1) ?? 0,
+        data: tle
+      };
+      elementSets.put(record);
+    }
+
+    const info: CachedGroupInfo = { group, expiry, source, timestamp: Date.now(), count: data.length };
+    transaction.objectStore(ElementSetCacheService.GROUPS_STORE).put(info);
+    await this.complete(transaction);
+  }
+
+  private async writeHistory(db: IDBDatabase, entries: Array<{ catalogNumber: string; elementSet: HistoricalElementSet }>): Promise<void> {
+    const transaction = db.transaction(ElementSetCacheService.HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(ElementSetCacheService.HISTORY_STORE);
+    for (const { catalogNumber, elementSet } of entries) {
+      const record: HistoryRecord = { catalogNumber, ...elementSet };
+      store.put(record);
+    }
+
+    // Trim in the same transaction, after the puts, so the newest epochs are counted
+    for (const catalogNumber of new Set(entries.map(entry => entry.catalogNumber))) {
+      const range = this.historyRange(catalogNumber);
+      const countRequest = store.count(range);
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - ElementSetCacheService.MAX_HISTORY_PER_OBJECT;
+        if (excess <= 0) return;
+
+        // Keys sort by epoch within an object, so the cursor starts at the oldest
+        const cursorRequest = store.openKeyCursor(range);
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess <= 0) return;
+          store.delete(cursor.primaryKey);
+          excess--;
+          cursor.continue();
+        };
+      };
+    }
+    await this.complete(transaction);
+  }
+
+  /**
+   * Delete the oldest history epochs across all objects to free space
+   * @returns Number of element sets evicted
+   */
+  private async evictOldestHistory(db: IDBDatabase): Promise<number> {
+    try {
+      const transaction = db.transaction(ElementSetCacheService.HISTORY_STORE, 'readwrite');
+      const store = transaction.objectStore(ElementSetCacheService.HISTORY_STORE);
+      let evicted = 0;
+
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        const target = Math.floor(countRequest.result * ElementSetCacheService.EVICTION_FRACTION);
+        const cursorRequest = store.index('epoch').openKeyCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || evicted >= target) return;
+          store.delete(cursor.primaryKey);
+          evicted++;
+          cursor.continue();
+        };
+      };
+      await this.complete(transaction);
+      return evicted;
+    } catch (error) {
+      console.warn('⚠️ Failed to evict element-set history:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete the least recently written groups (other than the one being written) to free space
+   * @returns Evicted group names
+   */
+  private async evictOldestGroups(db: IDBDatabase, keepGroup: string): Promise<string[]> {
+    try {
+      const candidates = (await this.getGroupInfos())
+        .filter(info => info.group !== keepGroup)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const evicted = candidates
+        .slice(0, Math.max(1, Math.floor(candidates.length * ElementSetCacheService.EVICTION_FRACTION)))
+        .map(info => info.group);
+
+      if (evicted.length > 0) {
+        const transaction = db.transaction([ElementSetCacheService.ELEMENT_SETS_STORE, ElementSetCacheService.GROUPS_STORE], 'readwrite');
+        for (const group of evicted) {
+          transaction.objectStore(ElementSetCacheService.ELEMENT_SETS_STORE).delete(this.groupRange(group));
+          transaction.objectStore(ElementSetCacheService.GROUPS_STORE).delete(group);
+        }
+        await this.complete(transaction);
+      }
+      return evicted;
+    } catch (error) {
+      console.warn('⚠️ Failed to evict cached element sets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move still-valid groups from the old localStorage cache into IndexedDB and free their localStorage space
+   */
+  private async migrateLegacyCache(): Promise<void> {
+    let keys: string[];
+    try {
+      keys = Object.keys(localStorage).filter(key => key.startsWith(ElementSetCacheService.LEGACY_STORAGE_PREFIX));
+    } catch (error) {
+      return;
+    }
+
+    for (const key of keys) {
+      try {
+        const { data, expiry, source } = JSON.parse(localStorage.getItem(key) || '{}');
+        if (Array.isArray(data) && expiry > Date.now()) {
+          await this.putGroup(key.substring(ElementSetCacheService.LEGACY_STORAGE_PREFIX.length), data, expiry, source || '');
+        }
+      } catch (error) {
+        console.warn(`⚠️ Dropping unreadable legacy cache entry ${key}:`, error);
+      }
+      localStorage.removeItem(key);
+    }
+  }
+
+  /**
+   * Primary keys of one group's records: [group, catalogNumber] for every catalog number
+   */
+  private groupRange(group: string): IDBKeyRange {
+    return IDBKeyRange.bound([group], [group, []]); // Arrays sort after strings, so [group, []] is past every catalog number
+  }
+
+  /**
+   * Primary keys of one object's history: [catalogNumber, epoch] for every epoch
+   */
+  private historyRange(catalogNumber: string): IDBKeyRange {
+    return IDBKeyRange.bound([catalogNumber, -Infinity], [catalogNumber, Infinity]);
+  }
+
+  private isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'QuotaExceededError';
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      // Quota errors abort the transaction rather than failing a single request
+      transaction.onabort = () => reject(transaction.error);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+export const elementSetCacheService = new ElementSetCacheService();
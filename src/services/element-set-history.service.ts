@@ -0,0 +1,143 @@
+import { ElementSetHistory, HistoricalElementSet } from '../utils/element-set-history';
+import { ElementSetParser } from '../utils/element-set-parser';
+import { TLEEpoch } from '../utils/tle-epoch';
+import { elementSetCacheService } from './element-set-cache.service';
+
+export interface ArchiveImportResult {
+  elementSets: number; // Element sets new to the histories
+  objects: number;     // Objects they belong to
+}
+
+/**
+ * Element-set histories per object, keyed by catalog number. They accumulate from every download and from
+ * archive files, so that past and future times are propagated from the element set closest to them.
+ *
+ * Histories are stored in IndexedDB and read on first use; until an object's history is in memory
+ * its current element set is used. Dispatches 'history-changed' when histories are loaded or grow.
+ */
+export class ElementSetHistoryService extends EventTarget {
+  // Close to the current element set's epoch there is nothing better to use, so histories are not even read
+  private static readonly NEAR_EPOCH_MS = 12 * 60 * 60 * 1000;
+  private static readonly CHANGE_EVENT_DELAY_MS = 200;
+
+  private histories: Map<string, HistoricalElementSet[]> = new Map();
+  private loading: Set<string> = new Set();
+  private changeScheduled = false;
+
+  /**
+   * The element set to propagate an object from at a given time
+   * @param tle1 The object's current TLE line 1
+   * @param tle2 The object's current TLE line 2
+   * @param time ms since epoch
+   * @returns The history entry nearest the time, or the current lines if they are at least as close
+   */
+  getElementSetAt(tle1: string, tle2: string, time: number): { tle1: string; tle2: string } {
+    const epoch = TLEEpoch.parseEpoch(tle1);
+    if (epoch === null || Math.abs(time - epoch) < ElementSetHistoryService.NEAR_EPOCH_MS) {
+      return { tle1, tle2 };
+    }
+
+    const history = this.getHistory(tle1);
+    const nearest = history && ElementSetHistory.selectNearest(history, time);
+    return nearest && Math.abs(nearest.epoch - time) < Math.abs(epoch - time) ? nearest : { tle1, tle2 };
+  }
+
+  /**
+   * History of the object a TLE belongs to, oldest first
+   * @returns The history, or null until it has been read from storage (reading starts on the first call)
+   */
+  getHistory(tle1: string): HistoricalElementSet[] | null {
+    const catalogNumber = ElementSetHistory.getCatalogNumber(tle1);
+    const history = this.histories.get(catalogNumber);
+    if (!history) {
+      this.load(catalogNumber);
+    }
+    return history || null;
+  }
+
+  /**
+   * Add element sets to the histories, e.g. every element set of a fresh download
+   * @returns Number of element sets that were not in the loaded histories yet
+   */
+  record(elementSets: Array<{ tle1: string; tle2: string }>): number {
+    const entries: Array<{ catalogNumber: string; elementSet: HistoricalElementSet }> = [];
+    let loadedHistoryChanged = false;
+
+    for (const { tle1, tle2 } of elementSets) {
+      const elementSet = ElementSetHistory.fromTLE(tle1, tle2);
+      if (!elementSet) continue;
+
+      const catalogNumber = ElementSetHistory.getCatalogNumber(tle1);
+      let history = this.histories.get(catalogNumber);
+      if (!history && this.loading.has(catalogNumber)) {
+        // The read in progress merges its results into this
+        history = [];
+        this.histories.set(catalogNumber, history);
+      }
+      if (history) {
+        if (!ElementSetHistory.insert(history, elementSet)) continue;
+        loadedHistoryChanged = true;
+      }
+      entries.push({ catalogNumber, elementSet });
+    }
+
+    if (entries.length > 0) {
+      elementSetCacheService.putHistory(entries);
+    }
+    if (loadedHistoryChanged) {
+      this.scheduleChanged();
+    }
+    return entries.length;
+  }
+
+  /**
+   * Add an archive of element sets in any format ElementSetParser reads, typically several epochs per object
+   */
+  importArchive(text: string): ArchiveImportResult {
+    const elementSets = ElementSetParser.parse(text)
+      .filter(elementSet => ElementSetParser.validateTLE(elementSet.tle1, elementSet.tle2) === null);
+    return {
+      elementSets: this.record(elementSets),
+      objects: new Set(elementSets.map(elementSet => elementSet.catalogNumber)).size
+    };
+  }
+
+  private load(catalogNumber: string): void {
+    if (this.loading.has(catalogNumber)) return;
+    this.loading.add(catalogNumber);
+
+    elementSetCacheService.getHistory(catalogNumber)
+      .then(stored => {
+        const history = this.histories.get(catalogNumber);
+        if (history) {
+          stored.forEach(elementSet => ElementSetHistory.insert(history, elementSet));
+        } else {
+          this.histories.set(catalogNumber, stored);
+        }
+        if (stored.length > 0) {
+          this.scheduleChanged();
+        }
+      })
+      .catch(error => {
+        console.warn(`⚠️ Failed to read element-set history of ${catalogNumber}:`, error);
+        if (!this.histories.has(catalogNumber)) {
+          this.histories.set(catalogNumber, []);
+        }
+      })
+      .finally(() => this.loading.delete(catalogNumber));
+  }
+
+  /**
+   * Batch change events - after a time jump many histories are read at once, and each event means re-propagating
+   */
+  private scheduleChanged(): void {
+    if (this.changeScheduled) return;
+    this.changeScheduled = true;
+    setTimeout(() => {
+      this.changeScheduled = false;
+      this.dispatchEvent(new CustomEvent('history-changed'));
+    }, ElementSetHistoryService.CHANGE_EVENT_DELAY_MS);
+  }
+}
+
+export const elementSetHistoryService = new ElementSetHistoryService();
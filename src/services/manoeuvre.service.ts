@@ -0,0 +1,105 @@
+import { ManoeuvreChange, ManoeuvreDetector } from '../utils/manoeuvre-detector';
+
+export interface ManoeuvreEvent extends ManoeuvreChange {
+  id: string;            // Catalog number and epoch of the element set that shows the manoeuvre
+  catalogNumber: string;
+  name: string;
+  group: string;         // Element-set group whose refresh detected it
+  detectedAt: number;    // ms since epoch
+}
+
+/**
+ * Manoeuvres found by comparing each object's elements between successive fetches of a group,
+ * e.g. station-keeping burns and orbit raises. Persisted in localStorage, newest first;
+ * dispatches 'manoeuvres-changed' when events are added or cleared.
+ */
+export class ManoeuvreService extends EventTarget {
+  private static readonly MAX_EVENTS = 1000;
+  private readonly STORAGE_KEY = 'manoeuvre_events';
+  private events: ManoeuvreEvent[] = [];
+
+  constructor() {
+    super();
+    this.loadFromStorage();
+  }
+
+  /**
+   * Compare a group's refreshed element sets with the ones they replace
+   * @returns Newly detected events
+   */
+  compareGroups(
+    group: string,
+    previous: Array<{ catalogNumber: string; tle1: string; tle2: string }>,
+    current: Array<{ catalogNumber: string; name: string; tle1: string; tle2: string }>
+  ): ManoeuvreEvent[] {
+    const previousByCatalogNumber = new Map(previous.map(elementSet => [elementSet.catalogNumber, elementSet]));
+    const known = new Set(this.events.map(event => event.id));
+    const detectedAt = Date.now();
+    const added: ManoeuvreEvent[] = [];
+
+    for (const elementSet of current) {
+      const before = previousByCatalogNumber.get(elementSet.catalogNumber);
+      const change = before && ManoeuvreDetector.detect(before, elementSet);
+      if (!change) continue;
+
+      // The same element sets arrive again through overlapping groups
+      const id = `${elementSet.catalogNumber}-${change.epoch}`;
+      if (known.has(id)) continue;
+      known.add(id);
+
+      added.push({ id, catalogNumber: elementSet.catalogNumber, name: elementSet.name, group, detectedAt, ...change });
+    }
+
+    if (added.length > 0) {
+      console.log(`🚀 Detected ${added.length} manoeuvre${added.length !== 1 ? 's' : ''} in '${group}'`);
+      this.events = [...added, ...this.events]
+        .sort((a, b) => b.epoch - a.epoch)
+        .slice(0, ManoeuvreService.MAX_EVENTS);
+      this.saveToStorage();
+      this.dispatchEvent(new CustomEvent('manoeuvres-changed'));
+    }
+    return added;
+  }
+
+  /**
+   * Events whose manoeuvre element set is at most the given number of days old, newest first
+   */
+  getRecentEvents(days: number): ManoeuvreEvent[] {
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return this.events.filter(event => event.epoch >= since);
+  }
+
+  getEvents(): ManoeuvreEvent[] {
+    return this.events;
+  }
+
+  clear(): void {
+    if (this.events.length === 0) return;
+    this.events = [];
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.dispatchEvent(new CustomEvent('manoeuvres-changed'));
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const storedData = localStorage.getItem(this.STORAGE_KEY);
+      if (!storedData) return;
+
+      this.events = (JSON.parse(storedData) as ManoeuvreEvent[])
+        .filter(event => event.id && event.catalogNumber && Array.isArray(event.kinds));
+    } catch (error) {
+      console.warn('Failed to load manoeuvre events from storage:', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.events));
+    } catch (error) {
+      console.warn('Failed to save manoeuvre events to storage:', error);
+    }
+  }
+}
+
+export const manoeuvreService = new ManoeuvreService();
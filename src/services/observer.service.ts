@@ -0,0 +1,119 @@
+import { ObserverLocation } from '../types/satellite';
+
+export type ObserverSource = 'manual' | 'geolocation';
+
+export interface StoredObserverLocation extends ObserverLocation {
+  source: ObserverSource;
+}
+
+/**
+ * Ground observer location shared by the cockpit, pass predictions and the browser.
+ * The location is persisted in localStorage and dispatches 'observer-changed' when updated.
+ */
+export class ObserverService extends EventTarget {
+  private readonly STORAGE_KEY = 'observer_location';
+  private observer: StoredObserverLocation | null = null;
+
+  constructor() {
+    super();
+    this.loadFromStorage();
+  }
+
+  getObserver(): StoredObserverLocation | null {
+    return this.observer;
+  }
+
+  /**
+   * Set the observer location from manually entered coordinates
+   * @param latitude Latitude in degrees (-90 to 90)
+   * @param longitude Longitude in degrees (-180 to 180)
+   * @param altitude Altitude above the ellipsoid in km
+   * @returns false if the coordinates are out of range
+   */
+  setManualLocation(latitude: number, longitude: number, altitude: number = 0): boolean {
+    if (!ObserverService.isValidLocation(latitude, longitude, altitude)) {
+      return false;
+    }
+
+    this.setObserver({ latitude, longitude, altitude, source: 'manual' });
+    return true;
+  }
+
+  /**
+   * Ask the browser for the current position and use it as the observer location
+   */
+  requestGeolocation(): Promise<StoredObserverLocation> {
+    return new Promise((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(new Error('Geolocation is not supported by this browser'));
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          const observer: StoredObserverLocation = {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            altitude: (position.coords.altitude || 0) / 1000,
+            source: 'geolocation'
+          };
+          this.setObserver(observer);
+          resolve(observer);
+        },
+        (error) => reject(new Error(error.message)),
+        { enableHighAccuracy: false, timeout: 10000, maximumAge: 10 * 60 * 1000 }
+      );
+    });
+  }
+
+  clearObserver(): void {
+    this.observer = null;
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.dispatchEvent(new CustomEvent('observer-changed', { detail: null }));
+  }
+
+  static isValidLocation(latitude: number, longitude: number, altitude: number): boolean {
+    return isFinite(latitude) && isFinite(longitude) && isFinite(altitude) &&
+      latitude >= -90 && latitude <= 90 &&
+      longitude >= -180 && longitude <= 180 &&
+      altitude > -1 && altitude < 100;
+  }
+
+  private setObserver(observer: StoredObserverLocation): void {
+    this.observer = observer;
+    this.saveToStorage();
+    this.dispatchEvent(new CustomEvent('observer-changed', { detail: observer }));
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const storedData = localStorage.getItem(this.STORAGE_KEY);
+      if (!storedData) return;
+
+      const parsed = JSON.parse(storedData) as StoredObserverLocation;
+      if (ObserverService.isValidLocation(parsed.latitude, parsed.longitude, parsed.altitude)) {
+        this.observer = {
+          latitude: parsed.latitude,
+          longitude: parsed.longitude,
+          altitude: parsed.altitude,
+          source: parsed.source === 'geolocation' ? 'geolocation' : 'manual'
+        };
+      } else {
+        localStorage.removeItem(this.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to load observer location from storage:', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.observer));
+    } catch (error) {
+      console.warn('Failed to save observer location to storage:', error);
+    }
+  }
+}
+
+export const observerService = new ObserverService();
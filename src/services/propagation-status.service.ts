@@ -0,0 +1,74 @@
+import { PropagationFailure } from '../utils/propagation-errors';
+import { ElementSetHistory } from '../utils/element-set-history';
+
+export interface PropagationIssue extends PropagationFailure {
+  id: string;
+  name: string;
+  catalogNumber: string;
+  time: number; // Simulation time of the failed propagation, ms since epoch
+}
+
+/**
+ * Objects whose element sets failed to propagate, shared by the map and the browser so that
+ * decayed or invalid objects are reported instead of silently dropped.
+ * Dispatches 'propagation-status-changed' when objects fail or propagate again.
+ */
+export class PropagationStatusService extends EventTarget {
+  private static readonly CHANGE_EVENT_DELAY_MS = 200;
+
+  private issues: Map<string, PropagationIssue> = new Map();
+  private changeScheduled = false;
+
+  /**
+   * Record that an object failed to propagate
+   * @param time Simulation time of the propagation, ms since epoch
+   */
+  report(id: string, name: string, tle1: string, failure: PropagationFailure, time: number): void {
+    const existing = this.issues.get(id);
+    if (existing && existing.status === failure.status && existing.reason === failure.reason) {
+      return;
+    }
+
+    if (!existing) {
+      console.warn(`⚠️ ${name} failed to propagate: ${failure.reason}`);
+    }
+    this.issues.set(id, { id, name, catalogNumber: ElementSetHistory.getCatalogNumber(tle1), time, ...failure });
+    this.scheduleChanged();
+  }
+
+  /**
+   * Clear an object's issue after it propagated successfully, e.g. after a time jump back before its decay
+   */
+  resolve(id: string): void {
+    if (this.issues.delete(id)) {
+      this.scheduleChanged();
+    }
+  }
+
+  getIssue(id: string): PropagationIssue | undefined {
+    return this.issues.get(id);
+  }
+
+  /**
+   * Every object that currently fails to propagate, decayed objects first
+   */
+  getIssues(): PropagationIssue[] {
+    return Array.from(this.issues.values()).sort((a, b) =>
+      a.status.localeCompare(b.status) || a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Batch change events - loading a catalogue reports many objects at once
+   */
+  private scheduleChanged(): void {
+    if (this.changeScheduled) return;
+    this.changeScheduled = true;
+    setTimeout(() => {
+      this.changeScheduled = false;
+      this.dispatchEvent(new CustomEvent('propagation-status-changed'));
+    }, PropagationStatusService.CHANGE_EVENT_DELAY_MS);
+  }
+}
+
+export const propagationStatusService = new PropagationStatusService();
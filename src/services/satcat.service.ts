@@ -0,0 +1,113 @@
+import { SatcatRecord, SatelliteData } from '../types/satellite';
+import { SATCAT_SOURCES } from '../config/satcat';
+import { SatcatParser } from '../utils/satcat-parser';
+import { ElementSetHistory } from '../utils/element-set-history';
+
+/**
+ * Satellite catalogue metadata (owner, launch date and site, radar cross-section, operational
+ * status, decay date) joined to objects by NORAD catalog number.
+ * Dispatches 'satcat-loaded' when a catalogue replaces the current one.
+ */
+export class SatcatService extends EventTarget {
+  private records: Map<string, SatcatRecord> = new Map();
+  private source: string | null = null;
+  private loadPromise: Promise<boolean> | null = null;
+
+  /**
+   * Load the catalogue once from the first source that answers with a usable CSV
+   * @returns Whether a catalogue is loaded
+   */
+  load(sources: string[] = SATCAT_SOURCES): Promise<boolean> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        for (const url of sources) {
+          if (await this.loadFromUrl(url)) {
+            return true;
+          }
+        }
+        console.warn('⚠️ No satellite catalogue available; owner and launch data will be missing');
+        return false;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Replace the catalogue with the CSV at a URL. A failed download or unusable file keeps the current one.
+   */
+  async loadFromUrl(url: string): Promise<boolean> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return false;
+
+      // Dev servers answer unknown paths with index.html, which has no NORAD_CAT_ID column
+      return this.loadFromText(await response.text(), url);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Replace the catalogue with SATCAT CSV text
+   * @returns Whether the text held any catalogue records
+   */
+  loadFromText(text: string, source: string): boolean {
+    let records: SatcatRecord[];
+    try {
+      records = SatcatParser.parseCSV(text);
+    } catch (error) {
+      console.warn(`⚠️ Ignoring satellite catalogue from ${source}:`, error);
+      return false;
+    }
+    if (records.length === 0) return false;
+
+    this.records = new Map(records.map(record => [record.catalogNumber, record]));
+    this.source = source;
+    console.log(`📇 Loaded ${this.records.size} catalogue records from ${source}`);
+    this.dispatchEvent(new CustomEvent('satcat-loaded', { detail: { count: this.records.size, source } }));
+    return true;
+  }
+
+  isLoaded(): boolean {
+    return this.records.size > 0;
+  }
+
+  getSource(): string | null {
+    return this.source;
+  }
+
+  getRecord(catalogNumber: string): SatcatRecord | undefined {
+    // TLE catalog numbers are zero-padded to five digits; SATCAT's are not
+    return this.records.get(catalogNumber.replace(/^0+(?=\d)/, ''));
+  }
+
+  /**
+   * Copy an object's catalogue fields onto it, found by the catalog number of its element set
+   * @returns Whether the object is in the catalogue
+   */
+  join(satellite: SatelliteData): boolean {
+    const record = this.getRecord(ElementSetHistory.getCatalogNumber(satellite.tle1));
+    if (!record) return false;
+
+    satellite.owner = record.owner;
+    satellite.launchDate = record.launchDate;
+    satellite.launchSite = record.launchSite;
+    satellite.rcs = record.rcs;
+    satellite.operationalStatus = record.operationalStatus;
+    satellite.decayDate = record.decayDate;
+    return true;
+  }
+
+  /**
+   * @returns How many of the objects are in the catalogue
+   */
+  joinAll(satellites: Iterable<SatelliteData>): number {
+    let joined = 0;
+    for (const satellite of satellites) {
+      if (this.join(satellite)) joined++;
+    }
+    return joined;
+  }
+}
+
+export const satcatService = new SatcatService();
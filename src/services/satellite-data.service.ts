@@ -1,12 +1,31 @@
 import { LngLat } from 'maplibre-gl';
 import { SatelliteData, SatelliteConfig } from '../types/satellite';
 import { SatelliteCalculator } from '../utils/satellite-calculator';
+import { propagationStatusService } from './propagation-status.service';
+import { satcatService } from './satcat.service';
 import { SATELLITE_CONFIGS_WITH_STARLINK } from '../config/satellites';
+import { ObjectTaxonomy } from '../utils/object-taxonomy';
+import { simulationClock } from '../simulation-clock';
 
 export class SatelliteDataService extends EventTarget {
   private satellites: Map<string, SatelliteData> = new Map();
   private onlineSatellitesLoaded: boolean = false;
 
+  constructor() {
+    super();
+
+    // Catalogue metadata arrives after the element sets; join it and let views refresh
+    satcatService.addEventListener('satcat-loaded', () => {
+      satcatService.joinAll(this.satellites.values());
+      this.dispatchEvent(new CustomEvent('satellites-updated', {
+        detail: {
+          addedCount: 0,
+          totalCount: this.satellites.size
+        }
+      }));
+    });
+  }
+
   async initialize(): Promise<void> {
     this.loadSatelliteConfigs();
     
@@ -26,17 +45,12 @@ export class SatelliteDataService extends EventTarget {
         
         console.log(`🐛 Loading satellite from service config: ${config.id}`);
         
-        const position = SatelliteCalculator.calculatePosition(config.tle1, config.tle2);
-        
-        // Validate position data
-        if (!SatelliteCalculator.isValidPosition(position)) {
-          return; // Skip this satellite
-        }
-        
+        const taxonomy = ObjectTaxonomy.classify(config.alternateName || config.name || config.id, config);
+
         // Add default dimensions if not specified
         let dimensions = config.dimensions;
         if (!dimensions) {
-          dimensions = SatelliteCalculator.getDefaultDimensionsForType(config.type || 'communication', config.id);
+          dimensions = SatelliteCalculator.getDefaultDimensionsForType(taxonomy.type, config.id);
         }
         
         const satelliteData: SatelliteData = {
@@ -44,7 +58,7 @@ export class SatelliteDataService extends EventTarget {
           name: config.name || config.id,
           shortname: config.shortname,
           alternateName: config.alternateName,
-          type: config.type || 'communication',
+          ...taxonomy,
           tle1: config.tle1,
           tle2: config.tle2,
           dimensions,
@@ -53,11 +67,16 @@ export class SatelliteDataService extends EventTarget {
           defaultZoom: config.defaultZoom,
           defaultPitch: config.defaultPitch,
           scaleFactor: config.scaleFactor,
-          position: new LngLat(position.longitude, position.latitude),
-          altitude: position.altitude,
-          velocity: position.velocity
+          swathWidthKm: config.swathWidthKm,
+          offNadirRange: config.offNadirRange,
+          position: new LngLat(0, 0),
+          altitude: NaN,
+          velocity: NaN
         };
         
+        // Objects that fail to propagate stay listed, marked decayed or invalid
+        this.applyPropagation(satelliteData, simulationClock.getDate());
+        satcatService.join(satelliteData);
         this.satellites.set(config.id, satelliteData);
         
         // Debug Landsat satellites specifically
@@ -80,15 +99,10 @@ export class SatelliteDataService extends EventTarget {
   }
 
   updateSatellitePositions(): void {
+    const time = simulationClock.getDate();
     for (const [id, satellite] of this.satellites) {
       try {
-        const position = SatelliteCalculator.calculatePosition(satellite.tle1, satellite.tle2);
-        
-        if (SatelliteCalculator.isValidPosition(position)) {
-          satellite.position = new LngLat(position.longitude, position.latitude);
-          satellite.altitude = position.altitude;
-          satellite.velocity = position.velocity;
-        }
+        this.applyPropagation(satellite, time);
       } catch (error) {
         console.error(`❌ Error updating satellite ${id}:`, error);
       }
@@ -108,31 +122,32 @@ export class SatelliteDataService extends EventTarget {
           return false;
         }
         
-        const position = SatelliteCalculator.calculatePosition(config.tle1, config.tle2);
+        const taxonomy = ObjectTaxonomy.classify(config.alternateName || config.name || config.id, config);
+        const satelliteData: SatelliteData = {
+          id: config.id,
+          name: config.name || config.id,
+          shortname: config.shortname,
+          alternateName: config.alternateName,
+          ...taxonomy,
+          tle1: config.tle1,
+          tle2: config.tle2,
+          dimensions: config.dimensions || SatelliteCalculator.getDefaultDimensionsForType(taxonomy.type, config.id),
+          image: config.image,
+          defaultBearing: config.defaultBearing,
+          defaultZoom: config.defaultZoom,
+          defaultPitch: config.defaultPitch,
+          scaleFactor: config.scaleFactor,
+          swathWidthKm: config.swathWidthKm,
+          offNadirRange: config.offNadirRange,
+          position: new LngLat(0, 0),
+          altitude: NaN,
+          velocity: NaN
+        };
         
-        if (SatelliteCalculator.isValidPosition(position)) {
-          const satelliteData: SatelliteData = {
-            id: config.id,
-            name: config.name || config.id,
-            shortname: config.shortname,
-            alternateName: config.alternateName,
-            type: config.type || 'communication',
-            tle1: config.tle1,
-            tle2: config.tle2,
-            dimensions: config.dimensions || SatelliteCalculator.getDefaultDimensionsForType(config.type || 'communication', config.id),
-            image: config.image,
-            defaultBearing: config.defaultBearing,
-            defaultZoom: config.defaultZoom,
-            defaultPitch: config.defaultPitch,
-            scaleFactor: config.scaleFactor,
-            position: new LngLat(position.longitude, position.latitude),
-            altitude: position.altitude,
-            velocity: position.velocity
-          };
-          
-          this.satellites.set(config.id, satelliteData);
-          return true;
-        }
+        this.applyPropagation(satelliteData, simulationClock.getDate());
+        satcatService.join(satelliteData);
+        this.satellites.set(config.id, satelliteData);
+        return true;
       } catch (error) {
         console.error(`❌ Error loading config satellite ${satelliteId}:`, error);
       }
@@ -140,6 +155,27 @@ export class SatelliteDataService extends EventTarget {
     return false;
   }
 
+  /**
+   * Propagate a satellite to a time (the simulation time) and set its position, or mark it decayed or invalid
+   * (keeping its last position) when it fails to propagate
+   */
+  private applyPropagation(satellite: SatelliteData, time: Date): void {
+    const result = SatelliteCalculator.propagate(satellite.tle1, satellite.tle2, time);
+    if (result.failure) {
+      satellite.status = result.failure.status;
+      satellite.statusReason = result.failure.reason;
+      propagationStatusService.report(satellite.id, satellite.name, satellite.tle1, result.failure, time.getTime());
+      return;
+    }
+
+    satellite.position = new LngLat(result.position.longitude, result.position.latitude);
+    satellite.altitude = result.position.altitude;
+    satellite.velocity = result.position.velocity;
+    satellite.status = 'ok';
+    delete satellite.statusReason;
+    propagationStatusService.resolve(satellite.id);
+  }
+
   searchSatellites(query: string): SatelliteData[] {
     const lowerQuery = query.toLowerCase().trim();
     if (lowerQuery.length < 2) return [];
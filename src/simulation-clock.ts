@@ -0,0 +1,142 @@
+// Central simulation clock - every propagation path reads the time from here instead of the wall clock
+
+export interface ClockState {
+  time: number;     // Simulation time in ms since epoch
+  rate: number;     // Simulated seconds per real second (negative = reverse)
+  paused: boolean;
+}
+
+export type ClockChangeReason = 'jump' | 'rate' | 'pause';
+
+export class SimulationClock extends EventTarget {
+  static readonly SPEEDS = [1, 10, 100, 1000];
+
+  // Simulation time is extrapolated from an anchor so it stays continuous between reads
+  private anchorSimTime = Date.now();
+  private anchorRealTime = Date.now();
+  private rate = 1;
+  private paused = false;
+
+  /**
+   * Current simulation time in milliseconds since epoch
+   */
+  now(): number {
+    if (this.paused) {
+      return this.anchorSimTime;
+    }
+    return this.anchorSimTime + (Date.now() - this.anchorRealTime) * this.rate;
+  }
+
+  /**
+   * Current simulation time as a Date
+   */
+  getDate(): Date {
+    return new Date(this.now());
+  }
+
+  getState(): ClockState {
+    return { time: this.now(), rate: this.rate, paused: this.paused };
+  }
+
+  /**
+   * Jump to a specific simulation time, keeping the current speed and pause state
+   */
+  setTime(time: Date | number): void {
+    const timestamp = typeof time === 'number' ? time : time.getTime();
+    if (!isFinite(timestamp)) return;
+
+    this.anchorSimTime = timestamp;
+    this.anchorRealTime = Date.now();
+    this.notify('jump');
+  }
+
+  /**
+   * Set the playback speed multiplier, keeping the current direction
+   * @param speed Positive speed multiplier (1 = real time)
+   */
+  setSpeed(speed: number): void {
+    if (!isFinite(speed) || speed <= 0) return;
+    this.setRate(this.isReverse() ? -speed : speed);
+  }
+
+  getSpeed(): number {
+    return Math.abs(this.rate);
+  }
+
+  /**
+   * Play time backwards (true) or forwards (false) at the current speed
+   */
+  setReverse(reverse: boolean): void {
+    if (reverse !== this.isReverse()) {
+      this.setRate(-this.rate);
+    }
+  }
+
+  isReverse(): boolean {
+    return this.rate < 0;
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.anchorSimTime = this.now();
+    this.anchorRealTime = Date.now();
+    this.paused = true;
+    this.notify('pause');
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.anchorRealTime = Date.now();
+    this.paused = false;
+    this.notify('pause');
+  }
+
+  togglePause(): boolean {
+    if (this.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+    return this.paused;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Return to live real-time playback
+   */
+  resetToRealTime(): void {
+    this.rate = 1;
+    this.paused = false;
+    this.setTime(Date.now());
+  }
+
+  /**
+   * True when the clock follows the wall clock (1x, forward, not paused, within a second of now)
+   */
+  isRealTime(): boolean {
+    return !this.paused && this.rate === 1 && Math.abs(this.now() - Date.now()) < 1000;
+  }
+
+  private setRate(rate: number): void {
+    // Re-anchor so the simulation time does not jump when the rate changes
+    this.anchorSimTime = this.now();
+    this.anchorRealTime = Date.now();
+    this.rate = rate;
+    this.notify('rate');
+  }
+
+  private notify(reason: ClockChangeReason): void {
+    this.dispatchEvent(new CustomEvent('clock-changed', {
+      detail: { reason, ...this.getState() }
+    }));
+  }
+}
+
+export const simulationClock = new SimulationClock();
@@ -1,5 +1,7 @@
 // Ultra-smooth satellite tracking system for zero-lag video-like performance
 import * as satellite from 'satellite.js';
+import { simulationClock } from './simulation-clock';
+import { elementSetHistoryService } from './services/element-set-history.service';
 
 export interface PredictivePosition {
   longitude: number;
@@ -48,7 +50,7 @@ export class SmoothTracker {
     this.stopTracking();
     
     // Calculate initial state
-    const now = Date.now();
+    const now = simulationClock.now();
     const position = this.calculateExactPosition(tle1, tle2, now);
     
     // Calculate orbital period for prediction accuracy
@@ -101,7 +103,7 @@ export class SmoothTracker {
   getPredictedPosition(timestamp?: number): PredictivePosition | null {
     if (!this.trackingState) return null;
     
-    const now = timestamp || Date.now();
+    const now = timestamp || simulationClock.now();
     
     // Check cache first for ultra-fast lookup
     const cachedPosition = this.predictionCache.get(Math.floor(now / this.UPDATE_FREQUENCY) * this.UPDATE_FREQUENCY);
@@ -113,9 +115,10 @@ export class SmoothTracker {
     return this.calculatePredictedPosition(now);
   }
 
-  // Calculate exact position using TLE at specific timestamp
+  // Calculate exact position using the element set nearest the timestamp
   private calculateExactPosition(tle1: string, tle2: string, timestamp: number): PredictivePosition {
-    const satrec = satellite.twoline2satrec(tle1, tle2);
+    const elementSet = elementSetHistoryService.getElementSetAt(tle1, tle2, timestamp);
+    const satrec = satellite.twoline2satrec(elementSet.tle1, elementSet.tle2);
     const date = new Date(timestamp);
     const positionAndVelocity = satellite.propagate(satrec, date);
     
@@ -196,6 +199,7 @@ export class SmoothTracker {
 
     const { lastKnownPosition, velocityVector } = this.trackingState;
     const deltaTime = timestamp - lastKnownPosition.timestamp;
+    const elapsed = Math.abs(deltaTime);
     
     // Linear interpolation for ultra-smooth movement
     let predictedLongitude = lastKnownPosition.longitude + (velocityVector.longitudePerMs * deltaTime);
@@ -210,7 +214,7 @@ export class SmoothTracker {
     predictedLatitude = Math.max(-90, Math.min(90, predictedLatitude));
     
     // Confidence decreases over time since last exact calculation
-    const confidence = Math.max(0, 1 - (deltaTime / this.PREDICTION_HORIZON));
+    const confidence = Math.max(0, 1 - (elapsed / this.PREDICTION_HORIZON));
     
     return {
       longitude: predictedLongitude,
@@ -227,7 +231,7 @@ export class SmoothTracker {
   private populatePredictionCache(): void {
     if (!this.trackingState) return;
     
-    const now = Date.now();
+    const now = simulationClock.now();
     this.predictionCache.clear();
     
     // Pre-calculate positions for next few seconds at 60fps intervals
@@ -250,15 +254,15 @@ export class SmoothTracker {
     this.highFrequencyTimer = window.setInterval(() => {
       if (!this.trackingState) return;
       
-      const now = Date.now();
+      const now = simulationClock.now();
       const position = this.getPredictedPosition(now);
       
       if (position && this.onPositionUpdate) {
         this.onPositionUpdate(position);
       }
       
-      // Refresh cache and recalculate exact position every 15 seconds
-      if (now - this.trackingState.lastKnownPosition.timestamp > 15000) {
+      // Refresh cache and recalculate exact position every 15 simulated seconds (in either direction)
+      if (Math.abs(now - this.trackingState.lastKnownPosition.timestamp) > 15000) {
         this.refreshTrackingData();
       }
       
@@ -270,22 +274,24 @@ export class SmoothTracker {
   private refreshTrackingData(): void {
     if (!this.trackingState) return;
     
-    const now = Date.now();
+    const now = simulationClock.now();
     const exactPosition = this.calculateExactPosition(
       this.trackingState.tle1, 
       this.trackingState.tle2, 
       now
     );
     
-    // Update velocity vector based on new exact position
-    const deltaTime = now - this.trackingState.lastKnownPosition.timestamp;
-    if (deltaTime > 0) {
-      this.trackingState.velocityVector = {
-        longitudePerMs: (exactPosition.longitude - this.trackingState.lastKnownPosition.longitude) / deltaTime,
-        latitudePerMs: (exactPosition.latitude - this.trackingState.lastKnownPosition.latitude) / deltaTime,
-        altitudePerMs: (exactPosition.altitude - this.trackingState.lastKnownPosition.altitude) / deltaTime
-      };
-    }
+    // Recompute velocity vector from two exact positions so time jumps and reverse playback stay accurate
+    const futurePosition = this.calculateExactPosition(
+      this.trackingState.tle1,
+      this.trackingState.tle2,
+      now + 100
+    );
+    this.trackingState.velocityVector = {
+      longitudePerMs: this.wrapLongitudeDelta(futurePosition.longitude - exactPosition.longitude) / 100,
+      latitudePerMs: (futurePosition.latitude - exactPosition.latitude) / 100,
+      altitudePerMs: (futurePosition.altitude - exactPosition.altitude) / 100
+    };
     
     this.trackingState.lastKnownPosition = exactPosition;
     
@@ -294,6 +300,19 @@ export class SmoothTracker {
     
   }
 
+  // Force an exact recalculation, e.g. after the simulation clock jumped or changed direction
+  resync(): void {
+    if (!this.trackingState) return;
+    this.refreshTrackingData();
+  }
+
+  // Shortest signed longitude difference across the antimeridian
+  private wrapLongitudeDelta(delta: number): number {
+    if (delta > 180) return delta - 360;
+    if (delta < -180) return delta + 360;
+    return delta;
+  }
+
   // Calculate orbital period in milliseconds
   private calculateOrbitPeriod(satrec: satellite.SatRec): number {
     // Mean motion is in revolutions per day
@@ -316,8 +335,8 @@ export class SmoothTracker {
   getTrackingQuality(): number {
     if (!this.trackingState) return 0;
     
-    const now = Date.now();
-    const timeSinceUpdate = now - this.trackingState.lastKnownPosition.timestamp;
+    const now = simulationClock.now();
+    const timeSinceUpdate = Math.abs(now - this.trackingState.lastKnownPosition.timestamp);
     return Math.max(0, 1 - (timeSinceUpdate / this.PREDICTION_HORIZON));
   }
 }
\ No newline at end of file
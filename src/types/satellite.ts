@@ -1,11 +1,36 @@
 import { LngLat } from 'maplibre-gl';
+import { PropagationStatus } from '../utils/propagation-errors';
+
+/**
+ * Mission category: what an object is for. 'custom' holds user-imported objects.
+ */
+export type SatelliteType =
+  | 'scientific' | 'communication' | 'navigation' | 'earth-observation' | 'weather'
+  | 'station' | 'amateur' | 'military' | 'other' | 'custom';
+
+/**
+ * Object class: what an object physically is. Its ids never clash with mission categories,
+ * so both can share one set of enabled filters.
+ */
+export type ObjectClass = 'payload' | 'rocket-body' | 'debris' | 'unknown';
+
+/**
+ * Classification rule matched against the upper-case object name. A rule may set the class,
+ * the mission category or both; the first rule setting each one wins.
+ */
+export interface TaxonomyRule {
+  pattern: RegExp;
+  objectClass?: ObjectClass;
+  type?: SatelliteType;
+}
 
 export interface SatelliteData {
   id: string;
   name: string;
   shortname?: string;
   alternateName?: string;
-  type: 'scientific' | 'communication' | 'navigation' | 'earth-observation' | 'weather';
+  type: SatelliteType;
+  objectClass?: ObjectClass; // Absent for payloads from older caches and configs
   position: LngLat;
   altitude: number;
   velocity: number;
@@ -21,6 +46,46 @@ export interface SatelliteData {
   defaultZoom?: number;
   defaultPitch?: number;
   scaleFactor?: number;
+  swathWidthKm?: number;
+  offNadirRange?: OffNadirRange;
+  status?: PropagationStatus; // Absent or 'ok' while the element set propagates
+  statusReason?: string; // Why propagation failed
+  owner?: string;         // SATCAT owner/country code, e.g. 'US', 'PRC', 'ESA'
+  launchDate?: Date;
+  launchSite?: string;    // SATCAT launch site code, e.g. 'AFETR', 'TYMSC'
+  rcs?: number;           // Radar cross-section, m²
+  operationalStatus?: OperationalStatus;
+  decayDate?: Date;
+}
+
+/**
+ * Operational status from the SATCAT status code (+, -, P, B, S, X, D, ?)
+ */
+export type OperationalStatus =
+  | 'operational' | 'nonoperational' | 'partially-operational' | 'backup'
+  | 'spare' | 'extended-mission' | 'decayed' | 'unknown';
+
+/**
+ * One object of the satellite catalogue (SATCAT), joined to element sets by catalog number
+ */
+export interface SatcatRecord {
+  catalogNumber: string;
+  objectName: string;
+  owner?: string;
+  launchDate?: Date;
+  launchSite?: string;
+  rcs?: number; // m²
+  operationalStatus: OperationalStatus;
+  decayDate?: Date;
+}
+
+/**
+ * Across-track look angles bounding a sensor swath, in degrees from nadir.
+ * Positive angles are to the right of the direction of travel.
+ */
+export interface OffNadirRange {
+  min: number;
+  max: number;
 }
 
 export interface SatelliteConfig {
@@ -28,7 +93,8 @@ export interface SatelliteConfig {
   name?: string;
   shortname?: string;
   alternateName?: string;
-  type?: 'scientific' | 'communication' | 'navigation' | 'earth-observation' | 'weather';
+  type?: SatelliteType;
+  objectClass?: ObjectClass; // Overrides the class found from the name
   tle1?: string;
   tle2?: string;
   dimensions?: {
@@ -41,6 +107,8 @@ export interface SatelliteConfig {
   defaultZoom?: number;
   defaultPitch?: number;
   scaleFactor?: number;
+  swathWidthKm?: number; // Ground swath width of the main imaging instrument
+  offNadirRange?: OffNadirRange; // Side-looking sensors: swath bounds as look angles (overrides a nadir-centred swath)
 }
 
 export interface SatellitePointData {
@@ -60,6 +128,8 @@ export interface OrbitCircleData {
   radius: number; // in meters
   color: [number, number, number, number];
   satelliteId: string;
+  polygons: [number, number][][]; // Filled footprint pieces, clipped to ±180° longitude
+  outline: [number, number][][];  // Footprint boundary, split at the antimeridian
 }
 
 export interface SatellitePosition {
@@ -67,4 +137,30 @@ export interface SatellitePosition {
   latitude: number;
   altitude: number;
   velocity: number;
-}
\ No newline at end of file
+}
+
+export interface ObserverLocation {
+  latitude: number;  // degrees
+  longitude: number; // degrees
+  altitude: number;  // km above the WGS84 ellipsoid
+}
+
+export interface GroundStation {
+  id: string;
+  name: string;
+  latitude: number;     // degrees
+  longitude: number;    // degrees
+  altitude: number;     // km above the WGS84 ellipsoid
+  minElevation: number; // Antenna elevation mask, degrees above the horizon
+}
+
+export interface SatellitePass {
+  riseTime: Date;            // AOS - satellite rises above the elevation mask
+  riseAzimuth: number;       // degrees, 0 = North, 90 = East
+  culminationTime: Date;     // TCA - highest point of the pass
+  culminationAzimuth: number;
+  maxElevation: number;      // degrees above the horizon
+  setTime: Date;             // LOS - satellite drops below the elevation mask
+  setAzimuth: number;
+  duration: number;          // seconds between AOS and LOS
+}
@@ -0,0 +1,183 @@
+export type Ring = [number, number][]; // [longitude, latitude] pairs, closed (first point repeated at the end)
+
+export interface AreaOfInterest {
+  name: string;
+  polygons: Ring[]; // Outer rings; holes are ignored
+}
+
+// The parts of a GeoJSON document read here; anything else is ignored
+interface GeoJSONObject {
+  type?: string;
+  coordinates?: unknown;
+  geometry?: GeoJSONObject | null;
+  properties?: { name?: unknown } | null;
+  features?: GeoJSONObject[];
+}
+
+/**
+ * Area-of-interest geometry: building areas from boxes, drawn vertices or GeoJSON,
+ * and ground distances from a point to an area. Distances use a local flat-Earth
+ * approximation, accurate enough for fields and regions up to a few hundred kilometres.
+ */
+export class AreaOfInterestGeometry {
+  private static readonly EARTH_RADIUS_KM = 6371;
+
+  static fromBoundingBox(name: string, west: number, south: number, east: number, north: number): AreaOfInterest {
+    const [minLongitude, maxLongitude] = [Math.min(west, east), Math.max(west, east)];
+    const [minLatitude, maxLatitude] = [Math.min(south, north), Math.max(south, north)];
+    return {
+      name,
+      polygons: [[
+        [minLongitude, minLatitude],
+        [maxLongitude, minLatitude],
+        [maxLongitude, maxLatitude],
+        [minLongitude, maxLatitude],
+        [minLongitude, minLatitude]
+      ]]
+    };
+  }
+
+  /**
+   * @param vertices At least three [longitude, latitude] points, not closed
+   */
+  static fromVertices(name: string, vertices: [number, number][]): AreaOfInterest {
+    if (vertices.length < 3) {
+      throw new Error('A polygon needs at least three points');
+    }
+    return { name, polygons: [[...vertices, vertices[0]]] };
+  }
+
+  /**
+   * Read the Polygon and MultiPolygon geometries of a GeoJSON document (geometry, Feature or FeatureCollection)
+   * @param fallbackName Used when the first feature has no name property
+   * @throws Error if the text is not GeoJSON or holds no polygons
+   */
+  static fromGeoJSON(text: string, fallbackName: string): AreaOfInterest {
+    let document: GeoJSONObject;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Not a valid JSON document');
+    }
+
+    const features: GeoJSONObject[] = document?.type === 'FeatureCollection' ? document.features || []
+      : document?.type === 'Feature' ? [document]
+      : [{ geometry: document }];
+
+    const polygons: Ring[] = [];
+    for (const feature of features) {
+      const geometry = feature?.geometry;
+      if (!Array.isArray(geometry?.coordinates)) continue;
+      if (geometry.type === 'Polygon') {
+        polygons.push(this.toRing(geometry.coordinates[0]));
+      } else if (geometry.type === 'MultiPolygon') {
+        geometry.coordinates.forEach(polygon => polygons.push(this.toRing(Array.isArray(polygon) ? polygon[0] : undefined)));
+      }
+    }
+
+    const validPolygons = polygons.filter(ring => ring.length >= 4);
+    if (validPolygons.length === 0) {
+      throw new Error('No Polygon or MultiPolygon geometry found');
+    }
+
+    const name = features.map(feature => feature?.properties?.name).find(value => typeof value === 'string');
+    return { name: (name as string | undefined) || fallbackName, polygons: validPolygons };
+  }
+
+  /**
+   * Mean of the area's vertices - a representative scene centre for small areas
+   */
+  static getCentroid(area: AreaOfInterest): { latitude: number; longitude: number } {
+    const vertices = area.polygons.flatMap(ring => ring.slice(0, -1));
+    const reference = vertices[0][0];
+    const sum = vertices.reduce((total, [longitude, latitude]) => {
+      total.longitude += reference + this.wrapLongitude(longitude - reference);
+      total.latitude += latitude;
+      return total;
+    }, { latitude: 0, longitude: 0 });
+    return { latitude: sum.latitude / vertices.length, longitude: this.wrapLongitude(sum.longitude / vertices.length) };
+  }
+
+  /**
+   * Largest distance from the centroid to a vertex, km
+   */
+  static getRadiusKm(area: AreaOfInterest): number {
+    const centroid = this.getCentroid(area);
+    return Math.max(...area.polygons.flat().map(([longitude, latitude]) =>
+      this.getDistanceKm(centroid.latitude, centroid.longitude, latitude, longitude)
+    ));
+  }
+
+  /**
+   * Ground distance from a point to the nearest part of the area, 0 inside it
+   */
+  static getDistanceToAreaKm(area: AreaOfInterest, latitude: number, longitude: number): number {
+    let nearest = Infinity;
+    for (const ring of area.polygons) {
+      // Project around the point: x east, y north, in km
+      const projected = ring.map(([vertexLongitude, vertexLatitude]) => [
+        this.wrapLongitude(vertexLongitude - longitude) * Math.cos(latitude * Math.PI / 180) * this.EARTH_RADIUS_KM * Math.PI / 180,
+        (vertexLatitude - latitude) * this.EARTH_RADIUS_KM * Math.PI / 180
+      ]);
+      if (this.containsOrigin(projected)) {
+        return 0;
+      }
+      for (let i = 0; i < projected.length - 1; i++) {
+        nearest = Math.min(nearest, this.distanceFromOriginToSegment(projected[i], projected[i + 1]));
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Great-circle distance between two points, km
+   */
+  static getDistanceKm(latitude1: number, longitude1: number, latitude2: number, longitude2: number): number {
+    const lat1 = latitude1 * Math.PI / 180;
+    const lat2 = latitude2 * Math.PI / 180;
+    const deltaLatitude = lat2 - lat1;
+    const deltaLongitude = (longitude2 - longitude1) * Math.PI / 180;
+    const a = Math.sin(deltaLatitude / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(deltaLongitude / 2) ** 2;
+    return 2 * this.EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+
+  private static toRing(coordinates: unknown): Ring {
+    if (!Array.isArray(coordinates)) return [];
+    const ring = coordinates
+      .filter((point): point is number[] => Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]))
+      .map(point => [point[0], point[1]] as [number, number]);
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+      ring.push(first);
+    }
+    return ring;
+  }
+
+  /**
+   * Ray casting from the origin along +x
+   */
+  private static containsOrigin(ring: number[][]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > 0) !== (yj > 0) && xi - yi * (xj - xi) / (yj - yi) > 0) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private static distanceFromOriginToSegment([x1, y1]: number[], [x2, y2]: number[]): number {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(x1 * dx + y1 * dy) / lengthSquared)) : 0;
+    return Math.hypot(x1 + t * dx, y1 + t * dy);
+  }
+
+  private static wrapLongitude(longitude: number): number {
+    return ((longitude + 540) % 360) - 180;
+  }
+}
@@ -0,0 +1,189 @@
+import * as satellite from 'satellite.js';
+import { TimeSearch } from './time-search';
+import { SatelliteCalculator } from './satellite-calculator';
+
+export interface ConjunctionObject {
+  id: string;
+  name: string;
+  tle1: string;
+  tle2: string;
+}
+
+export interface ConjunctionEvent {
+  primaryId: string;
+  primaryName: string;
+  secondaryId: string;
+  secondaryName: string;
+  tca: number;               // Time of closest approach, ms since epoch
+  missDistanceKm: number;
+  relativeVelocityKmS: number;
+}
+
+export interface ConjunctionScreeningOptions {
+  start: number;           // Start of the window, ms since epoch
+  durationHours?: number;  // Length of the window, at most MAX_DURATION_HOURS
+  thresholdKm?: number;    // Report approaches closer than this
+  stepSeconds?: number;    // Coarse sampling step used to bracket approaches
+}
+
+/**
+ * Close-approach screening of one target against a catalogue of objects.
+ * Candidates are pre-filtered by perigee/apogee overlap, sampled on a coarse grid,
+ * and every local minimum of the separation is refined to the time of closest approach.
+ */
+export class ConjunctionScreener {
+  private static readonly EARTH_RADIUS_KM = 6378.135;
+  private static readonly XKE = 0.0743669161; // sqrt(GM) in Earth radii^1.5 per minute (WGS-72)
+  static readonly MAX_DURATION_HOURS = 7 * 24; // Cost grows with the window, and screening falls back to the main thread without workers
+  private static readonly DEFAULT_DURATION_HOURS = 24;
+  private static readonly DEFAULT_THRESHOLD_KM = 10;
+  private static readonly DEFAULT_STEP_SECONDS = 60;
+  private static readonly MAX_RELATIVE_VELOCITY_KM_S = 16; // Head-on LEO encounter
+  private static readonly TCA_PRECISION_MS = 10;
+
+  /**
+   * Screen a target against candidate objects
+   * @param target Object to protect
+   * @param candidates Catalogue to screen against (the target itself is skipped)
+   * @param options Time window, miss distance threshold and sampling step
+   * @param onProgress Called periodically with the number of candidates processed
+   * @returns Close approaches sorted by time of closest approach
+   */
+  static screen(
+    target: ConjunctionObject,
+    candidates: ConjunctionObject[],
+    options: ConjunctionScreeningOptions,
+    onProgress?: (completed: number, total: number) => void
+  ): ConjunctionEvent[] {
+    const targetSatrec = SatelliteCalculator.createSatrec(target.tle1, target.tle2);
+    if (!targetSatrec) {
+      return [];
+    }
+
+    const thresholdKm = options.thresholdKm ?? this.DEFAULT_THRESHOLD_KM;
+    const step = (options.stepSeconds ?? this.DEFAULT_STEP_SECONDS) * 1000;
+    const start = options.start;
+    const end = start + Math.min(options.durationHours ?? this.DEFAULT_DURATION_HOURS, this.MAX_DURATION_HOURS) * 60 * 60 * 1000;
+
+    // Target positions are shared by every candidate
+    const sampleTimes: number[] = [];
+    for (let time = start; time <= end; time += step) {
+      sampleTimes.push(time);
+    }
+    const targetPositions = sampleTimes.map(time => this.getPosition(targetSatrec, time));
+    const targetShell = this.getRadialShell(targetSatrec);
+    const targetCatalogNumber = target.tle1.substring(2, 7);
+
+    // A sampled minimum can sit this far above the true miss distance
+    const bracketKm = thresholdKm + this.MAX_RELATIVE_VELOCITY_KM_S * (step / 1000) / 2;
+    const events: ConjunctionEvent[] = [];
+
+    candidates.forEach((candidate, index) => {
+      if (onProgress && index % 200 === 0) {
+        onProgress(index, candidates.length);
+      }
+      if (candidate.id === target.id || candidate.tle1.substring(2, 7) === targetCatalogNumber) {
+        return;
+      }
+
+      const satrec = SatelliteCalculator.createSatrec(candidate.tle1, candidate.tle2);
+      if (!satrec) {
+        return;
+      }
+
+      // Orbits whose altitude ranges never overlap can't get close
+      const shell = this.getRadialShell(satrec);
+      if (shell.perigee > targetShell.apogee + thresholdKm || shell.apogee < targetShell.perigee - thresholdKm) {
+        return;
+      }
+
+      const distances = sampleTimes.map((time, i) => {
+        const targetPosition = targetPositions[i];
+        const position = targetPosition ? this.getPosition(satrec, time) : null;
+        return targetPosition && position ? this.distance(targetPosition, position) : Infinity;
+      });
+
+      for (let i = 0; i < distances.length; i++) {
+        const previous = i > 0 ? distances[i - 1] : Infinity;
+        const next = i < distances.length - 1 ? distances[i + 1] : Infinity;
+        if (distances[i] > bracketKm || distances[i] > previous || distances[i] > next) {
+          continue;
+        }
+
+        const event = this.refineApproach(
+          targetSatrec, satrec,
+          Math.max(start, sampleTimes[i] - step), Math.min(end, sampleTimes[i] + step)
+        );
+        if (event && event.missDistanceKm <= thresholdKm) {
+          events.push({
+            primaryId: target.id,
+            primaryName: target.name,
+            secondaryId: candidate.id,
+            secondaryName: candidate.name,
+            ...event
+          });
+        }
+      }
+    });
+
+    onProgress?.(candidates.length, candidates.length);
+    return events.sort((a, b) => a.tca - b.tca);
+  }
+
+  /**
+   * Perigee and apogee radii in km, from the TLE mean motion and eccentricity
+   */
+  static getRadialShell(satrec: satellite.SatRec): { perigee: number; apogee: number } {
+    const semiMajorAxis = Math.pow(this.XKE / satrec.no, 2 / 3) * this.EARTH_RADIUS_KM;
+    return {
+      perigee: semiMajorAxis * (1 - satrec.ecco),
+      apogee: semiMajorAxis * (1 + satrec.ecco)
+    };
+  }
+
+  /**
+   * Time and state of the minimum separation in [low, high]
+   */
+  private static refineApproach(
+    targetSatrec: satellite.SatRec,
+    satrec: satellite.SatRec,
+    low: number,
+    high: number
+  ): { tca: number; missDistanceKm: number; relativeVelocityKmS: number } | null {
+    const separation = (time: number): number => {
+      const a = this.getPosition(targetSatrec, time);
+      const b = this.getPosition(satrec, time);
+      return a && b ? this.distance(a, b) : Infinity;
+    };
+
+    const tca = TimeSearch.findMinimum(separation, low, high, this.TCA_PRECISION_MS);
+    const targetState = satellite.propagate(targetSatrec, new Date(tca));
+    const state = satellite.propagate(satrec, new Date(tca));
+    if (!this.isVector(targetState.position) || !this.isVector(state.position) ||
+        !this.isVector(targetState.velocity) || !this.isVector(state.velocity)) {
+      return null;
+    }
+
+    return {
+      tca,
+      missDistanceKm: this.distance(targetState.position, state.position),
+      relativeVelocityKmS: this.distance(targetState.velocity, state.velocity)
+    };
+  }
+
+  private static getPosition(satrec: satellite.SatRec, time: number): satellite.EciVec3<number> | null {
+    const positionAndVelocity = satellite.propagate(satrec, new Date(time));
+    return this.isVector(positionAndVelocity.position) ? positionAndVelocity.position : null;
+  }
+
+  private static isVector(value: satellite.EciVec3<number> | boolean | undefined): value is satellite.EciVec3<number> {
+    return !!value && typeof value !== 'boolean' && !isNaN(value.x);
+  }
+
+  private static distance(a: satellite.EciVec3<number>, b: satellite.EciVec3<number>): number {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+}
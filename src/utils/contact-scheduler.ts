@@ -0,0 +1,45 @@
+import { GroundStation, SatellitePass } from '../types/satellite';
+import { PassPredictor } from './pass-predictor';
+
+export interface ContactWindow {
+  station: GroundStation;
+  pass: SatellitePass; // AOS/LOS against the station's elevation mask
+}
+
+export interface ContactScheduleOptions {
+  start?: Date;           // Start of the schedule (defaults to now)
+  durationHours?: number; // Length of the schedule
+}
+
+/**
+ * Contact windows of a satellite across a ground station network
+ */
+export class ContactScheduler {
+  private static readonly DEFAULT_DURATION_HOURS = 24;
+  private static readonly MAX_CONTACTS_PER_STATION = 50; // LEO satellites see a polar station up to ~15 times a day
+
+  /**
+   * Every contact of a satellite with the given stations
+   * @returns Contacts ordered by AOS; one in progress at the start is included with its past AOS
+   */
+  static computeContacts(tle1: string, tle2: string, stations: GroundStation[], options: ContactScheduleOptions = {}): ContactWindow[] {
+    const durationHours = options.durationHours ?? this.DEFAULT_DURATION_HOURS;
+
+    return stations
+      .flatMap(station => PassPredictor.predictPasses(tle1, tle2, station, {
+        start: options.start,
+        durationHours,
+        minElevation: station.minElevation,
+        maxPasses: this.MAX_CONTACTS_PER_STATION
+      }).map(pass => ({ station, pass })))
+      .sort((a, b) => a.pass.riseTime.getTime() - b.pass.riseTime.getTime());
+  }
+
+  /**
+   * Contacts in progress at a given time
+   * @param time ms since epoch
+   */
+  static getActiveContacts(contacts: ContactWindow[], time: number): ContactWindow[] {
+    return contacts.filter(contact => contact.pass.riseTime.getTime() <= time && time <= contact.pass.setTime.getTime());
+  }
+}
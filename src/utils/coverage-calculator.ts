@@ -0,0 +1,54 @@
+import { SphericalCap } from './spherical-cap';
+
+/**
+ * Coverage footprint (visibility circle) of a satellite: the ground area that sees it above a minimum elevation
+ */
+export class CoverageCalculator {
+  private static readonly EARTH_RADIUS_KM = 6371;
+  private static readonly FOOTPRINT_POINTS = 120;
+
+  /**
+   * Earth-central angle between the sub-satellite point and the edge of the footprint
+   * @param altitudeKm Satellite altitude
+   * @param minElevationDegrees Elevation mask at the edge of the footprint
+   * @returns Angle in degrees (0 if the satellite is never above the mask)
+   */
+  static getCoverageAngle(altitudeKm: number, minElevationDegrees: number = 0): number {
+    if (!(altitudeKm > 0)) {
+      return 0;
+    }
+
+    const elevation = minElevationDegrees * Math.PI / 180;
+    const orbitRadius = this.EARTH_RADIUS_KM + altitudeKm;
+    const centralAngle = Math.acos((this.EARTH_RADIUS_KM / orbitRadius) * Math.cos(elevation)) - elevation;
+    return Math.max(0, centralAngle * 180 / Math.PI);
+  }
+
+  /**
+   * Ground radius of the footprint measured along the surface
+   * @returns Radius in km
+   */
+  static getCoverageRadiusKm(altitudeKm: number, minElevationDegrees: number = 0): number {
+    return this.EARTH_RADIUS_KM * this.getCoverageAngle(altitudeKm, minElevationDegrees) * Math.PI / 180;
+  }
+
+  /**
+   * Footprint geometry for map layers
+   * @param latitude Sub-satellite latitude
+   * @param longitude Sub-satellite longitude
+   * @param altitudeKm Satellite altitude
+   * @param minElevationDegrees Elevation mask at the edge of the footprint
+   * @returns Fill polygons clipped to ±180° longitude and the outline split at the antimeridian
+   */
+  static calculateFootprint(latitude: number, longitude: number, altitudeKm: number, minElevationDegrees: number = 0): { polygons: [number, number][][]; outline: [number, number][][] } {
+    const angle = this.getCoverageAngle(altitudeKm, minElevationDegrees);
+    if (angle <= 0) {
+      return { polygons: [], outline: [] };
+    }
+
+    return {
+      polygons: SphericalCap.toPolygons(latitude, longitude, angle, this.FOOTPRINT_POINTS).map(polygon => polygon[0]),
+      outline: SphericalCap.toOutline(latitude, longitude, angle, this.FOOTPRINT_POINTS)
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import * as satellite from 'satellite.js';
+import { SolarCalculator } from './solar-calculator';
+import { SatelliteCalculator } from './satellite-calculator';
+import { TimeSearch } from './time-search';
+
+export type IlluminationState = 'sunlit' | 'penumbra' | 'umbra';
+
+export interface EclipseInterval {
+  entryTime: Date;              // Satellite enters Earth's shadow (penumbra)
+  exitTime: Date;               // Satellite leaves Earth's shadow (penumbra)
+  umbraEntryTime: Date | null;  // Satellite enters the umbra (null for a penumbral-only eclipse)
+  umbraExitTime: Date | null;   // Satellite leaves the umbra
+  duration: number;             // seconds
+}
+
+export interface EclipseStatus {
+  state: IlluminationState;
+  nextEntry: Date | null;      // Next shadow entry after the check time (null if none found)
+  nextExit: Date | null;       // Next shadow exit
+  nextUmbraEntry: Date | null; // Next umbra entry after the check time
+  nextUmbraExit: Date | null;  // Next umbra exit
+  nextChange: Date | null;     // Earliest of the above: when the illumination state next changes
+}
+
+export interface EclipseSearchOptions {
+  durationHours?: number; // Length of the search window
+  stepSeconds?: number;   // Coarse sampling step used to bracket shadow boundaries
+}
+
+/**
+ * Eclipse calculator using a conical Earth shadow model (umbra and penumbra) against the Sun vector
+ */
+export class EclipseCalculator {
+  private static readonly EARTH_RADIUS_KM = 6378.137;
+  private static readonly SUN_RADIUS_KM = 696000;
+  private static readonly DEFAULT_DURATION_HOURS = 6;
+  private static readonly DEFAULT_STEP_SECONDS = 30;
+  private static readonly EVENT_PRECISION_MS = 1000;
+
+  /**
+   * Classify a satellite position against Earth's shadow cones
+   * @param positionEci Satellite ECI position in km
+   * @param sunEci Sun ECI position in km
+   * @returns Illumination state
+   */
+  static getIlluminationState(positionEci: satellite.EciVec3<number>, sunEci: { x: number; y: number; z: number }): IlluminationState {
+    const sunDistance = Math.sqrt(sunEci.x * sunEci.x + sunEci.y * sunEci.y + sunEci.z * sunEci.z);
+    const sunUnit = { x: sunEci.x / sunDistance, y: sunEci.y / sunDistance, z: sunEci.z / sunDistance };
+
+    // Distance of the satellite behind the Earth along the anti-Sun axis
+    const shadowDistance = -(positionEci.x * sunUnit.x + positionEci.y * sunUnit.y + positionEci.z * sunUnit.z);
+    if (shadowDistance <= 0) {
+      return 'sunlit'; // On the day side of the terminator plane
+    }
+
+    // Perpendicular distance from the shadow axis
+    const px = positionEci.x + shadowDistance * sunUnit.x;
+    const py = positionEci.y + shadowDistance * sunUnit.y;
+    const pz = positionEci.z + shadowDistance * sunUnit.z;
+    const axisDistance = Math.sqrt(px * px + py * py + pz * pz);
+
+    const umbraAngle = Math.asin((this.SUN_RADIUS_KM - this.EARTH_RADIUS_KM) / sunDistance);
+    const penumbraAngle = Math.asin((this.SUN_RADIUS_KM + this.EARTH_RADIUS_KM) / sunDistance);
+
+    // Umbra cone converges behind the Earth, penumbra cone diverges
+    const umbraRadius = this.EARTH_RADIUS_KM / Math.cos(umbraAngle) - shadowDistance * Math.tan(umbraAngle);
+    const penumbraRadius = this.EARTH_RADIUS_KM / Math.cos(penumbraAngle) + shadowDistance * Math.tan(penumbraAngle);
+
+    if (axisDistance < umbraRadius) {
+      return 'umbra';
+    }
+    if (axisDistance < penumbraRadius) {
+      return 'penumbra';
+    }
+    return 'sunlit';
+  }
+
+  /**
+   * Illumination state of a satellite at a given time
+   * @returns Illumination state, or null if propagation failed
+   */
+  static getIlluminationAt(satrec: satellite.SatRec, time: Date): IlluminationState | null {
+    const positionAndVelocity = satellite.propagate(satrec, time);
+    if (!positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+      return null;
+    }
+    return this.getIlluminationState(positionAndVelocity.position, SolarCalculator.getSunPositionEci(time));
+  }
+
+  /**
+   * Find shadow intervals (penumbra entry to penumbra exit, with the umbra crossing inside each) in a time window
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param start Start of the search window
+   * @param options Window length and sampling step
+   * @returns Intervals in chronological order; an eclipse in progress at `start` begins at `start`
+   */
+  static findEclipses(tle1: string, tle2: string, start: Date, options: EclipseSearchOptions = {}): EclipseInterval[] {
+    const satrec = SatelliteCalculator.createSatrec(tle1, tle2);
+    if (!satrec) {
+      return [];
+    }
+
+    const startTime = start.getTime();
+    const endTime = startTime + (options.durationHours ?? this.DEFAULT_DURATION_HOURS) * 60 * 60 * 1000;
+    const step = (options.stepSeconds ?? this.DEFAULT_STEP_SECONDS) * 1000;
+
+    const stateAt = (time: number) => this.getIlluminationAt(satrec, new Date(time));
+    const isShadow = (state: IlluminationState | null) => state !== null && state !== 'sunlit';
+    // Signed for TimeSearch.findCrossing: non-negative inside the shadow (or umbra), negative outside
+    const shadowSign = (time: number) => isShadow(stateAt(time)) ? 1 : -1;
+    const umbraSign = (time: number) => stateAt(time) === 'umbra' ? 1 : -1;
+
+    const intervals: EclipseInterval[] = [];
+    const startState = stateAt(startTime);
+    let entryTime: number | null = isShadow(startState) ? startTime : null;
+    let umbraEntryTime: number | null = startState === 'umbra' ? startTime : null;
+    let umbraExitTime: number | null = null;
+    let previousTime = startTime;
+    let previousShadow = entryTime !== null;
+    let previousUmbra = umbraEntryTime !== null;
+
+    for (let time = startTime + step; time <= endTime; time += step) {
+      const state = stateAt(time);
+      const shadow = isShadow(state);
+      const umbra = state === 'umbra';
+
+      // The umbra lies inside the penumbra, so its boundaries are settled before the shadow exit closes the interval
+      if (umbra && !previousUmbra) {
+        umbraEntryTime = TimeSearch.findCrossing(umbraSign, previousTime, time, this.EVENT_PRECISION_MS);
+      } else if (!umbra && previousUmbra) {
+        umbraExitTime = TimeSearch.findCrossing(umbraSign, previousTime, time, this.EVENT_PRECISION_MS);
+      }
+
+      if (shadow && !previousShadow) {
+        entryTime = TimeSearch.findCrossing(shadowSign, previousTime, time, this.EVENT_PRECISION_MS);
+      } else if (!shadow && previousShadow && entryTime !== null) {
+        const exitTime = TimeSearch.findCrossing(shadowSign, previousTime, time, this.EVENT_PRECISION_MS);
+        intervals.push(this.buildInterval(entryTime, exitTime, umbraEntryTime, umbraExitTime));
+        entryTime = null;
+        umbraEntryTime = null;
+        umbraExitTime = null;
+      }
+      previousTime = time;
+      previousShadow = shadow;
+      previousUmbra = umbra;
+    }
+
+    // Close an eclipse still running at the end of the window
+    if (entryTime !== null) {
+      const openUmbraExit = umbraEntryTime !== null && umbraExitTime === null ? endTime : umbraExitTime;
+      intervals.push(this.buildInterval(entryTime, endTime, umbraEntryTime, openUmbraExit));
+    }
+
+    return intervals;
+  }
+
+  /**
+   * Current illumination and the next shadow and umbra entry/exit of a satellite
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param time Time of the check
+   * @returns Eclipse status, or null if the TLE is invalid or propagation failed
+   */
+  static getEclipseStatus(tle1: string, tle2: string, time: Date, options: EclipseSearchOptions = {}): EclipseStatus | null {
+    const satrec = SatelliteCalculator.createSatrec(tle1, tle2);
+    const state = satrec ? this.getIlluminationAt(satrec, time) : null;
+    if (!state) {
+      return null;
+    }
+
+    // An eclipse in progress begins at `time`, so "after" skips the boundaries already crossed
+    const eclipses = this.findEclipses(tle1, tle2, time, options);
+    const firstAfter = (times: (Date | null)[]) => times.find(boundary => boundary !== null && boundary.getTime() > time.getTime()) || null;
+    const nextEntry = firstAfter(eclipses.map(eclipse => eclipse.entryTime));
+    const nextExit = firstAfter(eclipses.map(eclipse => eclipse.exitTime));
+    const nextUmbraEntry = firstAfter(eclipses.map(eclipse => eclipse.umbraEntryTime));
+    const nextUmbraExit = firstAfter(eclipses.map(eclipse => eclipse.umbraExitTime));
+    const nextChange = [nextEntry, nextExit, nextUmbraEntry, nextUmbraExit]
+      .reduce<Date | null>((earliest, boundary) => boundary && (!earliest || boundary < earliest) ? boundary : earliest, null);
+
+    return { state, nextEntry, nextExit, nextUmbraEntry, nextUmbraExit, nextChange };
+  }
+
+  private static buildInterval(entryTime: number, exitTime: number, umbraEntryTime: number | null, umbraExitTime: number | null): EclipseInterval {
+    return {
+      entryTime: new Date(entryTime),
+      exitTime: new Date(exitTime),
+      umbraEntryTime: umbraEntryTime !== null ? new Date(umbraEntryTime) : null,
+      umbraExitTime: umbraExitTime !== null ? new Date(umbraExitTime) : null,
+      duration: Math.round((exitTime - entryTime) / 1000)
+    };
+  }
+}
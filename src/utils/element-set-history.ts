@@ -0,0 +1,84 @@
+import { ElementSetParser } from './element-set-parser';
+import { TLEEpoch } from './tle-epoch';
+
+export interface HistoricalElementSet {
+  epoch: number; // ms since epoch
+  tle1: string;
+  tle2: string;
+}
+
+/**
+ * Time-ordered element-set histories. SGP4 errors grow quickly away from the epoch,
+ * so past (or future) times are propagated from the element set closest to them.
+ */
+export class ElementSetHistory {
+  /**
+   * Add an element set to a history sorted by epoch, replacing one with the same epoch
+   * @returns Whether the history changed
+   */
+  static insert(history: HistoricalElementSet[], elementSet: HistoricalElementSet): boolean {
+    const index = this.lowerBound(history, elementSet.epoch);
+    const existing = history[index];
+    if (existing && existing.epoch === elementSet.epoch) {
+      if (existing.tle1 === elementSet.tle1 && existing.tle2 === elementSet.tle2) {
+        return false;
+      }
+      history[index] = elementSet;
+      return true;
+    }
+    history.splice(index, 0, elementSet);
+    return true;
+  }
+
+  /**
+   * Element set whose epoch is nearest the given time
+   * @param history Element sets sorted by epoch
+   * @param time ms since epoch
+   */
+  static selectNearest(history: HistoricalElementSet[], time: number): HistoricalElementSet | null {
+    if (history.length === 0) {
+      return null;
+    }
+
+    const index = this.lowerBound(history, time);
+    if (index === 0) return history[0];
+    if (index === history.length) return history[history.length - 1];
+
+    const before = history[index - 1];
+    const after = history[index];
+    return time - before.epoch <= after.epoch - time ? before : after;
+  }
+
+  /**
+   * Wrap TLE lines as a history entry
+   * @returns Entry, or null if the epoch is unreadable
+   */
+  static fromTLE(tle1: string, tle2: string): HistoricalElementSet | null {
+    const epoch = TLEEpoch.parseEpoch(tle1);
+    return epoch === null ? null : { epoch, tle1, tle2 };
+  }
+
+  /**
+   * Full catalog number of a TLE, which histories are keyed by (names differ between sources)
+   */
+  static getCatalogNumber(tle1: string): string {
+    return ElementSetParser.decodeCatalogNumber(tle1.substring(2, 7));
+  }
+
+  /**
+   * First index whose epoch is not before the given time
+   */
+  private static lowerBound(history: HistoricalElementSet[], time: number): number {
+    let low = 0;
+    let high = history.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (history[middle].epoch < time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
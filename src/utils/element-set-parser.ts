@@ -0,0 +1,351 @@
+export type ElementSetFormat = 'tle' | 'omm-json' | 'omm-xml' | 'omm-csv';
+
+/**
+ * Orbit Mean-Elements Message (CCSDS 502.0-B) fields used for SGP4, as published by CelesTrak and Space-Track.
+ * Values are kept as given: Space-Track sends numbers as strings.
+ */
+export interface OMMRecord {
+  OBJECT_NAME?: string;
+  OBJECT_ID?: string;            // International designator, e.g. 1998-067A
+  EPOCH: string;                 // ISO 8601, UTC
+  MEAN_MOTION: number | string;  // rev/day
+  ECCENTRICITY: number | string;
+  INCLINATION: number | string;  // degrees
+  RA_OF_ASC_NODE: number | string;
+  ARG_OF_PERICENTER: number | string;
+  MEAN_ANOMALY: number | string;
+  NORAD_CAT_ID: number | string;
+  CLASSIFICATION_TYPE?: string;
+  EPHEMERIS_TYPE?: number | string;
+  ELEMENT_SET_NO?: number | string;
+  REV_AT_EPOCH?: number | string;
+  BSTAR?: number | string;
+  MEAN_MOTION_DOT?: number | string;
+  MEAN_MOTION_DDOT?: number | string;
+}
+
+export interface ParsedElementSet {
+  name: string;
+  tle1: string;
+  tle2: string;
+  catalogNumber: string; // Full NORAD catalog number (never Alpha-5)
+}
+
+/**
+ * Format-agnostic element-set parser for 2/3-line TLE text and OMM in JSON, XML or CSV.
+ *
+ * satellite.js initialises SGP4 from TLE lines, so OMM records are converted to equivalent TLE lines.
+ * Catalog numbers above 99999 are written in the Alpha-5 scheme (A0000 = 100000) so they fit the 5-character field;
+ * the full number is kept in `catalogNumber`.
+ */
+export class ElementSetParser {
+  private static readonly ALPHA5_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // I and O are skipped
+  private static readonly MAX_ALPHA5_CATALOG_NUMBER = 339999;
+  private static readonly REQUIRED_OMM_FIELDS: (keyof OMMRecord)[] = [
+    'EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'RA_OF_ASC_NODE', 'ARG_OF_PERICENTER', 'MEAN_ANOMALY', 'NORAD_CAT_ID'
+  ];
+
+  /**
+   * Parse element sets in any supported format. Malformed records are skipped.
+   */
+  static parse(text: string): ParsedElementSet[] {
+    switch (this.detectFormat(text)) {
+      case 'omm-json': return this.fromOMMRecords(this.parseOMMJSON(text));
+      case 'omm-xml': return this.fromOMMRecords(this.parseOMMXML(text));
+      case 'omm-csv': return this.fromOMMRecords(this.parseOMMCSV(text));
+      default: return this.parseTLE(text);
+    }
+  }
+
+  static detectFormat(text: string): ElementSetFormat {
+    const start = text.trimStart();
+    if (start.startsWith('[') || start.startsWith('{')) return 'omm-json';
+    if (start.startsWith('<')) return 'omm-xml';
+    const header = start.split(/\r?\n/, 1)[0].trim();
+    if (/(^|,)"?NORAD_CAT_ID"?(,|$)/.test(header)) return 'omm-csv';
+    return 'tle';
+  }
+
+  /**
+   * Parse TLE text with or without name lines (3LE and 2LE). A leading "0 " on name lines is dropped.
+   */
+  static parseTLE(text: string): ParsedElementSet[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    const elementSets: ParsedElementSet[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (!line.startsWith('1 ') || !lines[i + 1]?.startsWith('2 ')) {
+        continue;
+      }
+
+      const previous = i > 0 ? lines[i - 1] : '';
+      const hasName = previous.length > 0 && !previous.startsWith('1 ') && !previous.startsWith('2 ');
+      const catalogNumber = this.decodeCatalogNumber(line.substring(2, 7));
+      elementSets.push({
+        name: hasName ? previous.replace(/^0 /, '') : `NORAD ${catalogNumber}`,
+        tle1: line,
+        tle2: lines[i + 1],
+        catalogNumber
+      });
+      i++;
+    }
+
+    return elementSets;
+  }
+
+  static parseOMMJSON(text: string): OMMRecord[] {
+    try {
+      const parsed = JSON.parse(text);
+      return (Array.isArray(parsed) ? parsed : [parsed]).filter(record => record && typeof record === 'object');
+    } catch (error) {
+      console.warn('⚠️ Invalid OMM JSON:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse OMM XML (one <omm> or <segment> per object). Leaf elements are read by name so the
+   * metadata/meanElements/tleParameters nesting doesn't matter.
+   */
+  static parseOMMXML(text: string): OMMRecord[] {
+    const segments = text.match(/<segment\b[\s\S]*?<\/segment>/g) || text.match(/<omm\b[\s\S]*?<\/omm>/g) || [];
+    return segments.map(segment => {
+      const record: Record<string, string> = {};
+      for (const [, tag, value] of segment.matchAll(/<([A-Z_]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+        record[tag] = this.decodeXmlEntities(value.trim());
+      }
+      return record as unknown as OMMRecord;
+    });
+  }
+
+  /**
+   * Parse OMM CSV with a header row of OMM keywords
+   */
+  static parseOMMCSV(text: string): OMMRecord[] {
+    const rows = text.split(/\r?\n/).filter(row => row.trim().length > 0).map(row => this.splitCSVRow(row));
+    if (rows.length < 2) return [];
+
+    const header = rows[0].map(column => column.trim());
+    return rows.slice(1).map(values => {
+      const record: Record<string, string> = {};
+      header.forEach((column, index) => {
+        record[column] = (values[index] ?? '').trim();
+      });
+      return record as unknown as OMMRecord;
+    });
+  }
+
+  /**
+   * Convert an OMM record to TLE lines with valid checksums
+   * @returns The element set, or null if a required field is missing or out of range
+   */
+  static ommToElementSet(record: OMMRecord): ParsedElementSet | null {
+    if (this.REQUIRED_OMM_FIELDS.some(field => record[field] === undefined || record[field] === '')) {
+      return null;
+    }
+
+    const catalogNumber = Math.round(Number(record.NORAD_CAT_ID));
+    const epoch = this.parseUtc(record.EPOCH);
+    const values = [record.MEAN_MOTION, record.ECCENTRICITY, record.INCLINATION, record.RA_OF_ASC_NODE,
+      record.ARG_OF_PERICENTER, record.MEAN_ANOMALY].map(Number);
+    if (isNaN(catalogNumber) || catalogNumber <= 0 || catalogNumber > this.MAX_ALPHA5_CATALOG_NUMBER ||
+        epoch === null || values.some(isNaN) || values[1] < 0 || values[1] >= 1) {
+      return null;
+    }
+    const [meanMotion, eccentricity, inclination, raan, argumentOfPerigee, meanAnomaly] = values;
+
+    const satnum = this.encodeCatalogNumber(catalogNumber);
+    const classification = (record.CLASSIFICATION_TYPE || 'U').charAt(0);
+    const designator = this.formatDesignator(record.OBJECT_ID || '');
+    const elementSetNumber = Math.round(Number(record.ELEMENT_SET_NO) || 999) % 10000;
+    const revolutionNumber = Math.round(Number(record.REV_AT_EPOCH) || 0) % 100000;
+
+    const tle1 = this.withChecksum(
+      `1 ${satnum}${classification} ${designator.padEnd(8)} ${this.formatEpoch(epoch)} ` +
+      `${this.formatMeanMotionDot(Number(record.MEAN_MOTION_DOT) || 0)} ` +
+      `${this.formatExponential(Number(record.MEAN_MOTION_DDOT) || 0)} ` +
+      `${this.formatExponential(Number(record.BSTAR) || 0)} ` +
+      `${Math.round(Number(record.EPHEMERIS_TYPE) || 0) % 10} ${elementSetNumber.toString().padStart(4)}`
+    );
+    const tle2 = this.withChecksum(
+      `2 ${satnum} ${inclination.toFixed(4).padStart(8)} ${raan.toFixed(4).padStart(8)} ` +
+      `${eccentricity.toFixed(7).substring(2)} ${argumentOfPerigee.toFixed(4).padStart(8)} ` +
+      `${meanAnomaly.toFixed(4).padStart(8)} ${meanMotion.toFixed(8).padStart(11)}${revolutionNumber.toString().padStart(5)}`
+    );
+
+    return {
+      name: record.OBJECT_NAME?.trim() || `NORAD ${catalogNumber}`,
+      tle1,
+      tle2,
+      catalogNumber: catalogNumber.toString()
+    };
+  }
+
+  /**
+   * Catalog number for the 5-character TLE field: digits up to 99999, Alpha-5 above
+   */
+  static encodeCatalogNumber(catalogNumber: number): string {
+    if (catalogNumber < 100000) {
+      return catalogNumber.toString().padStart(5, '0');
+    }
+    const letter = this.ALPHA5_LETTERS.charAt(Math.floor(catalogNumber / 10000) - 10);
+    return `${letter}${(catalogNumber % 10000).toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Full catalog number from the 5-character TLE field (digits or Alpha-5)
+   */
+  static decodeCatalogNumber(field: string): string {
+    const trimmed = field.trim();
+    const letterIndex = this.ALPHA5_LETTERS.indexOf(trimmed.charAt(0).toUpperCase());
+    if (letterIndex < 0 || !/^\d{4}$/.test(trimmed.substring(1))) {
+      return trimmed;
+    }
+    return ((letterIndex + 10) * 10000 + parseInt(trimmed.substring(1), 10)).toString();
+  }
+
+  /**
+   * Check the fixed-width layout and checksums of a TLE
+   * @returns Why the element set is invalid, or null if it is valid
+   */
+  static validateTLE(tle1: string, tle2: string): string | null {
+    if (tle1.length !== 69 || tle2.length !== 69) {
+      return 'lines must be 69 characters';
+    }
+    if (!tle1.startsWith('1 ') || !tle2.startsWith('2 ')) {
+      return 'line numbers missing';
+    }
+    if (tle1.substring(2, 7) !== tle2.substring(2, 7)) {
+      return 'catalog numbers of line 1 and 2 differ';
+    }
+    if (this.computeChecksum(tle1).toString() !== tle1.charAt(68)) {
+      return 'line 1 checksum mismatch';
+    }
+    if (this.computeChecksum(tle2).toString() !== tle2.charAt(68)) {
+      return 'line 2 checksum mismatch';
+    }
+    return null;
+  }
+
+  /**
+   * TLE checksum: sum of the digits plus one per minus sign, modulo 10
+   */
+  static computeChecksum(line: string): number {
+    let sum = 0;
+    for (const char of line.substring(0, 68)) {
+      if (char >= '0' && char <= '9') sum += char.charCodeAt(0) - 48;
+      else if (char === '-') sum += 1;
+    }
+    return sum % 10;
+  }
+
+  private static fromOMMRecords(records: OMMRecord[]): ParsedElementSet[] {
+    const elementSets: ParsedElementSet[] = [];
+    for (const record of records) {
+      const elementSet = this.ommToElementSet(record);
+      if (elementSet) {
+        elementSets.push(elementSet);
+      }
+    }
+    if (elementSets.length < records.length) {
+      console.warn(`⚠️ Skipped ${records.length - elementSets.length} OMM records with missing or out-of-range fields`);
+    }
+    return elementSets;
+  }
+
+  private static withChecksum(line: string): string {
+    return `${line}${this.computeChecksum(line)}`;
+  }
+
+  private static parseUtc(value: string): Date | null {
+    // OMM epochs are UTC but usually written without a zone designator
+    const iso = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value.trim()) ? value.trim() : `${value.trim()}Z`;
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * YYDDD.DDDDDDDD (columns 19-32)
+   */
+  private static formatEpoch(epoch: Date): string {
+    const year = epoch.getUTCFullYear();
+    const dayOfYear = (epoch.getTime() - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000) + 1;
+    let formatted = dayOfYear.toFixed(8);
+    if (dayOfYear < 10) formatted = `00${formatted}`;
+    else if (dayOfYear < 100) formatted = `0${formatted}`;
+    return `${(year % 100).toString().padStart(2, '0')}${formatted}`;
+  }
+
+  /**
+   * International designator "1998-067A" as "98067A"
+   */
+  private static formatDesignator(objectId: string): string {
+    const match = objectId.trim().match(/^\d{2}(\d{2})-(\d{3})([A-Z]{0,3})$/);
+    return match ? `${match[1]}${match[2]}${match[3]}` : '';
+  }
+
+  /**
+   * First derivative of mean motion, e.g. " .00003454" or "-.00000123" (columns 34-43)
+   */
+  private static formatMeanMotionDot(value: number): string {
+    const digits = Math.abs(value).toFixed(8).replace(/^0/, '');
+    return `${value < 0 ? '-' : ' '}${digits}`.padStart(10);
+  }
+
+  /**
+   * Assumed-decimal exponential notation, e.g. 0.000067688 as " 67688-4"
+   */
+  private static formatExponential(value: number): string {
+    if (value === 0) {
+      return ' 00000+0';
+    }
+    let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+    let mantissa = Math.round(Math.abs(value) / Math.pow(10, exponent) * 100000);
+    if (mantissa >= 100000) {
+      mantissa = 10000;
+      exponent += 1;
+    }
+    if (exponent < -9) {
+      return ' 00000+0';
+    }
+    exponent = Math.min(exponent, 9);
+    return `${value < 0 ? '-' : ' '}${mantissa.toString().padStart(5, '0')}${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+  }
+
+  /**
+   * Split one CSV row, honouring quoted values and doubled quotes
+   */
+  static splitCSVRow(row: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < row.length; i++) {
+      const char = row[i];
+      if (char === '"') {
+        if (quoted && row[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === ',' && !quoted) {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    values.push(current);
+    return values;
+  }
+
+  private static decodeXmlEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,238 @@
+import * as satellite from 'satellite.js';
+import { EclipseCalculator, IlluminationState } from './eclipse-calculator';
+import { SolarCalculator } from './solar-calculator';
+import { ElementSetHistory, HistoricalElementSet } from './element-set-history';
+
+export interface GroundTrackOptions {
+  revolutionsAhead?: number;     // Revolutions drawn after the given time
+  revolutionsBehind?: number;    // Revolutions drawn before the given time
+  pointsPerRevolution?: number;  // Sampling density along one orbit
+  includeIllumination?: boolean; // Split the track into sunlit / penumbra / umbra segments
+  history?: HistoricalElementSet[]; // Other element sets of the object - each sample uses the one nearest its time
+}
+
+export interface GroundTrackPoint {
+  longitude: number;
+  latitude: number;
+  altitude: number; // km above the ellipsoid
+  time: number; // ms since epoch
+  illumination?: IlluminationState;
+}
+
+export interface GroundTrackSegment {
+  path: [number, number][];
+  isPast: boolean;
+  illumination?: IlluminationState; // Only set when illumination was requested
+}
+
+/**
+ * Ground track generation from TLE data
+ */
+export class GroundTrackCalculator {
+  private static readonly DEFAULT_POINTS_PER_REVOLUTION = 180;
+  private static readonly MAX_POINTS = 4000; // Upper bound for very long tracks
+  private static readonly JULIAN_DATE_UNIX_EPOCH = 2440587.5;
+
+  /**
+   * Orbital period derived from the TLE mean motion
+   * @param satrec Parsed satellite record
+   * @returns Period in minutes, or NaN if the mean motion is invalid
+   */
+  static getOrbitalPeriodMinutes(satrec: satellite.SatRec): number {
+    // satrec.no is the mean motion in radians per minute
+    return satrec.no > 0 ? (2 * Math.PI) / satrec.no : NaN;
+  }
+
+  /**
+   * Sample the sub-satellite point around a given time
+   * @param satrec Parsed satellite record
+   * @param time Centre of the track (usually the current simulation time)
+   * @param options Revolutions ahead/behind and sampling density
+   * @returns Points in chronological order, skipping samples where propagation failed
+   */
+  static samplePoints(satrec: satellite.SatRec, time: Date, options: GroundTrackOptions = {}): GroundTrackPoint[] {
+    const periodMinutes = this.getOrbitalPeriodMinutes(satrec);
+    if (!isFinite(periodMinutes)) {
+      return [];
+    }
+
+    const revolutionsAhead = Math.max(0, options.revolutionsAhead ?? 1);
+    const revolutionsBehind = Math.max(0, options.revolutionsBehind ?? 0);
+    const pointsPerRevolution = options.pointsPerRevolution ?? this.DEFAULT_POINTS_PER_REVOLUTION;
+
+    const periodMs = periodMinutes * 60 * 1000;
+    const totalRevolutions = revolutionsAhead + revolutionsBehind;
+    const pointCount = Math.min(this.MAX_POINTS, Math.ceil(totalRevolutions * pointsPerRevolution));
+    if (pointCount === 0) {
+      return [];
+    }
+
+    const step = (totalRevolutions * periodMs) / pointCount;
+    const start = time.getTime() - revolutionsBehind * periodMs;
+    const satrecAt = this.createSatrecSelector(satrec, options.history);
+    const points: GroundTrackPoint[] = [];
+
+    for (let i = 0; i <= pointCount; i++) {
+      const sampleTime = start + i * step;
+      const point = this.getSubSatellitePoint(satrecAt(sampleTime), sampleTime, options.includeIllumination);
+      if (point) {
+        points.push(point);
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Build past and future ground track segments, split at the antimeridian
+   * (and at shadow boundaries when illumination is requested)
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param time Boundary between the past and future track
+   * @param options Revolutions ahead/behind, sampling density and illumination
+   */
+  static calculateGroundTrack(tle1: string, tle2: string, time: Date, options: GroundTrackOptions = {}): GroundTrackSegment[] {
+    let satrec: satellite.SatRec;
+    try {
+      satrec = satellite.twoline2satrec(tle1, tle2);
+    } catch (error) {
+      return [];
+    }
+
+    const points = this.samplePoints(satrec, time, options);
+    const now = time.getTime();
+
+    // Make sure the past and future tracks meet exactly at the current position
+    const current = this.getSubSatellitePoint(this.createSatrecSelector(satrec, options.history)(now), now, options.includeIllumination);
+    const past = points.filter(point => point.time < now);
+    const future = points.filter(point => point.time > now);
+    if (current) {
+      past.push(current);
+      future.unshift(current);
+    }
+
+    return [
+      ...this.buildSegments(past, true, options.includeIllumination),
+      ...this.buildSegments(future, false, options.includeIllumination)
+    ];
+  }
+
+  /**
+   * Split a path wherever it crosses the ±180° meridian so map layers don't draw a line across the globe.
+   * Each piece ends exactly on the meridian at the interpolated crossing latitude.
+   */
+  static splitAtAntimeridian(path: [number, number][]): [number, number][][] {
+    const segments: [number, number][][] = [];
+    let current: [number, number][] = [];
+
+    for (let i = 0; i < path.length; i++) {
+      const point = path[i];
+      if (current.length > 0) {
+        const previous = current[current.length - 1];
+        const deltaLongitude = point[0] - previous[0];
+
+        if (Math.abs(deltaLongitude) > 180) {
+          // Eastward crossing goes from +180 to -180, westward the other way
+          const crossingEast = deltaLongitude < 0;
+          const edge = crossingEast ? 180 : -180;
+          const unwrappedLongitude = point[0] + (crossingEast ? 360 : -360);
+          const ratio = (edge - previous[0]) / (unwrappedLongitude - previous[0]);
+          const crossingLatitude = previous[1] + ratio * (point[1] - previous[1]);
+
+          current.push([edge, crossingLatitude]);
+          segments.push(current);
+          current = [[-edge, crossingLatitude]];
+        }
+      }
+      current.push(point);
+    }
+
+    if (current.length > 1) {
+      segments.push(current);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Turn a run of points into map segments, breaking at illumination changes and at the antimeridian
+   */
+  private static buildSegments(points: GroundTrackPoint[], isPast: boolean, includeIllumination?: boolean): GroundTrackSegment[] {
+    const toPath = (run: GroundTrackPoint[]) => run.map(point => [point.longitude, point.latitude] as [number, number]);
+
+    if (!includeIllumination) {
+      return this.splitAtAntimeridian(toPath(points)).map(path => ({ path, isPast }));
+    }
+
+    const segments: GroundTrackSegment[] = [];
+    let run: GroundTrackPoint[] = [];
+
+    const flush = () => {
+      if (run.length > 1) {
+        const illumination = run[run.length - 1].illumination;
+        this.splitAtAntimeridian(toPath(run)).forEach(path => segments.push({ path, isPast, illumination }));
+      }
+    };
+
+    points.forEach(point => {
+      if (run.length > 0 && point.illumination !== run[run.length - 1].illumination) {
+        // Close the current run at this point so consecutive segments touch
+        const boundary = { ...point, illumination: run[run.length - 1].illumination };
+        run.push(boundary);
+        flush();
+        run = [];
+      }
+      run.push(point);
+    });
+    flush();
+
+    return segments;
+  }
+
+  /**
+   * Record to propagate each time from: the given one, or with a history, the record of the element set nearest that time
+   */
+  private static createSatrecSelector(satrec: satellite.SatRec, history?: HistoricalElementSet[]): (time: number) => satellite.SatRec {
+    if (!history || history.length === 0) {
+      return () => satrec;
+    }
+
+    const epoch = (satrec.jdsatepoch - this.JULIAN_DATE_UNIX_EPOCH) * 86400000;
+    const satrecs = new Map<HistoricalElementSet, satellite.SatRec>();
+    return (time: number) => {
+      const nearest = ElementSetHistory.selectNearest(history, time);
+      if (!nearest || Math.abs(nearest.epoch - time) >= Math.abs(epoch - time)) {
+        return satrec;
+      }
+
+      let nearestSatrec = satrecs.get(nearest);
+      if (!nearestSatrec) {
+        nearestSatrec = satellite.twoline2satrec(nearest.tle1, nearest.tle2);
+        satrecs.set(nearest, nearestSatrec);
+      }
+      return nearestSatrec;
+    };
+  }
+
+  private static getSubSatellitePoint(satrec: satellite.SatRec, time: number, includeIllumination: boolean = false): GroundTrackPoint | null {
+    const date = new Date(time);
+    const positionAndVelocity = satellite.propagate(satrec, date);
+    if (!positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+      return null;
+    }
+
+    const gmst = satellite.gstime(date);
+    const positionGd = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
+    const longitude = satellite.degreesLong(positionGd.longitude);
+    const latitude = satellite.degreesLat(positionGd.latitude);
+    if (isNaN(longitude) || isNaN(latitude)) {
+      return null;
+    }
+
+    const point: GroundTrackPoint = { longitude, latitude, altitude: positionGd.height, time };
+    if (includeIllumination) {
+      point.illumination = EclipseCalculator.getIlluminationState(positionAndVelocity.position, SolarCalculator.getSunPositionEci(date));
+    }
+    return point;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Escaping of untrusted text (names from catalogues and imported element sets) put into innerHTML
+ */
+export class HtmlEscape {
+  private static readonly ENTITIES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  };
+
+  /**
+   * Escape text for element content and quoted attribute values
+   */
+  static escape(text: string): string {
+    return text.replace(/[&<>"']/g, character => this.ENTITIES[character]);
+  }
+}
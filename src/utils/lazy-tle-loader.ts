@@ -65,11 +65,14 @@ export class LazyTLELoader {
 
   private getTypePriority(type: string): number {
     switch (type) {
+      case 'station': return 110;
       case 'scientific': return 100;
       case 'navigation': return 90;
       case 'earth-observation': return 80;
       case 'weather': return 70;
       case 'communication': return 60;
+      case 'military':
+      case 'amateur': return 55;
       default: return 50;
     }
   }
@@ -0,0 +1,91 @@
+import { OrbitalElements } from './orbital-elements';
+import { TLEEpoch } from './tle-epoch';
+
+export type ManoeuvreKind = 'orbit-raise' | 'orbit-lowering' | 'plane-change' | 'eccentricity-change';
+
+export interface ManoeuvreChange {
+  previousEpoch: number;           // ms since epoch
+  epoch: number;                   // ms since epoch
+  semiMajorAxisChange: number;     // km, beyond the decay drag predicts
+  inclinationChange: number;       // degrees
+  eccentricityChange: number;
+  kinds: ManoeuvreKind[];
+}
+
+/**
+ * Detects manoeuvres as discontinuities between two element sets of one object.
+ * Drag lowers the semi-major axis steadily; the first derivative of mean motion in the older
+ * set predicts by how much, and only the change beyond that (plus tolerances for element-set noise) counts.
+ */
+export class ManoeuvreDetector {
+  private static readonly SEMI_MAJOR_AXIS_TOLERANCE_KM = 0.5;
+  private static readonly DRAG_PREDICTION_TOLERANCE = 0.5; // Fraction of the predicted decay - drag varies with solar activity
+  private static readonly INCLINATION_TOLERANCE_DEG = 0.01;
+  private static readonly ECCENTRICITY_TOLERANCE = 0.0001;
+  private static readonly RELATIVE_ECCENTRICITY_TOLERANCE = 0.02; // Eccentric orbits have noisier eccentricities
+  private static readonly MAX_GAP_DAYS = 30; // Beyond this the drag prediction says little
+  private static readonly MS_PER_DAY = 86400000;
+
+  /**
+   * Compare an object's element sets from successive fetches
+   * @returns The change, or null if the sets are not comparable or differ only as drag and noise explain
+   */
+  static detect(previous: { tle1: string; tle2: string }, current: { tle1: string; tle2: string }): ManoeuvreChange | null {
+    const previousEpoch = TLEEpoch.parseEpoch(previous.tle1);
+    const epoch = TLEEpoch.parseEpoch(current.tle1);
+    const before = OrbitalElements.fromTLE(previous.tle1, previous.tle2);
+    const after = OrbitalElements.fromTLE(current.tle1, current.tle2);
+    if (previousEpoch === null || epoch === null || !before || !after) {
+      return null;
+    }
+
+    const gapDays = (epoch - previousEpoch) / this.MS_PER_DAY;
+    if (gapDays <= 0 || gapDays > this.MAX_GAP_DAYS) {
+      return null;
+    }
+
+    // Mean motion grows by 2 * (ndot / 2) per day; a scales with n^(-2/3)
+    const predictedMeanMotion = before.meanMotion + 2 * this.parseMeanMotionDot(previous.tle1) * gapDays;
+    const predictedSemiMajorAxis = predictedMeanMotion > 0
+      ? before.semiMajorAxis * Math.pow(before.meanMotion / predictedMeanMotion, 2 / 3)
+      : before.semiMajorAxis;
+    const predictedDecay = Math.abs(before.semiMajorAxis - predictedSemiMajorAxis);
+
+    const semiMajorAxisChange = after.semiMajorAxis - predictedSemiMajorAxis;
+    const inclinationChange = after.inclination - before.inclination;
+    const eccentricityChange = after.eccentricity - before.eccentricity;
+
+    const kinds: ManoeuvreKind[] = [];
+    if (Math.abs(semiMajorAxisChange) > this.SEMI_MAJOR_AXIS_TOLERANCE_KM + this.DRAG_PREDICTION_TOLERANCE * predictedDecay) {
+      kinds.push(semiMajorAxisChange > 0 ? 'orbit-raise' : 'orbit-lowering');
+    }
+    if (Math.abs(inclinationChange) > this.INCLINATION_TOLERANCE_DEG) {
+      kinds.push('plane-change');
+    }
+    if (Math.abs(eccentricityChange) > this.ECCENTRICITY_TOLERANCE + this.RELATIVE_ECCENTRICITY_TOLERANCE * before.eccentricity) {
+      kinds.push('eccentricity-change');
+    }
+
+    if (kinds.length === 0) {
+      return null;
+    }
+    return { previousEpoch, epoch, semiMajorAxisChange, inclinationChange, eccentricityChange, kinds };
+  }
+
+  static formatKind(kind: ManoeuvreKind): string {
+    switch (kind) {
+      case 'orbit-raise': return 'Orbit raise';
+      case 'orbit-lowering': return 'Orbit lowering';
+      case 'plane-change': return 'Plane change';
+      case 'eccentricity-change': return 'Eccentricity change';
+    }
+  }
+
+  /**
+   * First derivative of mean motion divided by two, TLE line 1 columns 34-43, rev/day²
+   */
+  private static parseMeanMotionDot(tle1: string): number {
+    const value = parseFloat(tle1.substring(33, 43).trim());
+    return isNaN(value) ? 0 : value;
+  }
+}
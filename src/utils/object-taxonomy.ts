@@ -0,0 +1,79 @@
+import { TAXONOMY_RULES, TAXONOMY_RULE_OVERRIDES } from '../config/object-taxonomy';
+import { ObjectClass, SatelliteType } from '../types/satellite';
+
+/**
+ * Two-level object taxonomy: object class (payload, rocket body, debris, unknown) and
+ * mission category (station, communication, military, ...), found from the catalogue name
+ * with the rule tables in config/object-taxonomy.ts
+ */
+export class ObjectTaxonomy {
+  static readonly OBJECT_CLASSES: ObjectClass[] = ['payload', 'rocket-body', 'debris', 'unknown'];
+  static readonly MISSION_CATEGORIES: SatelliteType[] = [
+    'station', 'scientific', 'earth-observation', 'weather', 'navigation',
+    'communication', 'military', 'amateur', 'other', 'custom'
+  ];
+
+  private static readonly LABELS: Record<string, string> = {
+    'payload': 'Payload',
+    'rocket-body': 'Rocket body',
+    'debris': 'Debris',
+    'unknown': 'Unknown',
+    'station': 'Station',
+    'scientific': 'Scientific',
+    'earth-observation': 'Earth observation',
+    'weather': 'Weather',
+    'navigation': 'Navigation',
+    'communication': 'Communication',
+    'military': 'Military',
+    'amateur': 'Amateur radio',
+    'other': 'Other',
+    'custom': 'My objects'
+  };
+
+  /**
+   * Classify an object by name; explicit values (e.g. from satellites.ts) win over the rules
+   * @returns Class and mission category; objects that are not payloads only get a category from a rule that also sets their class
+   */
+  static classify(name: string, explicit: { type?: SatelliteType; objectClass?: ObjectClass } = {}): { type: SatelliteType; objectClass: ObjectClass } {
+    const upperName = name.toUpperCase();
+    const rules = [...TAXONOMY_RULE_OVERRIDES, ...TAXONOMY_RULES];
+
+    const classRule = explicit.objectClass ? undefined : rules.find(rule => rule.objectClass && rule.pattern.test(upperName));
+    const objectClass = explicit.objectClass || classRule?.objectClass || 'payload';
+
+    let type = explicit.type;
+    if (!type) {
+      type = objectClass === 'payload'
+        ? rules.find(rule => rule.type && rule.pattern.test(upperName))?.type
+        : classRule?.type;
+    }
+
+    return { type: type || 'other', objectClass };
+  }
+
+  /**
+   * The single category an object is shown under (colour, browser category): its class unless it is a payload,
+   * in which case its mission category
+   */
+  static getDisplayCategory(object: { type: string; objectClass?: string }): string {
+    return object.objectClass && object.objectClass !== 'payload' ? object.objectClass : object.type;
+  }
+
+  /**
+   * An object is shown when both its mission category and its class are enabled
+   */
+  static isEnabled(object: { type: string; objectClass?: string }, enabled: Set<string>): boolean {
+    return enabled.has(object.type) && enabled.has(object.objectClass || 'payload');
+  }
+
+  /**
+   * Every class and category, e.g. to enable them all
+   */
+  static getAllIds(): string[] {
+    return [...this.MISSION_CATEGORIES, ...this.OBJECT_CLASSES];
+  }
+
+  static getLabel(id: string): string {
+    return this.LABELS[id] || id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  }
+}
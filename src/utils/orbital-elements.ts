@@ -0,0 +1,113 @@
+export type OrbitRegime = 'LEO' | 'SSO' | 'MEO' | 'GEO' | 'HEO';
+
+export interface ClassicalElements {
+  inclination: number;        // degrees
+  raan: number;               // Right ascension of the ascending node, degrees
+  eccentricity: number;
+  argumentOfPerigee: number;  // degrees
+  meanAnomaly: number;        // degrees
+  meanMotion: number;         // revolutions per day
+  period: number;             // minutes
+  semiMajorAxis: number;      // km
+  apogeeAltitude: number;     // km above the equatorial radius
+  perigeeAltitude: number;    // km above the equatorial radius
+  bstar: number;              // B* drag term, 1/Earth radii
+  regime: OrbitRegime;
+}
+
+/**
+ * Classical orbital elements decoded from a two-line element set
+ */
+export class OrbitalElements {
+  private static readonly EARTH_RADIUS_KM = 6378.137;
+  private static readonly MU_KM3_S2 = 398600.4418; // Earth's gravitational parameter
+  private static readonly J2 = 1.08262668e-3;
+  private static readonly SUN_SYNCHRONOUS_RATE = 360 / 365.2422; // Nodal precession matching the Sun, degrees/day
+  private static readonly SUN_SYNCHRONOUS_TOLERANCE = 0.1;        // degrees/day
+  private static readonly LEO_MAX_APOGEE_KM = 2000;
+  private static readonly HEO_MIN_ECCENTRICITY = 0.25;
+
+  /**
+   * Decode the elements of a TLE
+   * @param tle1 TLE line 1 (for the B* drag term)
+   * @param tle2 TLE line 2
+   * @returns Elements, or null if a field is malformed
+   */
+  static fromTLE(tle1: string, tle2: string): ClassicalElements | null {
+    if (!tle1 || !tle2 || tle2.length < 63) {
+      return null;
+    }
+
+    const inclination = parseFloat(tle2.substring(8, 16));
+    const raan = parseFloat(tle2.substring(17, 25));
+    const eccentricity = parseFloat(`0.${tle2.substring(26, 33).trim()}`); // Leading decimal point is implied
+    const argumentOfPerigee = parseFloat(tle2.substring(34, 42));
+    const meanAnomaly = parseFloat(tle2.substring(43, 51));
+    const meanMotion = parseFloat(tle2.substring(52, 63));
+
+    if ([inclination, raan, eccentricity, argumentOfPerigee, meanAnomaly, meanMotion].some(isNaN) || meanMotion <= 0) {
+      return null;
+    }
+
+    const meanMotionRadPerSecond = meanMotion * 2 * Math.PI / 86400;
+    const semiMajorAxis = Math.cbrt(this.MU_KM3_S2 / (meanMotionRadPerSecond * meanMotionRadPerSecond));
+    const elements = {
+      inclination,
+      raan,
+      eccentricity,
+      argumentOfPerigee,
+      meanAnomaly,
+      meanMotion,
+      period: 1440 / meanMotion,
+      semiMajorAxis,
+      apogeeAltitude: semiMajorAxis * (1 + eccentricity) - this.EARTH_RADIUS_KM,
+      perigeeAltitude: semiMajorAxis * (1 - eccentricity) - this.EARTH_RADIUS_KM,
+      bstar: this.parseBstar(tle1)
+    };
+
+    return { ...elements, regime: this.getRegime(elements) };
+  }
+
+  /**
+   * Classify an orbit. Sun-synchronous orbits are reported as SSO rather than LEO.
+   */
+  static getRegime(elements: Omit<ClassicalElements, 'regime' | 'bstar'>): OrbitRegime {
+    if (elements.eccentricity >= this.HEO_MIN_ECCENTRICITY) {
+      return 'HEO';
+    }
+    // Geosynchronous: about one revolution per sidereal day, near-circular
+    if (Math.abs(elements.meanMotion - 1.0027) < 0.05 && elements.eccentricity < 0.1) {
+      return 'GEO';
+    }
+    if (elements.apogeeAltitude < this.LEO_MAX_APOGEE_KM) {
+      return Math.abs(this.getNodalPrecessionRate(elements) - this.SUN_SYNCHRONOUS_RATE) < this.SUN_SYNCHRONOUS_TOLERANCE
+        ? 'SSO'
+        : 'LEO';
+    }
+    return elements.meanMotion > 1.0027 ? 'MEO' : 'HEO';
+  }
+
+  /**
+   * Secular drift of the ascending node due to Earth's oblateness (J2), degrees/day
+   */
+  static getNodalPrecessionRate(elements: Pick<ClassicalElements, 'inclination' | 'eccentricity' | 'meanMotion' | 'semiMajorAxis'>): number {
+    const semiLatusRectum = elements.semiMajorAxis * (1 - elements.eccentricity * elements.eccentricity);
+    const meanMotionDegPerDay = elements.meanMotion * 360;
+    return -1.5 * meanMotionDegPerDay * this.J2 *
+      Math.pow(this.EARTH_RADIUS_KM / semiLatusRectum, 2) *
+      Math.cos(elements.inclination * Math.PI / 180);
+  }
+
+  /**
+   * B* from TLE line 1 columns 54-61, e.g. " 34123-4" = 0.34123e-4
+   */
+  private static parseBstar(tle1: string): number {
+    const field = tle1.substring(53, 61).trim();
+    const match = field.match(/^([+-]?)(\d+)([+-]\d)$/);
+    if (!match) {
+      return 0;
+    }
+    const mantissa = parseFloat(`${match[1]}0.${match[2]}`);
+    return mantissa * Math.pow(10, parseInt(match[3], 10));
+  }
+}
@@ -0,0 +1,102 @@
+import { AreaOfInterest } from './area-of-interest';
+import { Overpass } from './overpass-finder';
+
+/**
+ * Text exports of an overpass list: CSV for spreadsheets, iCalendar (RFC 5545) for calendar apps
+ */
+export class OverpassExport {
+  private static readonly CSV_HEADER = [
+    'satellite_id', 'satellite', 'start_utc', 'closest_approach_utc', 'end_utc',
+    'off_nadir_deg', 'altitude_km', 'solar_elevation_deg', 'daylight'
+  ];
+
+  static toCSV(overpasses: Overpass[]): string {
+    const rows = overpasses.map(overpass => [
+      overpass.satelliteId,
+      overpass.satelliteName,
+      overpass.startTime.toISOString(),
+      overpass.time.toISOString(),
+      overpass.endTime.toISOString(),
+      overpass.offNadirAngle.toFixed(2),
+      overpass.altitude.toFixed(1),
+      overpass.solarElevation.toFixed(1),
+      overpass.daylight ? 'yes' : 'no'
+    ].map(value => this.escapeCsv(value)).join(','));
+
+    return [this.CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * One event per overpass, lasting while the area is within reach
+   */
+  static toICS(overpasses: Overpass[], area: AreaOfInterest, generatedAt: Date = new Date()): string {
+    const events = overpasses.flatMap(overpass => [
+      'BEGIN:VEVENT',
+      `UID:${overpass.satelliteId}-${overpass.time.getTime()}@freeupspace`,
+      `DTSTAMP:${this.formatIcsTime(generatedAt)}`,
+      `DTSTART:${this.formatIcsTime(overpass.startTime)}`,
+      `DTEND:${this.formatIcsTime(overpass.endTime)}`,
+      `SUMMARY:${this.escapeIcs(`${overpass.satelliteName} over ${area.name}`)}`,
+      `DESCRIPTION:${this.escapeIcs([
+        `Closest approach ${overpass.time.toISOString()}`,
+        `Off-nadir ${overpass.offNadirAngle.toFixed(1)}°`,
+        `Sun elevation ${overpass.solarElevation.toFixed(1)}° (${overpass.daylight ? 'daylight' : 'night'})`
+      ].join('\n'))}`,
+      'END:VEVENT'
+    ]);
+
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//FreeUpSpace//Overpass Finder//EN',
+      'CALSCALE:GREGORIAN',
+      ...events,
+      'END:VCALENDAR'
+    ].map(line => this.foldIcsLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Offer text as a file download
+   */
+  static download(content: string, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  private static escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static escapeIcs(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+  }
+
+  private static formatIcsTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Content lines are limited to 75 octets; continuations start with a space
+   */
+  private static foldIcsLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let part = '';
+    for (const character of line) {
+      const limit = parts.length === 0 ? 75 : 74;
+      if (encoder.encode(part + character).length > limit) {
+        parts.push(part);
+        part = '';
+      }
+      part += character;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+  }
+}
@@ -0,0 +1,209 @@
+import * as satellite from 'satellite.js';
+import { OffNadirRange } from '../types/satellite';
+import { AreaOfInterest, AreaOfInterestGeometry } from './area-of-interest';
+import { SolarCalculator } from './solar-calculator';
+import { SwathCalculator } from './swath-calculator';
+import { TimeSearch } from './time-search';
+import { SatelliteCalculator } from './satellite-calculator';
+
+export interface OverpassCandidate {
+  id: string;
+  name: string;
+  tle1: string;
+  tle2: string;
+  swathWidthKm?: number;
+  offNadirRange?: OffNadirRange;
+}
+
+export interface Overpass {
+  satelliteId: string;
+  satelliteName: string;
+  startTime: Date;         // The area comes within the sensor's reach
+  time: Date;              // Closest approach to the area's centre
+  endTime: Date;           // The area leaves the sensor's reach
+  offNadirAngle: number;   // degrees, look angle from nadir to the area's centre at closest approach
+  altitude: number;        // km
+  solarElevation: number;  // degrees, Sun above the area's centre at closest approach
+  daylight: boolean;       // The scene is sunlit (SolarCalculator)
+}
+
+export interface OverpassSearchOptions {
+  start?: Date;           // Start of the search window (defaults to now)
+  durationHours?: number; // Length of the search window
+  maxOffNadir?: number;   // degrees; overrides the reach derived from the instrument's swath
+  stepSeconds?: number;   // Coarse sampling step
+}
+
+/**
+ * Overpasses of Earth-observation satellites over an area of interest: times when the area
+ * is within reach of the satellite's sensor, from its swath or look-angle range
+ */
+export class OverpassFinder {
+  private static readonly EARTH_RADIUS_KM = 6371;
+  private static readonly DEFAULT_DURATION_HOURS = 7 * 24;
+  private static readonly DEFAULT_STEP_SECONDS = 30;
+  private static readonly DEFAULT_MAX_OFF_NADIR = 30; // Instruments without a known swath: a typical agile pointing limit
+  private static readonly GROUND_SPEED_KM_S = 7;      // Upper bound for LEO sub-satellite point speed
+  private static readonly EVENT_PRECISION_MS = 1000;
+
+  /**
+   * Upcoming overpasses of one satellite over an area
+   * @returns Overpasses in chronological order; none if the element set does not propagate
+   */
+  static findOverpasses(candidate: OverpassCandidate, area: AreaOfInterest, options: OverpassSearchOptions = {}): Overpass[] {
+    const satrec = SatelliteCalculator.createSatrec(candidate.tle1, candidate.tle2);
+    if (!satrec) {
+      return [];
+    }
+
+    const start = (options.start || new Date()).getTime();
+    const end = start + (options.durationHours ?? this.DEFAULT_DURATION_HOURS) * 60 * 60 * 1000;
+    const step = (options.stepSeconds ?? this.DEFAULT_STEP_SECONDS) * 1000;
+    const centroid = AreaOfInterestGeometry.getCentroid(area);
+    const radiusKm = AreaOfInterestGeometry.getRadiusKm(area);
+
+    // Sub-satellite point to the nearest part of the area; the centroid bound keeps far-away points from
+    // looking close through the flat-Earth approximation
+    const distanceToArea = (time: number): number => {
+      const point = this.getSubSatellitePoint(satrec, time);
+      if (!point) return Infinity;
+      const fromCentroid = AreaOfInterestGeometry.getDistanceKm(centroid.latitude, centroid.longitude, point.latitude, point.longitude);
+      return Math.max(fromCentroid - radiusKm, AreaOfInterestGeometry.getDistanceToAreaKm(area, point.latitude, point.longitude));
+    };
+    const distanceToCentroid = (time: number): number => {
+      const point = this.getSubSatellitePoint(satrec, time);
+      return point ? AreaOfInterestGeometry.getDistanceKm(centroid.latitude, centroid.longitude, point.latitude, point.longitude) : Infinity;
+    };
+
+    // Large areas take a while to cross; search that long either side of a sampled minimum
+    const halfWindow = step + (radiusKm / this.GROUND_SPEED_KM_S) * 1000;
+    const nearEnough = (altitude: number) => this.getReachKm(candidate, altitude, options.maxOffNadir) + this.GROUND_SPEED_KM_S * step / 1000;
+
+    const overpasses: Overpass[] = [];
+    let previous = distanceToArea(start - step);
+    let current = distanceToArea(start);
+
+    for (let time = start; time <= end; time += step) {
+      const next = distanceToArea(time + step);
+
+      // Local minimum of the distance to the area close enough to be an overpass
+      const point = previous > current && current <= next ? this.getSubSatellitePoint(satrec, time) : null;
+      if (point && current <= nearEnough(point.altitude)) {
+        const overpass = this.buildOverpass(candidate, satrec, centroid, radiusKm, time, halfWindow, options.maxOffNadir, distanceToArea, distanceToCentroid);
+        const isDuplicate = overpass && overpasses.length > 0 && overpasses[overpasses.length - 1].time.getTime() === overpass.time.getTime();
+        if (overpass && !isDuplicate && overpass.time.getTime() >= start && overpass.time.getTime() <= end) {
+          overpasses.push(overpass);
+        }
+      }
+
+      previous = current;
+      current = next;
+    }
+
+    return overpasses;
+  }
+
+  /**
+   * Ground distance from nadir the sensor can reach
+   * @param maxOffNadir Overrides the instrument's swath, degrees
+   */
+  static getReachKm(candidate: Pick<OverpassCandidate, 'swathWidthKm' | 'offNadirRange'>, altitudeKm: number, maxOffNadir?: number): number {
+    if (maxOffNadir !== undefined) {
+      return SwathCalculator.offNadirToGroundDistance(maxOffNadir, altitudeKm);
+    }
+    if (candidate.offNadirRange) {
+      const farthest = Math.max(Math.abs(candidate.offNadirRange.min), Math.abs(candidate.offNadirRange.max));
+      return SwathCalculator.offNadirToGroundDistance(farthest, altitudeKm);
+    }
+    if (candidate.swathWidthKm) {
+      return candidate.swathWidthKm / 2;
+    }
+    return SwathCalculator.offNadirToGroundDistance(this.DEFAULT_MAX_OFF_NADIR, altitudeKm);
+  }
+
+  /**
+   * Ground distance from nadir the sensor cannot see inside: the blind zone of a side-looking sensor
+   * whose look angles stay on one side of nadir (e.g. 26–40° for Sentinel-1), zero otherwise
+   * @param maxOffNadir Overrides the instrument's swath, degrees
+   */
+  static getBlindZoneKm(candidate: Pick<OverpassCandidate, 'offNadirRange'>, altitudeKm: number, maxOffNadir?: number): number {
+    const range = candidate.offNadirRange;
+    if (maxOffNadir !== undefined || !range || Math.sign(range.min) !== Math.sign(range.max)) {
+      return 0;
+    }
+    const nearest = Math.min(Math.abs(range.min), Math.abs(range.max));
+    return SwathCalculator.offNadirToGroundDistance(nearest, altitudeKm);
+  }
+
+  /**
+   * Refine a sampled minimum into an overpass, or null if the area stays out of reach or,
+   * for a side-looking sensor, lies wholly in its blind zone at closest approach
+   */
+  private static buildOverpass(
+    candidate: OverpassCandidate,
+    satrec: satellite.SatRec,
+    centroid: { latitude: number; longitude: number },
+    radiusKm: number,
+    sampleTime: number,
+    halfWindow: number,
+    maxOffNadir: number | undefined,
+    distanceToArea: (time: number) => number,
+    distanceToCentroid: (time: number) => number
+  ): Overpass | null {
+    const time = TimeSearch.findMinimum(distanceToCentroid, sampleTime - halfWindow, sampleTime + halfWindow, this.EVENT_PRECISION_MS);
+    const point = this.getSubSatellitePoint(satrec, time);
+    if (!point) return null;
+
+    const reachKm = this.getReachKm(candidate, point.altitude, maxOffNadir);
+    const inReach = (t: number) => reachKm - distanceToArea(t);
+    if (inReach(time) < 0) return null;
+
+    // The sensor looks across the track, so the distance at closest approach decides; it is the same either side
+    if (distanceToCentroid(time) + radiusKm < this.getBlindZoneKm(candidate, point.altitude, maxOffNadir)) return null;
+
+    const before = time - halfWindow;
+    const after = time + halfWindow;
+    const startTime = inReach(before) < 0 ? TimeSearch.findCrossing(inReach, before, time, this.EVENT_PRECISION_MS) : before;
+    const endTime = inReach(after) < 0 ? TimeSearch.findCrossing(inReach, time, after, this.EVENT_PRECISION_MS) : after;
+
+    const date = new Date(time);
+    const solarElevation = SolarCalculator.calculateSolarElevation(centroid.latitude, centroid.longitude, date);
+
+    return {
+      satelliteId: candidate.id,
+      satelliteName: candidate.name,
+      startTime: new Date(startTime),
+      time: date,
+      endTime: new Date(endTime),
+      offNadirAngle: this.getOffNadirAngle(distanceToCentroid(time), point.altitude),
+      altitude: point.altitude,
+      solarElevation,
+      daylight: !SolarCalculator.isNightTime(centroid.latitude, centroid.longitude, date)
+    };
+  }
+
+  /**
+   * Look angle from nadir to a ground point at the given distance from the sub-satellite point
+   */
+  private static getOffNadirAngle(groundDistanceKm: number, altitudeKm: number): number {
+    const centralAngle = groundDistanceKm / this.EARTH_RADIUS_KM;
+    const radius = this.EARTH_RADIUS_KM;
+    return Math.atan2(radius * Math.sin(centralAngle), radius + altitudeKm - radius * Math.cos(centralAngle)) * 180 / Math.PI;
+  }
+
+  private static getSubSatellitePoint(satrec: satellite.SatRec, time: number): { latitude: number; longitude: number; altitude: number } | null {
+    const date = new Date(time);
+    const positionAndVelocity = satellite.propagate(satrec, date);
+    if (!positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+      return null;
+    }
+
+    const positionGd = satellite.eciToGeodetic(positionAndVelocity.position, satellite.gstime(date));
+    const point = {
+      latitude: satellite.degreesLat(positionGd.latitude),
+      longitude: satellite.degreesLong(positionGd.longitude),
+      altitude: positionGd.height
+    };
+    return isNaN(point.latitude) || isNaN(point.longitude) || isNaN(point.altitude) ? null : point;
+  }
+}
@@ -0,0 +1,207 @@
+import * as satellite from 'satellite.js';
+import { ObserverLocation, SatellitePass } from '../types/satellite';
+import { TimeSearch } from './time-search';
+import { SatelliteCalculator } from './satellite-calculator';
+
+export interface PassPredictionOptions {
+  start?: Date;            // Start of the search window (defaults to now)
+  durationHours?: number;  // Length of the search window
+  minElevation?: number;   // Elevation mask in degrees
+  maxPasses?: number;      // Stop after this many passes
+  stepSeconds?: number;    // Coarse sampling step used to bracket rise/set events
+}
+
+export interface LookAngles {
+  azimuth: number;   // degrees, 0 = North, 90 = East
+  elevation: number; // degrees above the horizon
+  range: number;     // slant range in km
+  rangeRate: number; // km/s, positive when receding
+}
+
+/**
+ * Ground-observer pass prediction (AOS / TCA / LOS) built on satellite.js SGP4 propagation
+ */
+export class PassPredictor {
+  private static readonly DEFAULT_DURATION_HOURS = 24;
+  private static readonly DEFAULT_STEP_SECONDS = 30;
+  private static readonly DEFAULT_MAX_PASSES = 10;
+  private static readonly MAX_LOOKBACK_MS = 2 * 60 * 60 * 1000; // Search back 2h for the rise of a pass in progress
+  private static readonly EVENT_PRECISION_MS = 1000;
+  private static readonly RANGE_RATE_HALF_STEP_MS = 500;
+
+  /**
+   * List upcoming passes of a satellite over an observer
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param observer Observer location
+   * @param options Search window, elevation mask and sampling settings
+   * @returns Passes in chronological order; a pass in progress at `start` is included with its past rise time
+   */
+  static predictPasses(tle1: string, tle2: string, observer: ObserverLocation, options: PassPredictionOptions = {}): SatellitePass[] {
+    const satrec = SatelliteCalculator.createSatrec(tle1, tle2);
+    if (!satrec) {
+      return [];
+    }
+
+    const start = (options.start || new Date()).getTime();
+    const end = start + (options.durationHours ?? this.DEFAULT_DURATION_HOURS) * 60 * 60 * 1000;
+    const minElevation = options.minElevation ?? 0;
+    const maxPasses = options.maxPasses ?? this.DEFAULT_MAX_PASSES;
+    const step = (options.stepSeconds ?? this.DEFAULT_STEP_SECONDS) * 1000;
+
+    // Elevation relative to the mask: positive while the satellite is visible
+    const aboveMask = (time: number): number => {
+      const elevation = this.getElevation(satrec, observer, time);
+      return isNaN(elevation) ? -90 : elevation - minElevation;
+    };
+
+    const passes: SatellitePass[] = [];
+    let riseTime: number | null = null;
+
+    // A pass may already be in progress - find its rise by walking backwards
+    if (aboveMask(start) > 0) {
+      let time = start;
+      while (time > start - this.MAX_LOOKBACK_MS && aboveMask(time - step) > 0) {
+        time -= step;
+      }
+      // Continuously visible (e.g. geostationary): there is no rise/set to report
+      if (time > start - this.MAX_LOOKBACK_MS) {
+        riseTime = TimeSearch.findCrossing(aboveMask, time - step, time, this.EVENT_PRECISION_MS);
+      }
+    }
+
+    let previousTime = start;
+    let previousValue = aboveMask(start);
+
+    for (let time = start + step; passes.length < maxPasses; time += step) {
+      // Past the window, only keep sampling to find the set time of a pass that rose inside it
+      if (time > end && (riseTime === null || time > end + this.MAX_LOOKBACK_MS)) {
+        break;
+      }
+
+      const value = aboveMask(time);
+
+      if (previousValue <= 0 && value > 0 && previousTime <= end) {
+        riseTime = TimeSearch.findCrossing(aboveMask, previousTime, time, this.EVENT_PRECISION_MS);
+      } else if (previousValue > 0 && value <= 0 && riseTime !== null) {
+        const setTime = TimeSearch.findCrossing(aboveMask, previousTime, time, this.EVENT_PRECISION_MS);
+        passes.push(this.buildPass(satrec, observer, riseTime, setTime));
+        riseTime = null;
+      }
+
+      previousTime = time;
+      previousValue = value;
+    }
+
+    return passes;
+  }
+
+  /**
+   * Find the next pass starting at or after the given time (or in progress at that time)
+   */
+  static getNextPass(tle1: string, tle2: string, observer: ObserverLocation, options: PassPredictionOptions = {}): SatellitePass | null {
+    const passes = this.predictPasses(tle1, tle2, observer, { ...options, maxPasses: 1 });
+    return passes[0] || null;
+  }
+
+  /**
+   * Calculate azimuth and elevation of a satellite as seen by the observer
+   * @returns Azimuth and elevation in degrees, or null if propagation failed
+   */
+  static getAzimuthElevation(satrec: satellite.SatRec, observer: ObserverLocation, time: number): { azimuth: number; elevation: number } | null {
+    const lookAngles = this.getRawLookAngles(satrec, observer, time);
+    if (!lookAngles) {
+      return null;
+    }
+
+    return {
+      azimuth: (lookAngles.azimuth * 180 / Math.PI + 360) % 360,
+      elevation: lookAngles.elevation * 180 / Math.PI
+    };
+  }
+
+  /**
+   * Calculate full look angles of a satellite from the observer, including slant range and range-rate
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param observer Observer location
+   * @param time Time of the observation
+   * @returns Look angles, or null if the TLE is invalid or propagation failed
+   */
+  static getLookAngles(tle1: string, tle2: string, observer: ObserverLocation, time: Date = new Date()): LookAngles | null {
+    const satrec = SatelliteCalculator.createSatrec(tle1, tle2);
+    if (!satrec) {
+      return null;
+    }
+
+    const timeMs = time.getTime();
+    const current = this.getRawLookAngles(satrec, observer, timeMs);
+    const before = this.getRawLookAngles(satrec, observer, timeMs - this.RANGE_RATE_HALF_STEP_MS);
+    const after = this.getRawLookAngles(satrec, observer, timeMs + this.RANGE_RATE_HALF_STEP_MS);
+    if (!current || !before || !after) {
+      return null;
+    }
+
+    return {
+      azimuth: (current.azimuth * 180 / Math.PI + 360) % 360,
+      elevation: current.elevation * 180 / Math.PI,
+      range: current.rangeSat,
+      // Central difference: positive when the satellite is moving away from the observer
+      rangeRate: (after.rangeSat - before.rangeSat) / (2 * this.RANGE_RATE_HALF_STEP_MS / 1000)
+    };
+  }
+
+  /**
+   * Convert an observer location in degrees to the satellite.js geodetic format (radians, km)
+   */
+  static toGeodetic(observer: ObserverLocation): satellite.GeodeticLocation {
+    return {
+      latitude: satellite.degreesToRadians(observer.latitude),
+      longitude: satellite.degreesToRadians(observer.longitude),
+      height: observer.altitude
+    };
+  }
+
+  private static getRawLookAngles(satrec: satellite.SatRec, observer: ObserverLocation, time: number): satellite.LookAngles | null {
+    const date = new Date(time);
+    const positionAndVelocity = satellite.propagate(satrec, date);
+
+    if (!positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+      return null;
+    }
+
+    const gmst = satellite.gstime(date);
+    const positionEcf = satellite.eciToEcf(positionAndVelocity.position, gmst);
+    return satellite.ecfToLookAngles(this.toGeodetic(observer), positionEcf);
+  }
+
+  private static getElevation(satrec: satellite.SatRec, observer: ObserverLocation, time: number): number {
+    const angles = this.getAzimuthElevation(satrec, observer, time);
+    return angles ? angles.elevation : NaN;
+  }
+
+  /**
+   * Time of maximum elevation between rise and set
+   */
+  private static findCulmination(satrec: satellite.SatRec, observer: ObserverLocation, riseTime: number, setTime: number): number {
+    return TimeSearch.findMinimum(time => -this.getElevation(satrec, observer, time), riseTime, setTime, this.EVENT_PRECISION_MS);
+  }
+
+  private static buildPass(satrec: satellite.SatRec, observer: ObserverLocation, riseTime: number, setTime: number): SatellitePass {
+    const culminationTime = this.findCulmination(satrec, observer, riseTime, setTime);
+    const rise = this.getAzimuthElevation(satrec, observer, riseTime);
+    const culmination = this.getAzimuthElevation(satrec, observer, culminationTime);
+    const set = this.getAzimuthElevation(satrec, observer, setTime);
+
+    return {
+      riseTime: new Date(riseTime),
+      riseAzimuth: rise ? rise.azimuth : NaN,
+      culminationTime: new Date(culminationTime),
+      culminationAzimuth: culmination ? culmination.azimuth : NaN,
+      maxElevation: culmination ? culmination.elevation : NaN,
+      setTime: new Date(setTime),
+      setAzimuth: set ? set.azimuth : NaN,
+      duration: Math.round((setTime - riseTime) / 1000)
+    };
+  }
+}
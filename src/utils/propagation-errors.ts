@@ -0,0 +1,81 @@
+import * as satellite from 'satellite.js';
+
+export type PropagationStatus = 'ok' | 'decayed' | 'invalid';
+
+export interface PropagationFailure {
+  status: 'decayed' | 'invalid';
+  errorCode: number | null; // satellite.js satrec.error, null when the failure did not come from SGP4
+  reason: string;
+}
+
+/**
+ * Classifies SGP4 failures. satellite.js does not throw when elements stop propagating -
+ * it sets satrec.error and returns false for position and velocity.
+ */
+export class PropagationErrors {
+  private static readonly JULIAN_DATE_UNIX_EPOCH = 2440587.5;
+
+  private static readonly SGP4_ERRORS: Record<number, PropagationFailure> = {
+    1: { status: 'invalid', errorCode: 1, reason: 'Mean eccentricity out of range' },
+    2: { status: 'invalid', errorCode: 2, reason: 'Mean motion is not positive' },
+    3: { status: 'invalid', errorCode: 3, reason: 'Perturbed eccentricity out of range' },
+    4: { status: 'invalid', errorCode: 4, reason: 'Semi-latus rectum is negative' },
+    5: { status: 'decayed', errorCode: 5, reason: 'Epoch elements are sub-orbital' },
+    6: { status: 'decayed', errorCode: 6, reason: 'Orbit has decayed below the Earth\'s surface' }
+  };
+
+  /**
+   * Failure of a propagation, if any
+   * @param satrec The record that was propagated
+   * @param positionAndVelocity Result of satellite.propagate for it
+   * @param date The time it was propagated to
+   * @returns Null if the position is usable
+   */
+  static check(satrec: satellite.SatRec, positionAndVelocity: satellite.PositionAndVelocity, date: Date): PropagationFailure | null {
+    if (satrec.error) {
+      const failure = this.fromErrorCode(satrec.error);
+      // Drag extrapolated past the epoch shrinks the orbit until the mean elements break down - the object has re-entered
+      const daysSinceEpoch = date.getTime() / 86400000 + this.JULIAN_DATE_UNIX_EPOCH - satrec.jdsatepoch;
+      if (failure.status === 'invalid' && satrec.error <= 4 && satrec.bstar > 0 && daysSinceEpoch > 0) {
+        return { status: 'decayed', errorCode: satrec.error, reason: `Decayed under drag (${failure.reason.toLowerCase()})` };
+      }
+      return failure;
+    }
+    const position = positionAndVelocity.position;
+    if (!position || typeof position === 'boolean') {
+      return { status: 'invalid', errorCode: null, reason: 'No position returned' };
+    }
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.y) || !Number.isFinite(position.z)) {
+      return this.nonFinitePosition();
+    }
+    return null;
+  }
+
+  static fromErrorCode(errorCode: number): PropagationFailure {
+    return this.SGP4_ERRORS[errorCode] || { status: 'invalid', errorCode, reason: `SGP4 error ${errorCode}` };
+  }
+
+  /**
+   * Failure for an exception thrown while reading or propagating elements
+   */
+  static fromException(error: unknown): PropagationFailure {
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: 'invalid', errorCode: null, reason: `Elements could not be read: ${message}` };
+  }
+
+  static nonFinitePosition(): PropagationFailure {
+    return { status: 'invalid', errorCode: null, reason: 'Position is not a finite number' };
+  }
+
+  static belowSurface(altitude: number): PropagationFailure {
+    return { status: 'decayed', errorCode: null, reason: `Propagated altitude is ${Math.round(altitude)} km` };
+  }
+
+  static formatStatus(status: PropagationStatus): string {
+    switch (status) {
+      case 'decayed': return 'Decayed';
+      case 'invalid': return 'Invalid elements';
+      default: return 'OK';
+    }
+  }
+}
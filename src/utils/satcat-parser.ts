@@ -0,0 +1,114 @@
+import { OperationalStatus, SatcatRecord } from '../types/satellite';
+import { SATCAT_LAUNCH_SITE_NAMES, SATCAT_OWNER_NAMES } from '../config/satcat';
+import { ElementSetParser } from './element-set-parser';
+
+/**
+ * Parser for the CelesTrak satellite catalogue (SATCAT) CSV: a header row of column names
+ * (NORAD_CAT_ID, OWNER, LAUNCH_DATE, LAUNCH_SITE, OPS_STATUS_CODE, RCS, DECAY_DATE, ...) and one row per object
+ */
+export class SatcatParser {
+  private static readonly STATUS_CODES: Record<string, OperationalStatus> = {
+    '+': 'operational',
+    '-': 'nonoperational',
+    'P': 'partially-operational',
+    'B': 'backup',
+    'S': 'spare',
+    'X': 'extended-mission',
+    'D': 'decayed',
+    '?': 'unknown'
+  };
+
+  private static readonly STATUS_LABELS: Record<OperationalStatus, string> = {
+    'operational': 'Operational',
+    'nonoperational': 'Nonoperational',
+    'partially-operational': 'Partially operational',
+    'backup': 'Backup',
+    'spare': 'Spare',
+    'extended-mission': 'Extended mission',
+    'decayed': 'Decayed',
+    'unknown': 'Unknown'
+  };
+
+  static readonly OPERATIONAL_STATUSES: OperationalStatus[] = [
+    'operational', 'partially-operational', 'backup', 'spare', 'extended-mission', 'nonoperational', 'decayed', 'unknown'
+  ];
+
+  /**
+   * @returns One record per row with a catalog number; rows without one are skipped
+   * @throws Error if the header has no NORAD_CAT_ID column
+   */
+  static parseCSV(text: string): SatcatRecord[] {
+    const rows = text.split(/\r?\n/).filter(row => row.trim().length > 0);
+    if (rows.length === 0) return [];
+
+    const header = ElementSetParser.splitCSVRow(rows[0]).map(column => column.trim().replace(/^\uFEFF/, ''));
+    const column = (name: string) => header.indexOf(name);
+    const catalogNumberColumn = column('NORAD_CAT_ID');
+    if (catalogNumberColumn < 0) {
+      throw new Error('SATCAT CSV has no NORAD_CAT_ID column');
+    }
+
+    const nameColumn = column('OBJECT_NAME');
+    const ownerColumn = column('OWNER');
+    const launchDateColumn = column('LAUNCH_DATE');
+    const launchSiteColumn = column('LAUNCH_SITE');
+    const statusColumn = column('OPS_STATUS_CODE');
+    const rcsColumn = column('RCS');
+    const decayDateColumn = column('DECAY_DATE');
+
+    const records: SatcatRecord[] = [];
+    for (const row of rows.slice(1)) {
+      const values = ElementSetParser.splitCSVRow(row).map(value => value.trim());
+      const value = (index: number) => (index >= 0 ? values[index] : undefined) || undefined;
+
+      const catalogNumber = value(catalogNumberColumn)?.replace(/^0+(?=\d)/, '');
+      if (!catalogNumber) continue;
+
+      const rcs = parseFloat(value(rcsColumn) || '');
+      const decayDate = this.parseDate(value(decayDateColumn));
+      records.push({
+        catalogNumber,
+        objectName: value(nameColumn) || catalogNumber,
+        owner: value(ownerColumn),
+        launchDate: this.parseDate(value(launchDateColumn)),
+        launchSite: value(launchSiteColumn),
+        rcs: Number.isFinite(rcs) ? rcs : undefined,
+        // Objects with a decay date are decayed even when the status column is blank
+        operationalStatus: this.parseStatus(value(statusColumn)) || (decayDate ? 'decayed' : 'unknown'),
+        decayDate
+      });
+    }
+    return records;
+  }
+
+  static parseStatus(code: string | undefined): OperationalStatus | undefined {
+    return code ? this.STATUS_CODES[code.toUpperCase()] : undefined;
+  }
+
+  static formatStatus(status: OperationalStatus): string {
+    return this.STATUS_LABELS[status] || status;
+  }
+
+  /**
+   * Owner name for a SATCAT owner code, or the code itself when it is not known
+   */
+  static getOwnerName(code: string): string {
+    return SATCAT_OWNER_NAMES[code] || code;
+  }
+
+  /**
+   * Launch site name for a SATCAT launch site code, or the code itself when it is not known
+   */
+  static getLaunchSiteName(code: string): string {
+    return SATCAT_LAUNCH_SITE_NAMES[code] || code;
+  }
+
+  /**
+   * SATCAT dates are YYYY-MM-DD in UTC
+   */
+  private static parseDate(value: string | undefined): Date | undefined {
+    if (!value || !/^\d{4}-\d{2}-\d{2}/.test(value)) return undefined;
+    const date = new Date(`${value.substring(0, 10)}T00:00:00Z`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
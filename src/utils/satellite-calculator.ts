@@ -1,55 +1,90 @@
 import * as satellite from 'satellite.js';
 import { SatellitePosition } from '../types/satellite';
+import { PropagationErrors, PropagationFailure } from './propagation-errors';
 
 export class SatelliteCalculator {
   static calculatePosition(tle1: string, tle2: string, date?: Date): SatellitePosition {
+    return this.propagate(tle1, tle2, date).position;
+  }
+
+  /**
+   * SGP4 record for an element set, for searches that propagate one object many times
+   * @returns null if the lines are incomplete or the elements do not initialise
+   */
+  static createSatrec(tle1: string, tle2: string): satellite.SatRec | null {
+    if (!tle1 || !tle2 || tle1.length < 69 || tle2.length < 69) {
+      return null;
+    }
+
     try {
-      // Basic TLE validation
-      if (!tle1 || !tle2 || tle1.length < 69 || tle2.length < 69) {
-        return { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN };
-      }
+      const satrec = satellite.twoline2satrec(tle1, tle2);
+      return satrec && !satrec.error ? satrec : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Position of a satellite, with the reason when its elements do not propagate
+   * @returns NaN position and a failure if propagation failed
+   */
+  static propagate(tle1: string, tle2: string, date?: Date): { position: SatellitePosition; failure: PropagationFailure | null } {
+    const invalid = { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN };
+
+    // Basic TLE validation
+    if (!tle1 || !tle2 || tle1.length < 69 || tle2.length < 69) {
+      return { position: invalid, failure: { status: 'invalid', errorCode: null, reason: 'Element set is incomplete' } };
+    }
 
+    try {
       const satrec = satellite.twoline2satrec(tle1, tle2);
       
-      // Check if TLE parsing was successful
-      if (!satrec || satrec.error) {
-        return { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN };
+      // Initialisation errors (e.g. eccentricity out of range) are set before any propagation
+      if (satrec.error) {
+        return { position: invalid, failure: PropagationErrors.fromErrorCode(satrec.error) };
       }
 
       const now = date || new Date();
       const positionAndVelocity = satellite.propagate(satrec, now);
+      const failure = PropagationErrors.check(satrec, positionAndVelocity, now);
+      if (failure || !positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+        return { position: invalid, failure: failure || PropagationErrors.nonFinitePosition() };
+      }
+
+      const gmst = satellite.gstime(now);
+      const positionGd = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
+      
+      const longitude = satellite.degreesLong(positionGd.longitude);
+      const latitude = satellite.degreesLat(positionGd.latitude);
+      const altitude = positionGd.height;
       
-      if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
-        const gmst = satellite.gstime(now);
-        const positionGd = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
-        
-        const longitude = satellite.degreesLong(positionGd.longitude);
-        const latitude = satellite.degreesLat(positionGd.latitude);
-        const altitude = positionGd.height;
-        
-        // Additional validation
-        if (isNaN(longitude) || isNaN(latitude) || isNaN(altitude)) {
-          return { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN };
-        }
-        
-        const velocity = positionAndVelocity.velocity && typeof positionAndVelocity.velocity !== 'boolean' ? 
-          Math.sqrt(
-            Math.pow(positionAndVelocity.velocity.x, 2) + 
-            Math.pow(positionAndVelocity.velocity.y, 2) + 
-            Math.pow(positionAndVelocity.velocity.z, 2)
-          ) : 0;
-        
-        return {
+      // Additional validation
+      if (isNaN(longitude) || isNaN(latitude) || isNaN(altitude)) {
+        return { position: invalid, failure: PropagationErrors.nonFinitePosition() };
+      }
+      if (altitude <= 0) {
+        return { position: invalid, failure: PropagationErrors.belowSurface(altitude) };
+      }
+      
+      const velocity = positionAndVelocity.velocity && typeof positionAndVelocity.velocity !== 'boolean' ? 
+        Math.sqrt(
+          Math.pow(positionAndVelocity.velocity.x, 2) + 
+          Math.pow(positionAndVelocity.velocity.y, 2) + 
+          Math.pow(positionAndVelocity.velocity.z, 2)
+        ) : 0;
+      
+      return {
+        position: {
           longitude,
           latitude,
           altitude,
           velocity: isNaN(velocity) ? 0 : velocity
-        };
-      }
+        },
+        failure: null
+      };
     } catch (error) {
+      return { position: invalid, failure: PropagationErrors.fromException(error) };
     }
-    
-    return { longitude: NaN, latitude: NaN, altitude: NaN, velocity: NaN };
   }
 
   static isValidPosition(position: SatellitePosition): boolean {
@@ -90,6 +125,8 @@ export class SatelliteCalculator {
     
     // Default dimensions by type
     switch (type) {
+      case 'station':
+        return { length: 10.0, width: 4.0, height: 4.0 };
       case 'scientific':
         return { length: 5.0, width: 3.0, height: 3.0 };
       case 'communication':
@@ -1,4 +1,5 @@
 import { MapBounds } from '../types/rendering';
+import { ObjectTaxonomy } from './object-taxonomy';
 
 /**
  * Utility functions for filtering satellites based on various criteria
@@ -7,13 +8,13 @@ import { MapBounds } from '../types/rendering';
 export class SatelliteFilters {
   
   /**
-   * Filter satellites by enabled types
+   * Filter satellites by enabled mission categories and object classes
    */
-  static byEnabledTypes<T extends { type: string }>(
+  static byEnabledTypes<T extends { type: string; objectClass?: string }>(
     satellites: T[], 
     enabledTypes: Set<string>
   ): T[] {
-    return satellites.filter(sat => enabledTypes.has(sat.type));
+    return satellites.filter(sat => ObjectTaxonomy.isEnabled(sat, enabledTypes));
   }
 
   /**
@@ -53,7 +54,7 @@ export class SatelliteFilters {
   /**
    * Combined filter for rendering optimization - includes type, tracking, and viewport filtering
    */
-  static forRendering<T extends { id: string; type: string; position: { lng: number; lat: number } }>(
+  static forRendering<T extends { id: string; type: string; objectClass?: string; position: { lng: number; lat: number } }>(
     satellites: T[],
     enabledTypes: Set<string>,
     followingSatellite: string | null,
@@ -110,15 +111,19 @@ export class SatelliteFilters {
   /**
    * Filter satellites by priority for loading optimization
    */
-  static byLoadingPriority<T extends { id: string; name: string; type: string }>(
+  static byLoadingPriority<T extends { id: string; name: string; type: string; objectClass?: string }>(
     satellites: T[]
   ): T[] {
     return satellites.sort((a, b) => {
       const getScore = (sat: T) => {
         const name = sat.name.toUpperCase();
         
+        // Debris and spent stages - lowest priority, whatever their parent (e.g. "ISS DEB")
+        if (sat.objectClass === 'debris') return 25;
+        else if (sat.objectClass === 'rocket-body') return 50;
+
         // ISS and major space stations - highest priority
-        if (name.includes('ISS') || name.includes('ZARYA')) return 1000;
+        else if (sat.type === 'station' || name.includes('ISS') || name.includes('ZARYA')) return 1000;
         
         // Major scientific satellites
         else if (name.includes('HUBBLE') || name.includes('JWST') || name.includes('KEPLER')) return 950;
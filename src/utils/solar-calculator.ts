@@ -1,7 +1,11 @@
+import * as satellite from 'satellite.js';
+
 /**
  * Solar position calculator for determining day/night at satellite locations
  */
 export class SolarCalculator {
+  private static readonly ASTRONOMICAL_UNIT_KM = 149597870.7;
+
   /**
    * Calculate if it's nighttime at the given coordinates and time
    * @param latitude Latitude in degrees
@@ -60,6 +64,51 @@ export class SolarCalculator {
     return this.toDegrees(elevation);
   }
 
+  /**
+   * Calculate the Sun's position in Earth-centred inertial coordinates (low-precision almanac model, ~0.01°)
+   * @param date Date/time to calculate for
+   * @returns Sun position vector in km (true equator of date, compatible with SGP4 TEME output)
+   */
+  static getSunPositionEci(date: Date): { x: number; y: number; z: number } {
+    const julianDate = date.getTime() / 86400000 + 2440587.5;
+    const centuries = (julianDate - 2451545.0) / 36525;
+
+    const meanLongitude = 280.460 + 36000.771 * centuries;
+    const meanAnomaly = this.toRadians(357.5291092 + 35999.05034 * centuries);
+    const eclipticLongitude = this.toRadians(
+      meanLongitude + 1.914666471 * Math.sin(meanAnomaly) + 0.019994643 * Math.sin(2 * meanAnomaly)
+    );
+    const obliquity = this.toRadians(23.439291 - 0.0130042 * centuries);
+
+    // Earth-Sun distance in AU converted to km
+    const distance = (1.000140612 - 0.016708617 * Math.cos(meanAnomaly) - 0.000139589 * Math.cos(2 * meanAnomaly)) *
+      this.ASTRONOMICAL_UNIT_KM;
+
+    return {
+      x: distance * Math.cos(eclipticLongitude),
+      y: distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+      z: distance * Math.sin(obliquity) * Math.sin(eclipticLongitude)
+    };
+  }
+
+  /**
+   * Calculate the subsolar point - where the Sun is directly overhead
+   * @param date Date/time to calculate for
+   * @returns Latitude and longitude in degrees
+   */
+  static getSubsolarPoint(date: Date): { latitude: number; longitude: number } {
+    const sun = this.getSunPositionEci(date);
+    const distance = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z);
+    const declination = Math.asin(sun.z / distance);
+    const rightAscension = Math.atan2(sun.y, sun.x);
+
+    // Rotate from inertial right ascension to Earth-fixed longitude
+    let longitude = this.toDegrees(rightAscension - satellite.gstime(date));
+    longitude = ((longitude + 540) % 360) - 180;
+
+    return { latitude: this.toDegrees(declination), longitude };
+  }
+
   /**
    * Calculate solar declination for given day of year
    * @param dayOfYear Day of year (1-365/366)
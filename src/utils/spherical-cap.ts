@@ -0,0 +1,115 @@
+import { GroundTrackCalculator } from './ground-track';
+
+type Ring = [number, number][];
+
+/**
+ * Geometry for circles on the Earth's surface (all points within an angular radius of a centre),
+ * such as the night hemisphere or a satellite's coverage footprint
+ */
+export class SphericalCap {
+  private static readonly DEFAULT_POINTS = 360;
+
+  /**
+   * Cap as polygons clipped to ±180° longitude, ready for GeoJSON MultiPolygon coordinates
+   * @param centerLatitude Centre latitude in degrees
+   * @param centerLongitude Centre longitude in degrees
+   * @param radiusDegrees Angular radius (Earth-central angle) in degrees
+   * @param points Number of points on the boundary
+   */
+  static toPolygons(centerLatitude: number, centerLongitude: number, radiusDegrees: number, points: number = this.DEFAULT_POINTS): Ring[][] {
+    // Avoid the degenerate case where the boundary passes exactly through both poles
+    const latitude = Math.abs(centerLatitude) < 0.01 ? 0.01 : centerLatitude;
+    const ring = this.buildCircle(latitude, centerLongitude, radiusDegrees, points);
+
+    // A cap containing a pole wraps all the way around in longitude - close it along the pole
+    const span = ring[ring.length - 1][0] - ring[0][0];
+    if (Math.abs(span) > 180) {
+      const pole = latitude > 0 ? 90 : -90;
+      ring.push([ring[ring.length - 1][0], pole], [ring[0][0], pole], ring[0]);
+    }
+
+    // Clip shifted copies to the valid longitude range so nothing crosses the antimeridian
+    const polygons: Ring[][] = [];
+    for (const offset of [-360, 0, 360]) {
+      const shifted = ring.map(([lon, lat]) => [lon + offset, lat] as [number, number]);
+      const clipped = this.clipToLongitudeRange(shifted, -180, 180);
+      if (clipped.length >= 4) {
+        polygons.push([clipped]);
+      }
+    }
+    return polygons;
+  }
+
+  /**
+   * Boundary of the cap as paths split at the antimeridian, for drawing an outline
+   */
+  static toOutline(centerLatitude: number, centerLongitude: number, radiusDegrees: number, points: number = this.DEFAULT_POINTS): Ring[] {
+    const ring = this.buildCircle(centerLatitude, centerLongitude, radiusDegrees, points)
+      .map(([lon, lat]) => [((lon + 540) % 360) - 180, lat] as [number, number]);
+    return GroundTrackCalculator.splitAtAntimeridian(ring);
+  }
+
+  /**
+   * Closed ring of points on a small circle around a centre, with longitudes unwrapped to be continuous.
+   * The last point repeats the first, shifted by 360° when the circle goes around a pole.
+   */
+  private static buildCircle(centerLatitude: number, centerLongitude: number, radiusDegrees: number, points: number): Ring {
+    const toRadians = Math.PI / 180;
+    const lat1 = centerLatitude * toRadians;
+    const lon1 = centerLongitude * toRadians;
+    const distance = radiusDegrees * toRadians;
+    const ring: Ring = [];
+
+    for (let i = 0; i <= points; i++) {
+      const bearing = (i / points) * 2 * Math.PI;
+      const lat2 = Math.asin(
+        Math.sin(lat1) * Math.cos(distance) + Math.cos(lat1) * Math.sin(distance) * Math.cos(bearing)
+      );
+      const lon2 = lon1 + Math.atan2(
+        Math.sin(bearing) * Math.sin(distance) * Math.cos(lat1),
+        Math.cos(distance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+
+      let longitude = lon2 / toRadians;
+      if (ring.length > 0) {
+        const previous = ring[ring.length - 1][0];
+        while (longitude - previous > 180) longitude -= 360;
+        while (longitude - previous < -180) longitude += 360;
+      }
+      ring.push([longitude, lat2 / toRadians]);
+    }
+
+    return ring;
+  }
+
+  /**
+   * Sutherland-Hodgman clip of a closed ring against west <= longitude <= east
+   */
+  private static clipToLongitudeRange(ring: Ring, west: number, east: number): Ring {
+    const clipEdge = (points: Ring, inside: (p: [number, number]) => boolean, edge: number): Ring => {
+      const output: Ring = [];
+      for (let i = 0; i < points.length - 1; i++) {
+        const current = points[i];
+        const next = points[i + 1];
+        const currentInside = inside(current);
+        const nextInside = inside(next);
+
+        if (currentInside) {
+          output.push(current);
+        }
+        if (currentInside !== nextInside) {
+          const ratio = (edge - current[0]) / (next[0] - current[0]);
+          output.push([edge, current[1] + ratio * (next[1] - current[1])]);
+        }
+      }
+      if (output.length > 0) {
+        output.push(output[0]);
+      }
+      return output;
+    };
+
+    const westClipped = clipEdge(ring, p => p[0] >= west, west);
+    if (westClipped.length === 0) return [];
+    return clipEdge(westClipped, p => p[0] <= east, east);
+  }
+}
@@ -0,0 +1,160 @@
+import * as satellite from 'satellite.js';
+import { GroundTrackCalculator, GroundTrackPoint } from './ground-track';
+import { OffNadirRange } from '../types/satellite';
+
+export interface SwathOptions {
+  swathWidthKm?: number;          // Nadir-centred swath width
+  offNadirRange?: OffNadirRange;  // Swath bounds as look angles - takes precedence over swathWidthKm
+  revolutionsAhead?: number;      // Revolutions drawn after the given time
+  revolutionsBehind?: number;     // Revolutions drawn before the given time
+  pointsPerRevolution?: number;   // Sampling density along one orbit
+}
+
+export interface SwathPolygon {
+  polygon: [number, number][]; // Closed ring (first point repeated at the end)
+  isPast: boolean;
+}
+
+/**
+ * Sensor swath footprints along the ground track of Earth-observation satellites
+ */
+export class SwathCalculator {
+  private static readonly EARTH_RADIUS_KM = 6371;
+
+  /**
+   * Build the swath as a strip of quadrilaterals along the ground track.
+   * Each piece is kept within ±180° longitude, so no polygon spans the whole map.
+   * @param tle1 TLE line 1
+   * @param tle2 TLE line 2
+   * @param time Boundary between the past and future swath
+   * @param options Swath geometry and track length
+   * @returns Swath pieces in chronological order, or [] if the satellite has no swath defined
+   */
+  static calculateSwath(tle1: string, tle2: string, time: Date, options: SwathOptions): SwathPolygon[] {
+    if (!options.offNadirRange && !(options.swathWidthKm && options.swathWidthKm > 0)) {
+      return [];
+    }
+
+    let satrec: satellite.SatRec;
+    try {
+      satrec = satellite.twoline2satrec(tle1, tle2);
+    } catch (error) {
+      return [];
+    }
+
+    const points = GroundTrackCalculator.samplePoints(satrec, time, {
+      revolutionsAhead: options.revolutionsAhead ?? 1,
+      revolutionsBehind: options.revolutionsBehind ?? 0,
+      pointsPerRevolution: options.pointsPerRevolution
+    });
+
+    const now = time.getTime();
+    const polygons: SwathPolygon[] = [];
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const start = points[i];
+      const end = points[i + 1];
+      const heading = this.getBearing(start, end);
+      const [startLeft, startRight] = this.getSwathEdges(start, heading, options);
+      const [endLeft, endRight] = this.getSwathEdges(end, heading, options);
+      const isPast = end.time <= now;
+
+      this.wrapPolygon([startLeft, endLeft, endRight, startRight]).forEach(polygon => {
+        polygons.push({ polygon, isPast });
+      });
+    }
+
+    return polygons;
+  }
+
+  /**
+   * Ground distance from the sub-satellite point to where a line of sight at the given off-nadir angle meets the Earth
+   * @param offNadirDegrees Look angle from nadir (sign is kept)
+   * @param altitudeKm Satellite altitude
+   * @returns Signed distance in km, capped at the horizon
+   */
+  static offNadirToGroundDistance(offNadirDegrees: number, altitudeKm: number): number {
+    const orbitRadius = this.EARTH_RADIUS_KM + altitudeKm;
+    const lookAngle = Math.abs(offNadirDegrees) * Math.PI / 180;
+    // Beyond the horizon the line of sight misses the Earth - clamp to the tangent point
+    const sinIncidence = Math.min(1, (orbitRadius / this.EARTH_RADIUS_KM) * Math.sin(lookAngle));
+    const centralAngle = Math.asin(sinIncidence) - lookAngle;
+    return Math.sign(offNadirDegrees) * this.EARTH_RADIUS_KM * centralAngle;
+  }
+
+  /**
+   * Left and right swath edges at a track point, as signed across-track offsets turned into coordinates
+   */
+  private static getSwathEdges(point: GroundTrackPoint, heading: number, options: SwathOptions): [number, number][] {
+    let leftKm: number;
+    let rightKm: number;
+    if (options.offNadirRange) {
+      leftKm = this.offNadirToGroundDistance(options.offNadirRange.min, point.altitude);
+      rightKm = this.offNadirToGroundDistance(options.offNadirRange.max, point.altitude);
+    } else {
+      leftKm = -(options.swathWidthKm ?? 0) / 2;
+      rightKm = (options.swathWidthKm ?? 0) / 2;
+    }
+
+    return [leftKm, rightKm].map(offsetKm => this.getDestination(point, heading + 90, offsetKm));
+  }
+
+  /**
+   * Initial great-circle bearing between two track points, in degrees clockwise from north
+   */
+  private static getBearing(from: GroundTrackPoint, to: GroundTrackPoint): number {
+    const lat1 = from.latitude * Math.PI / 180;
+    const lat2 = to.latitude * Math.PI / 180;
+    const deltaLongitude = (to.longitude - from.longitude) * Math.PI / 180;
+    const y = Math.sin(deltaLongitude) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLongitude);
+    return Math.atan2(y, x) * 180 / Math.PI;
+  }
+
+  /**
+   * Point reached by travelling a (signed) distance along a bearing on the sphere
+   */
+  private static getDestination(point: GroundTrackPoint, bearingDegrees: number, distanceKm: number): [number, number] {
+    const lat1 = point.latitude * Math.PI / 180;
+    const lon1 = point.longitude * Math.PI / 180;
+    const bearing = bearingDegrees * Math.PI / 180;
+    const angularDistance = distanceKm / this.EARTH_RADIUS_KM;
+
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) + Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+      Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+    return [lon2 * 180 / Math.PI, lat2 * 180 / Math.PI];
+  }
+
+  /**
+   * Unwrap a small polygon's longitudes to be continuous, then add a shifted copy
+   * if part of it falls outside ±180° so both sides of the antimeridian are covered
+   */
+  private static wrapPolygon(corners: [number, number][]): [number, number][][] {
+    const ring: [number, number][] = [];
+    corners.forEach(([longitude, latitude]) => {
+      let unwrapped = ((longitude + 540) % 360) - 180;
+      if (ring.length > 0) {
+        const previous = ring[ring.length - 1][0];
+        while (unwrapped - previous > 180) unwrapped -= 360;
+        while (unwrapped - previous < -180) unwrapped += 360;
+      }
+      ring.push([unwrapped, latitude]);
+    });
+    ring.push(ring[0]);
+
+    const longitudes = ring.map(([longitude]) => longitude);
+    const rings = [ring];
+    if (Math.max(...longitudes) > 180) {
+      rings.push(ring.map(([longitude, latitude]) => [longitude - 360, latitude] as [number, number]));
+    } else if (Math.min(...longitudes) < -180) {
+      rings.push(ring.map(([longitude, latitude]) => [longitude + 360, latitude] as [number, number]));
+    }
+    return rings;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Refinement of sampled events in time: minima of a function (closest approach, culmination)
+ * and sign changes (rise, set, entering reach). Times are ms since epoch.
+ */
+export class TimeSearch {
+  private static readonly GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+  /**
+   * Golden-section search for the time of minimum in [low, high]; the function should have a single minimum there
+   * @param precisionMs Stop once the bracket is this narrow
+   */
+  static findMinimum(fn: (time: number) => number, low: number, high: number, precisionMs: number): number {
+    const ratio = this.GOLDEN_RATIO;
+    let a = low;
+    let b = high;
+    let c = b - ratio * (b - a);
+    let d = a + ratio * (b - a);
+    let fc = fn(c);
+    let fd = fn(d);
+
+    // Each step reuses one of the two inner evaluations
+    while (b - a > precisionMs) {
+      if (fc < fd) {
+        b = d;
+        d = c;
+        fd = fc;
+        c = b - ratio * (b - a);
+        fc = fn(c);
+      } else {
+        a = c;
+        c = d;
+        fc = fd;
+        d = a + ratio * (b - a);
+        fd = fn(d);
+      }
+    }
+
+    return Math.round((a + b) / 2);
+  }
+
+  /**
+   * Bisect [before, after] for the time where the function changes sign (crosses from negative to non-negative or back)
+   * @param precisionMs Stop once the bracket is this narrow
+   */
+  static findCrossing(fn: (time: number) => number, before: number, after: number, precisionMs: number): number {
+    const beforeSign = fn(before) >= 0;
+    let low = before;
+    let high = after;
+
+    while (high - low > precisionMs) {
+      const mid = (low + high) / 2;
+      if ((fn(mid) >= 0) === beforeSign) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return Math.round((low + high) / 2);
+  }
+}
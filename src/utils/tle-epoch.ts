@@ -0,0 +1,84 @@
+/**
+ * TLE epoch parsing and element-set age
+ */
+export class TLEEpoch {
+  static readonly DEFAULT_STALE_THRESHOLD_DAYS = 7; // Element sets older than this give poor positions for LEO
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+  private static readonly MAX_CACHE_SIZE = 20000;
+  private static epochCache: Map<string, number | null> = new Map();
+
+  /**
+   * Parse the epoch from TLE line 1 (columns 19-32, YYDDD.DDDDDDDD)
+   * @param tle1 TLE line 1
+   * @returns Epoch in ms since the Unix epoch, or null if the field is malformed
+   */
+  static parseEpoch(tle1: string): number | null {
+    if (!tle1) {
+      return null;
+    }
+
+    const cached = this.epochCache.get(tle1);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const field = tle1.substring(18, 32).trim();
+    const twoDigitYear = parseInt(field.substring(0, 2), 10);
+    const dayOfYear = parseFloat(field.substring(2));
+
+    let epoch: number | null = null;
+    if (/^\d{5}(\.\d*)?$/.test(field) && dayOfYear >= 1 && dayOfYear < 367) {
+      // Two-digit years 57-99 are 1957-1999 (Sputnik era), 00-56 are 2000-2056
+      const year = twoDigitYear < 57 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+      epoch = Date.UTC(year, 0, 1) + (dayOfYear - 1) * this.MS_PER_DAY;
+    }
+
+    if (this.epochCache.size >= this.MAX_CACHE_SIZE) {
+      this.epochCache.clear();
+    }
+    this.epochCache.set(tle1, epoch);
+    return epoch;
+  }
+
+  /**
+   * Age of the element set at a given time
+   * @param tle1 TLE line 1
+   * @param time Time of use in ms (usually the simulation time)
+   * @returns Age in days (negative when propagating to before the epoch), or null if the epoch can't be parsed
+   */
+  static getAgeDays(tle1: string, time: number = Date.now()): number | null {
+    const epoch = this.parseEpoch(tle1);
+    return epoch === null ? null : (time - epoch) / this.MS_PER_DAY;
+  }
+
+  /**
+   * Whether an element set is too far from its epoch to be trusted. Unparseable epochs count as stale.
+   */
+  static isStale(tle1: string, time: number = Date.now(), thresholdDays: number = this.DEFAULT_STALE_THRESHOLD_DAYS): boolean {
+    const age = this.getAgeDays(tle1, time);
+    return age === null || Math.abs(age) > thresholdDays;
+  }
+
+  /**
+   * Human-readable age, e.g. "5.3 h" or "12.4 d"
+   */
+  static formatAge(ageDays: number): string {
+    const sign = ageDays < 0 ? '-' : '';
+    const days = Math.abs(ageDays);
+    if (days < 1) {
+      return `${sign}${(days * 24).toFixed(1)} h`;
+    }
+    return `${sign}${days.toFixed(1)} d`;
+  }
+
+  /**
+   * Colour for an element-set age: green when fresh, yellow when ageing, red when stale
+   */
+  static getAgeColor(ageDays: number | null, thresholdDays: number = this.DEFAULT_STALE_THRESHOLD_DAYS): [number, number, number, number] {
+    if (ageDays === null) return [150, 150, 150, 255]; // Grey - unknown epoch
+    const age = Math.abs(ageDays);
+    if (age <= thresholdDays / 3) return [0, 220, 90, 255]; // Green
+    if (age <= thresholdDays) return [255, 200, 0, 255]; // Yellow
+    return [255, 60, 60, 255]; // Red
+  }
+}